@@ -0,0 +1,28 @@
+import { describe, expect, it } from 'vitest'
+import { openTestBeads } from './test-utils.js'
+
+describe('actors', () => {
+  it('attributes changes to the adapter, view or call actor', async () => {
+    const beads = openTestBeads({ actor: 'alice' })
+    const issue = await beads.createIssue({ title: 'Shared' })
+    await beads.as('agent-7').updateIssue(issue.id, { priority: 0 })
+    await beads.closeIssue(issue.id, 'Done', { actor: 'bob', comment: 'Reviewed' })
+    await beads.batch([{ op: 'reopenIssue', id: issue.id }], { actor: 'carol' })
+
+    expect((await beads.getHistory(issue.id)).map((e) => [e.eventType, e.actor])).toEqual([
+      ['created', 'alice'],
+      ['priority_changed', 'agent-7'],
+      ['closed', 'bob'],
+      ['reopened', 'carol'],
+    ])
+    expect((await beads.getHistory(issue.id))[2].comment).toBe('Reviewed')
+  })
+
+  it('uses the comment author for comments', async () => {
+    const beads = openTestBeads({ actor: 'alice' })
+    const issue = await beads.createIssue({ title: 'Discussed' })
+
+    expect(await beads.addComment(issue.id, 'Mine')).toMatchObject({ author: 'alice' })
+    expect(await beads.addComment(issue.id, 'Theirs', 'bob')).toMatchObject({ author: 'bob' })
+  })
+})
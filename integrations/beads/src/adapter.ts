@@ -7,10 +7,84 @@
  * @packageDocumentation
  */
 
-import { eq, and, or, inArray, isNull, sql, desc, asc } from 'drizzle-orm'
+import { AsyncLocalStorage } from 'node:async_hooks'
+import { createHash, randomBytes } from 'node:crypto'
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from 'node:fs'
+import { dirname, join } from 'node:path'
+import { eq, and, or, gt, lt, lte, inArray, notInArray, isNull, isNotNull, sql, desc, asc } from 'drizzle-orm'
+import type { SQL } from 'drizzle-orm'
 import { drizzle } from 'drizzle-orm/better-sqlite3'
 import Database from 'better-sqlite3'
 import * as schema from './schema.js'
+import { computeContentHash, fromJsonlIssue, parseJsonl, stringifyJsonl, toJsonlIssue } from './jsonl.js'
+import type { JsonlIssue } from './jsonl.js'
+import { buildDependencyTree, edgeTarget, findPath, rollupProgress, topologicalSort } from './graph.js'
+import type { DependencyTreeNode, DependencyTreeOptions, EpicProgress, GraphDirection } from './graph.js'
+import {
+  ConflictError,
+  DependencyCycleError,
+  InvalidTransitionError,
+  NotFoundError,
+  QuerySyntaxError,
+  ValidationError,
+} from './errors.js'
+import { validateCreateIssue, validateQueryOptions, validateUpdateIssue } from './validation.js'
+import { compileQuery, decodeCursor, encodeCursor, fieldNode, parseQuery } from './query.js'
+import type { QueryNode } from './query.js'
+import {
+  SEARCH_COLUMNS,
+  dropSearchIndexStatements,
+  highlightTerms,
+  searchIndexStatements,
+  searchTerms,
+  toFtsQuery,
+} from './search.js'
+import { measureIssueSize, normalizeSummary } from './compaction.js'
+import { migrateDatabase } from './migrations.js'
+import { SETTINGS, parseSettings, settingForKey, validateConfigKey, validateSettingNames } from './config.js'
+import type { BeadsSettings, SettingName } from './config.js'
+import {
+  STATUS_EVENT_TYPES,
+  assigneeLoadReport,
+  burndownReport,
+  issueTiming,
+  leadCycleReport,
+  statusIntervals,
+  throughputReport,
+  timeInStatus,
+} from './reports.js'
+import type {
+  AssigneeLoad,
+  BurndownPoint,
+  LeadCycleReport,
+  StatusInterval,
+  ThroughputWeek,
+  TimeInStatusRow,
+} from './reports.js'
+import { scheduleForecast } from './forecast.js'
+import { parseMarkdownPlan } from './markdown.js'
+import type { PlanItem } from './markdown.js'
+import type { Forecast } from './forecast.js'
+import { packSessionContext } from './session.js'
+import { matchDuplicates } from './duplicates.js'
+import type { DuplicateMatchOptions, DuplicatePair } from './duplicates.js'
+import type { SessionContext, SessionContextFormat } from './session.js'
+import { checkTransition } from './workflow.js'
+import type { MutationKind, WorkflowOptions } from './workflow.js'
+import type { SnapshotContent, Summarizer } from './compaction.js'
+import {
+  REVERTIBLE_EVENT_TYPES,
+  applyTimestamps,
+  changedField,
+  diffStates,
+  formatFieldValue,
+  parseDependencyValue,
+  parseFieldValue,
+  revertComment,
+  revertedEventId,
+  rewindIssue,
+} from './history.js'
+import type { IssueFieldChange, IssueState } from './history.js'
 import type {
   Issue,
   NewIssue,
@@ -20,6 +94,8 @@ import type {
   NewComment,
   Event,
   NewEvent,
+  IssueSnapshot,
+  IssueLease,
   IssueStatusValue,
   IssueTypeValue,
   PriorityValue,
@@ -33,8 +109,38 @@ import type {
 export interface BeadsConfig {
   /** Path to the SQLite database file */
   dbPath: string
-  /** Whether to create the database if it doesn't exist */
+  /** Whether to create the database, with the full schema, if it doesn't exist */
   createIfMissing?: boolean
+  /**
+   * Apply pending schema migrations on open. By default only databases this
+   * package created or migrated before are upgraded; `true` also upgrades
+   * one made by `bd init`, adding this package's tables and columns to it.
+   * A database left with an older schema fails to open; a new one is always
+   * created with the full schema.
+   */
+  migrate?: boolean
+  /** Open the database read-only: writes fail and the schema is never migrated */
+  readonly?: boolean
+  /** Issue ID prefix (defaults to the `issue_prefix` config value, then `bd`) */
+  issuePrefix?: string
+  /** Who changes are attributed to when no actor is given (default: `system`) */
+  actor?: string
+  /** Allowed status transitions, transition guards and mutation hooks */
+  workflow?: WorkflowOptions
+  /**
+   * Create the FTS5 search index on open if the database doesn't have it
+   * (default: false). Its triggers need FTS5 in every SQLite that writes
+   * to the database, `bd` included; see `rebuildSearchIndex`. Without the
+   * index, `searchIssues` skips comments and has no bm25 ranking.
+   */
+  searchIndex?: boolean
+}
+
+export interface MutationOptions {
+  /** Who the change is attributed to (defaults to the adapter's actor) */
+  actor?: string
+  /** Note recorded on the events of this change */
+  comment?: string
 }
 
 export interface CreateIssueOptions {
@@ -43,13 +149,23 @@ export interface CreateIssueOptions {
   design?: string
   acceptanceCriteria?: string
   notes?: string
+  /**
+   * Defaults to open. Other statuses are reached through the workflow, as
+   * if the issue were created open and then updated.
+   */
   status?: IssueStatusValue
+  /** Defaults to the `defaultPriority` setting */
   priority?: PriorityValue
+  /** Defaults to the `defaultIssueType` setting */
   issueType?: IssueTypeValue
-  assignee?: string
+  /** Defaults to the `defaultAssignee` setting; pass null to leave unassigned */
+  assignee?: string | null
   labels?: string[]
-  estimatedMinutes?: number
+  /** Pass null for no estimate */
+  estimatedMinutes?: number | null
   externalRef?: string
+  /** Create as a child of this issue, with a dotted ID like `proj-a1b2.3` */
+  parentId?: string
 }
 
 export interface UpdateIssueOptions {
@@ -61,29 +177,423 @@ export interface UpdateIssueOptions {
   status?: IssueStatusValue
   priority?: PriorityValue
   issueType?: IssueTypeValue
-  assignee?: string
-  estimatedMinutes?: number
-  externalRef?: string
+  /** Pass null to unassign */
+  assignee?: string | null
+  estimatedMinutes?: number | null
+  externalRef?: string | null
 }
 
-export interface QueryOptions {
+/**
+ * Filters shared by list, ready, blocked and search queries. All given
+ * filters must match.
+ */
+export interface IssueFilterOptions {
   status?: IssueStatusValue | IssueStatusValue[]
   priority?: PriorityValue | PriorityValue[]
   issueType?: IssueTypeValue | IssueTypeValue[]
-  assignee?: string
+  /** Pass null for unassigned issues */
+  assignee?: string | null
   labels?: string[]
+  /** Require every label in `labels` (default) or any of them */
+  labelMatch?: 'all' | 'any'
+  /** Skip issues with any of these labels */
+  excludeLabels?: string[]
+  /** Substring of the title, description, design, acceptance criteria or notes */
+  text?: string
+  /** Pass null for issues without an external reference */
+  externalRef?: string | null
+  sourceRepo?: string
+  /** Only issues with an outgoing dependency of this type */
+  hasDependency?: DependencyTypeValue
+  createdAfter?: Date | string
+  createdBefore?: Date | string
+  updatedAfter?: Date | string
+  updatedBefore?: Date | string
+  closedAfter?: Date | string
+  closedBefore?: Date | string
+  /** Filter in the query language, e.g. `status:open -label:wontfix priority<=1` */
+  query?: string
+}
+
+export interface QueryOptions extends IssueFilterOptions {
   limit?: number
-  offset?: number
+  /** Continue after the last issue of a previous page (see `listIssuesPage`) */
+  cursor?: string
   orderBy?: 'createdAt' | 'updatedAt' | 'priority' | 'title'
   orderDir?: 'asc' | 'desc'
 }
 
+export interface IssuePage {
+  issues: Issue[]
+  /** Cursor for the next page, absent on the last page */
+  nextCursor?: string
+}
+
+export interface ReportOptions extends IssueFilterOptions {
+  /** End of the report period (default: now) */
+  until?: Date | string
+}
+
+export interface ThroughputOptions extends ReportOptions {
+  /** Number of weeks, ending with the week containing `until` (default: 12) */
+  weeks?: number
+}
+
+export interface BurndownOptions {
+  /** First day (default: the epic's creation) */
+  from?: Date | string
+  /** Last day (default: now) */
+  to?: Date | string
+}
+
+export interface AssigneeLoadOptions extends IssueFilterOptions {
+  /** Count issues closed since this time as recent (default: 4 weeks ago) */
+  since?: Date | string
+}
+
+export interface ForecastOptions {
+  /** People to schedule across (default: assignees of the open issues, or one `unassigned` worker) */
+  assignees?: string[]
+  /** Working hours per person per day (default: 6) */
+  hoursPerDay?: number
+  /** First working day (default: today) */
+  startDate?: Date | string
+  /** Days of the week worked, 0 = Sunday (default: Monday to Friday) */
+  workdays?: number[]
+  /** Minutes assumed for issues without an estimate (default: 0) */
+  defaultEstimateMinutes?: number
+}
+
+export interface ImportPlanOptions {
+  /** Create the plan under this issue; required for plans without a single top heading */
+  parentId?: string
+  /** Report what would be created without writing anything */
+  dryRun?: boolean
+}
+
+/**
+ * An issue created, or to be created, from a markdown plan
+ */
+export interface PlannedIssue {
+  /** ID of the created issue; in a dry run, a placeholder like `plan-3` */
+  id: string
+  parentId: string | null
+  title: string
+  description: string
+  issueType: IssueTypeValue
+  labels: string[]
+  status: 'open' | 'closed'
+  /** IDs of the numbered siblings it waits on */
+  blockedBy: string[]
+  /** Line of the plan it came from */
+  line: number
+}
+
+export interface PlanImportResult {
+  /** Issues in creation order, parents before children */
+  issues: PlannedIssue[]
+  dryRun: boolean
+}
+
+export interface FindDuplicatesOptions extends DuplicateMatchOptions {
+  /** Compare closed issues too (default: false) */
+  includeClosed?: boolean
+  /** Maximum pairs returned */
+  limit?: number
+}
+
+export interface MergeResult {
+  target: Issue
+  /** Sources merged into the target */
+  merged: string[]
+  /** Labels the target gained */
+  labels: number
+  /** Comments moved to the target */
+  comments: number
+  /** Dependency edges moved to the target */
+  dependencies: number
+  /**
+   * Edges of the sources not moved: ones between the merged issues, ones
+   * the target already has, and ones that would close a cycle
+   */
+  dropped: Dependency[]
+}
+
+export interface DeletedQueryOptions {
+  /** Only issues deleted before this time */
+  olderThan?: Date | string
+  limit?: number
+}
+
+export interface PurgeOptions {
+  /** Only issues deleted before this time (default: all deleted issues) */
+  olderThan?: Date | string
+  /** List what would be purged without removing anything */
+  dryRun?: boolean
+}
+
+export interface ReadyQueryOptions extends Omit<IssueFilterOptions, 'status'> {
+  limit?: number
+}
+
+export interface ClaimOptions {
+  /** Agent claiming the work; it becomes the assignee and the actor of the change */
+  agent: string
+  /** Only claim issues matching these filters */
+  filter?: Omit<ReadyQueryOptions, 'limit'>
+  /** Minutes until the lease expires without a heartbeat (default: 30) */
+  leaseMinutes?: number
+}
+
+export interface Claim {
+  issue: Issue
+  lease: IssueLease
+}
+
+export interface ReleaseOptions {
+  /** Status to leave the issue in (default: `open`) */
+  status?: 'open' | 'blocked'
+  /** Recorded on the release event */
+  reason?: string
+}
+
+export interface SessionContextOptions {
+  /** Agent resuming work: its in-progress issues and what it touched lately */
+  agent: string
+  /** Maximum size of the result, in tokens (default: 4000) */
+  tokenBudget?: number
+  /** Output format (default: `markdown`) */
+  format?: SessionContextFormat
+  /** Only suggest ready issues matching these filters */
+  filter?: Omit<ReadyQueryOptions, 'limit'>
+  /** Ready issues to consider (default: 10) */
+  readyLimit?: number
+  /** Recent comments and events to consider, each (default: 20) */
+  activityLimit?: number
+  /** Token counter (default: four characters per token) */
+  countTokens?: (text: string) => number
+}
+
+export interface SearchOptions extends IssueFilterOptions {
+  /** Maximum results (default: 20) */
+  limit?: number
+  /** Continue after the last result of a previous page (see `searchIssuesPage`) */
+  cursor?: string
+  /** Require all terms (default) or any term */
+  match?: 'all' | 'any'
+  /** Pass the query to FTS5 unchanged, allowing its operators and column filters */
+  raw?: boolean
+  /** Markers placed around matches in the snippet (default: `**`) */
+  highlight?: [string, string]
+}
+
+export interface SearchResult {
+  issue: Issue
+  /** bm25 score; lower is a better match */
+  rank: number
+  /** Excerpt of the best matching field with matches highlighted */
+  snippet: string
+}
+
+export interface SearchPage {
+  results: SearchResult[]
+  /** Cursor for the next page, absent on the last page */
+  nextCursor?: string
+}
+
+export interface CompactionCandidateOptions {
+  /** Only issues closed at least this many days ago (default: 30) */
+  olderThanDays?: number
+  /** Only issues whose text and comments total at least this many bytes (default: 0) */
+  minSize?: number
+  /** Only issues currently at this compaction level (default: 0, never compacted) */
+  level?: number
+  limit?: number
+}
+
+export interface CompactionCandidate {
+  issue: Issue
+  /** Current size in bytes of description, design, notes, acceptance criteria and comments */
+  size: number
+}
+
+export interface CompactIssuesOptions extends CompactionCandidateOptions, MutationOptions {
+  /** Produces the summary for each issue */
+  summarize: Summarizer
+  /** Compact these issues instead of searching for candidates */
+  ids?: string[]
+  /** List what would be compacted without calling the summarizer or writing */
+  dryRun?: boolean
+  /** Keep the pre-compaction text in `issue_snapshots` (default: true) */
+  snapshot?: boolean
+  /** Git commit to record in `compacted_at_commit` */
+  commit?: string
+}
+
+export interface CompactionResult {
+  id: string
+  originalSize: number
+  /** Size after compaction (equal to `originalSize` in a dry run) */
+  compactedSize: number
+  /** Compaction level after this pass */
+  level: number
+  dryRun: boolean
+}
+
+/**
+ * A single step of `batch()`.
+ *
+ * Any issue ID field may be written `$ref` to use the ID of an issue created
+ * by an earlier `createIssue` step with that `ref`.
+ */
+export type BatchOperation =
+  | { op: 'createIssue'; ref?: string; input: CreateIssueOptions }
+  | { op: 'updateIssue'; id: string; input: UpdateIssueOptions }
+  | { op: 'closeIssue'; id: string; reason?: string }
+  | { op: 'reopenIssue'; id: string }
+  | { op: 'deleteIssue'; id: string; reason?: string }
+  | { op: 'addDependency'; from: string; to: string; type?: DependencyTypeValue }
+  | { op: 'removeDependency'; from: string; to: string }
+  | { op: 'addLabel'; id: string; label: string }
+  | { op: 'removeLabel'; id: string; label: string }
+  | { op: 'addComment'; id: string; text: string; author?: string }
+
+export interface BatchResult {
+  /** IDs of created issues, keyed by `ref` */
+  ids: Record<string, string>
+  /** Return value of each operation, in order */
+  results: unknown[]
+}
+
+export interface HistoryOptions {
+  /** Only events after this time (ISO 8601) */
+  since?: string
+  /** Only events at or before this time (ISO 8601) */
+  until?: string
+}
+
+export interface RevertOptions extends MutationOptions {
+  /** Revert even when the issue has changed since the event */
+  force?: boolean
+}
+
+export interface RevertResult {
+  /** The event that was reverted */
+  event: Event
+  /** The issue after the revert */
+  issue: Issue
+}
+
+export interface WatchOptions {
+  /**
+   * Resume after this cursor, taken from a previous change or `getCursor()`.
+   * Without it only changes made after the watch starts are reported.
+   */
+  since?: string
+  /** Only these event types */
+  eventTypes?: string[]
+  /** Only events on these issues */
+  issueIds?: string[]
+  /** How often to check for writes from other processes, in ms (default: 250) */
+  interval?: number
+  /** Stops the watch */
+  signal?: AbortSignal
+}
+
+export interface Change {
+  /** Pass as `since` to resume after this change */
+  cursor: string
+  event: Event
+}
+
 export interface IssueWithRelations extends Issue {
   labels: string[]
   dependencies: Dependency[]
   comments: Comment[]
 }
 
+export interface TransitiveQueryOptions {
+  /** Dependency types to follow (default: `blocks`) */
+  types?: DependencyTypeValue[]
+  /** Include and walk through closed issues (default: false) */
+  includeClosed?: boolean
+  /** Maximum number of hops (default: unlimited) */
+  maxDepth?: number
+}
+
+export interface ListChildrenOptions {
+  /** Include grandchildren and below, nearest first (default: false) */
+  recursive?: boolean
+  /** Include closed issues and their children (default: true) */
+  includeClosed?: boolean
+}
+
+export interface ExportJsonlOptions {
+  /** Output file (defaults to `issues.jsonl` next to the database) */
+  path?: string
+  /** Rewrite every issue instead of only dirty ones */
+  full?: boolean
+}
+
+export interface ExportJsonlResult {
+  path: string
+  /** Issues whose line was written or rewritten */
+  exported: number
+  /** Dirty issues whose content matched the last export */
+  unchanged: number
+  /** Deleted issues written as tombstones */
+  tombstones: number
+  /** Lines in the file after export */
+  total: number
+}
+
+export interface ImportJsonlOptions {
+  /** Input file (defaults to `issues.jsonl` next to the database) */
+  path?: string
+  /**
+   * How to resolve an issue changed both locally (unexported) and in the file:
+   * `skip` keeps the local version, `overwrite` takes the file version,
+   * `newer` takes whichever has the later `updated_at`. Defaults to `skip`.
+   */
+  onCollision?: 'skip' | 'overwrite' | 'newer'
+  /** Report what would change without writing */
+  dryRun?: boolean
+}
+
+export interface JsonlCollision {
+  id: string
+  localHash: string
+  incomingHash: string
+  resolution: 'kept-local' | 'took-incoming'
+}
+
+export interface ImportJsonlResult {
+  created: number
+  updated: number
+  unchanged: number
+  collisions: JsonlCollision[]
+  /** Non-fatal problems, such as dependencies on unknown issues */
+  warnings: string[]
+}
+
+/**
+ * One level of transaction nesting. Calls at the same level are serialized
+ * through `queue`.
+ */
+interface TransactionScope {
+  depth: number
+  queue: Promise<void>
+}
+
+/**
+ * Commits made through this connection, which SQLite's `data_version` does
+ * not report. Shared by all views of an adapter.
+ */
+interface WriteTracker {
+  count: number
+  listeners: Set<() => void>
+}
+
 // =============================================================================
 // Adapter Class
 // =============================================================================
@@ -94,539 +604,3228 @@ export interface IssueWithRelations extends Issue {
 export class BeadsAdapter {
   private db: ReturnType<typeof drizzle>
   private sqlite: Database.Database
+  private dbPath: string
+  private issuePrefix?: string
+  private actor: string
+  private workflow: WorkflowOptions
+  private txScope = new AsyncLocalStorage<TransactionScope>()
+  private rootScope: TransactionScope = { depth: 0, queue: Promise.resolve() }
+  private writes: WriteTracker = { count: 0, listeners: new Set() }
 
   constructor(config: BeadsConfig) {
+    this.dbPath = config.dbPath
+    this.issuePrefix = config.issuePrefix
+    this.actor = config.actor ?? 'system'
+    this.workflow = config.workflow ?? {}
+    if (config.createIfMissing) mkdirSync(dirname(config.dbPath), { recursive: true })
     this.sqlite = new Database(config.dbPath, {
-      readonly: false,
+      readonly: config.readonly ?? false,
       fileMustExist: !config.createIfMissing,
     })
+
+    try {
+      migrateDatabase(this.sqlite, { migrate: config.migrate })
+      if (config.searchIndex) {
+        this.sqlite.transaction(() => {
+          if (this.hasSearchIndex()) return
+          for (const statement of searchIndexStatements()) this.sqlite.exec(statement)
+        }).immediate()
+      }
+    } catch (err) {
+      this.sqlite.close()
+      throw err
+    }
+
     this.db = drizzle(this.sqlite, { schema })
   }
 
-  /**
-   * Close the database connection
-   */
-  close() {
-    this.sqlite.close()
+  /**
+   * Close the database connection
+   */
+  close() {
+    this.sqlite.close()
+  }
+
+  /**
+   * Get a view of this adapter that attributes changes to `actor`.
+   *
+   * The view shares the connection (and transactions) with this adapter;
+   * closing either closes both.
+   *
+   * ```ts
+   * const agent = beads.as('agent-7')
+   * await agent.closeIssue(id, 'done') // recorded as agent-7
+   * ```
+   */
+  as(actor: string): this {
+    const view = Object.create(this) as this
+    view.actor = actor
+    return view
+  }
+
+  /**
+   * Resolve the actor for a mutation
+   */
+  private resolveActor(options?: MutationOptions): string {
+    return options?.actor ?? this.actor
+  }
+
+  // ===========================================================================
+  // Transactions
+  // ===========================================================================
+
+  /**
+   * Run `fn` with exclusive use of a scope, after earlier users finish
+   */
+  private async runExclusive<T>(scope: TransactionScope, fn: () => Promise<T>): Promise<T> {
+    const previous = scope.queue
+    let release!: () => void
+    scope.queue = new Promise<void>((resolve) => { release = resolve })
+
+    await previous
+    try {
+      return await fn()
+    } finally {
+      release()
+    }
+  }
+
+  /**
+   * Run a read after transactions already open on this adapter finish, so
+   * it only sees committed rows. Within a transaction it runs right away.
+   */
+  private readCommitted<T>(fn: () => Promise<T>): Promise<T> {
+    return this.txScope.getStore() ? fn() : this.runExclusive(this.rootScope, fn)
+  }
+
+  /**
+   * Run `fn` in a transaction: everything it writes is committed together,
+   * or rolled back if it throws.
+   *
+   * Every mutating method runs in its own transaction, and calls made while
+   * one is open (on this adapter, from within `fn`) join it as a savepoint.
+   * Other callers' writes wait until it finishes. Their reads don't: they
+   * share the connection, so they see its uncommitted changes. Read through
+   * a second adapter on the same file for isolated reads. The top-level
+   * transaction takes SQLite's write lock up front (`BEGIN IMMEDIATE`), so
+   * other processes see all of it or none of it.
+   *
+   * ```ts
+   * const ids = await beads.transaction(async (tx) => {
+   *   const epic = await tx.createIssue({ title: 'Epic', issueType: 'epic' })
+   *   const child = await tx.createIssue({ title: 'Child', parentId: epic.id })
+   *   return [epic.id, child.id]
+   * })
+   * ```
+   */
+  async transaction<T>(fn: (tx: this) => Promise<T>): Promise<T> {
+    const parent = this.txScope.getStore() ?? this.rootScope
+
+    return this.runExclusive(parent, () => {
+      const scope: TransactionScope = { depth: parent.depth + 1, queue: Promise.resolve() }
+      const savepoint = `beads_tx_${scope.depth}`
+
+      this.sqlite.exec(scope.depth === 1 ? 'BEGIN IMMEDIATE' : `SAVEPOINT ${savepoint}`)
+
+      return this.txScope.run(scope, async () => {
+        try {
+          const result = await fn(this)
+          this.sqlite.exec(scope.depth === 1 ? 'COMMIT' : `RELEASE ${savepoint}`)
+          if (scope.depth === 1) this.notifyWrite()
+          return result
+        } catch (err) {
+          if (scope.depth === 1) {
+            if (this.sqlite.inTransaction) this.sqlite.exec('ROLLBACK')
+          } else {
+            this.sqlite.exec(`ROLLBACK TO ${savepoint}`)
+            this.sqlite.exec(`RELEASE ${savepoint}`)
+          }
+          throw err
+        }
+      })
+    })
+  }
+
+  /**
+   * Run a mutation in a transaction, between the workflow's hooks
+   */
+  private mutate<T>(
+    kind: MutationKind,
+    issueId: string | undefined,
+    input: Record<string, unknown>,
+    actor: string,
+    fn: () => Promise<T>
+  ): Promise<T> {
+    return this.transaction(async () => {
+      const context = { kind, issueId, input, actor, beads: this as BeadsAdapter }
+      for (const hook of this.workflow.hooks ?? []) await hook.before?.(context)
+
+      const result = await fn()
+
+      for (const hook of this.workflow.hooks ?? []) await hook.after?.({ ...context, result })
+      return result
+    })
+  }
+
+  /**
+   * Check a status change against the workflow
+   *
+   * @throws InvalidTransitionError if the transition map or a guard rejects it
+   */
+  private async assertTransition(issue: Issue, to: IssueStatusValue, actor: string): Promise<void> {
+    const from = issue.status as IssueStatusValue
+    const reason = await checkTransition(this.workflow, { issue, from, to, actor, beads: this })
+    if (reason) {
+      throw new InvalidTransitionError(issue.id, from, to, `Cannot move ${issue.id} from ${from} to ${to}: ${reason}`)
+    }
+  }
+
+  /**
+   * Run several operations as one all-or-nothing unit.
+   *
+   * ```ts
+   * const { ids } = await beads.batch([
+   *   { op: 'createIssue', ref: 'epic', input: { title: 'Epic', issueType: 'epic' } },
+   *   { op: 'createIssue', ref: 'a', input: { title: 'A', parentId: '$epic' } },
+   *   { op: 'createIssue', ref: 'b', input: { title: 'B', parentId: '$epic' } },
+   *   { op: 'addDependency', from: '$b', to: '$a' },
+   * ])
+   * ```
+   */
+  async batch(operations: BatchOperation[], options?: MutationOptions): Promise<BatchResult> {
+    const mutation = { actor: this.resolveActor(options) }
+
+    return this.transaction(async () => {
+      const ids: Record<string, string> = {}
+      const results: unknown[] = []
+
+      const resolve = (id: string): string => {
+        if (!id.startsWith('$')) return id
+        const resolved = ids[id.slice(1)]
+        if (!resolved) {
+          throw new ValidationError([{ path: id, message: 'is not the ref of an earlier operation' }], `Unknown batch reference: ${id}`)
+        }
+        return resolved
+      }
+
+      for (const operation of operations) {
+        switch (operation.op) {
+          case 'createIssue': {
+            const input = operation.input.parentId
+              ? { ...operation.input, parentId: resolve(operation.input.parentId) }
+              : operation.input
+            const issue = await this.createIssue(input, mutation)
+            if (operation.ref) ids[operation.ref] = issue.id
+            results.push(issue)
+            break
+          }
+          case 'updateIssue':
+            results.push(await this.updateIssue(resolve(operation.id), operation.input, mutation))
+            break
+          case 'closeIssue':
+            results.push(await this.closeIssue(resolve(operation.id), operation.reason, mutation))
+            break
+          case 'reopenIssue':
+            results.push(await this.reopenIssue(resolve(operation.id), mutation))
+            break
+          case 'deleteIssue':
+            results.push(await this.deleteIssue(resolve(operation.id), operation.reason, mutation))
+            break
+          case 'addDependency':
+            results.push(await this.addDependency(resolve(operation.from), resolve(operation.to), operation.type, mutation))
+            break
+          case 'removeDependency':
+            results.push(await this.removeDependency(resolve(operation.from), resolve(operation.to), mutation))
+            break
+          case 'addLabel':
+            results.push(await this.addLabel(resolve(operation.id), operation.label, mutation))
+            break
+          case 'removeLabel':
+            results.push(await this.removeLabel(resolve(operation.id), operation.label, mutation))
+            break
+          case 'addComment':
+            results.push(await this.addComment(resolve(operation.id), operation.text, operation.author ?? mutation.actor))
+            break
+        }
+      }
+
+      return { ids, results }
+    })
+  }
+
+  // ===========================================================================
+  // Configuration
+  // ===========================================================================
+
+  /**
+   * Get the project settings from the `config` table, with defaults for
+   * unset keys. `BeadsConfig.issuePrefix` overrides the stored prefix.
+   */
+  async getSettings(): Promise<BeadsSettings> {
+    const rows = await this.db.select().from(schema.config)
+    const settings = parseSettings(new Map(rows.map((r) => [r.key, r.value])))
+
+    return this.issuePrefix ? { ...settings, issuePrefix: this.issuePrefix } : settings
+  }
+
+  /**
+   * Change project settings. Only the given settings are written.
+   *
+   * @throws ValidationError if a name is unknown or a value is invalid;
+   * nothing is written then
+   */
+  async updateSettings(settings: Partial<BeadsSettings>): Promise<BeadsSettings> {
+    validateSettingNames(settings)
+
+    return this.transaction(async () => {
+      for (const name of Object.keys(settings) as SettingName[]) {
+        const value = settings[name]
+        if (value === undefined) continue
+
+        const definition = SETTINGS[name] as { key: string; format(value: unknown): string }
+        await this.setConfig(definition.key, definition.format(value))
+      }
+
+      return this.getSettings()
+    })
+  }
+
+  /**
+   * Get a raw `config` value
+   */
+  async getConfig(key: string): Promise<string | undefined> {
+    const result = await this.db
+      .select()
+      .from(schema.config)
+      .where(eq(schema.config.key, key))
+      .limit(1)
+
+    return result[0]?.value
+  }
+
+  /**
+   * Set a `config` value. The key must be a known setting, whose value is
+   * validated, one of `bd`'s own keys (see `BD_CONFIG_KEYS`), or namespaced
+   * for an integration, e.g. `github.repo`.
+   *
+   * @throws Error for unknown keys or invalid setting values
+   */
+  async setConfig(key: string, value: string): Promise<void> {
+    validateConfigKey(key)
+    const setting = settingForKey(key)
+    if (setting) {
+      try {
+        SETTINGS[setting].parse(value)
+      } catch (err) {
+        throw new ValidationError([{ path: key, message: (err as Error).message }], (err as Error).message)
+      }
+    }
+
+    await this.mutate('setConfig', undefined, { key, value }, this.resolveActor(), async () => {
+      await this.db.insert(schema.config)
+        .values({ key, value })
+        .onConflictDoUpdate({ target: schema.config.key, set: { value } })
+    })
+  }
+
+  /**
+   * Remove a `config` value, returning settings to their default.
+   *
+   * Returns false if the key was not set.
+   */
+  async unsetConfig(key: string): Promise<boolean> {
+    return this.mutate('unsetConfig', undefined, { key }, this.resolveActor(), async () => {
+      const removed = await this.db
+        .delete(schema.config)
+        .where(eq(schema.config.key, key))
+        .returning()
+
+      return removed.length > 0
+    })
+  }
+
+  /**
+   * List `config` values, optionally only those in a namespace (with the
+   * namespace kept in the keys)
+   */
+  async listConfig(namespace?: string): Promise<Record<string, string>> {
+    const rows = await this.db.select().from(schema.config).orderBy(asc(schema.config.key))
+
+    return Object.fromEntries(rows
+      .filter((r) => !namespace || r.key.startsWith(`${namespace}.`))
+      .map((r) => [r.key, r.value]))
+  }
+
+  // ===========================================================================
+  // Issue CRUD
+  // ===========================================================================
+
+  /**
+   * Check whether an ID is taken, including by soft-deleted issues
+   */
+  private async idExists(id: string): Promise<boolean> {
+    const result = await this.db
+      .select({ id: schema.issues.id })
+      .from(schema.issues)
+      .where(eq(schema.issues.id, id))
+      .limit(1)
+
+    return result.length > 0
+  }
+
+  /**
+   * Generate a unique top-level issue ID (hash-based like beads).
+   *
+   * The hash starts at `idHashLength` base-36 characters (default 4) and
+   * grows up to 8 when collisions keep occurring, matching the IDs
+   * produced by `bd`.
+   */
+  private async generateId(title: string, createdAt: string, settings: BeadsSettings): Promise<string> {
+    const prefix = settings.issuePrefix
+
+    for (let length = settings.idHashLength; length <= 8; length++) {
+      for (let attempt = 0; attempt < 10; attempt++) {
+        const digest = createHash('sha256')
+          .update(`${title}\0${createdAt}\0${randomBytes(8).toString('hex')}`)
+          .digest()
+        const hash = BigInt(`0x${digest.subarray(0, 8).toString('hex')}`).toString(36)
+        const id = `${prefix}-${hash.slice(-length)}`
+
+        if (!(await this.idExists(id))) return id
+      }
+    }
+
+    throw new ConflictError(`Unable to generate a unique issue ID with prefix "${prefix}"`)
+  }
+
+  /**
+   * Allocate the next child ID for a parent, e.g. `proj-a1b2.3`.
+   *
+   * The counter is bumped with a single upsert so concurrent writers never
+   * receive the same number. Numbers already taken (e.g. by imported
+   * children) are skipped.
+   */
+  private async allocateChildId(parentId: string): Promise<string> {
+    for (;;) {
+      const result = await this.db
+        .insert(schema.childCounters)
+        .values({ parentId, lastChild: 1 })
+        .onConflictDoUpdate({
+          target: schema.childCounters.parentId,
+          set: { lastChild: sql`${schema.childCounters.lastChild} + 1` },
+        })
+        .returning({ lastChild: schema.childCounters.lastChild })
+
+      const id = `${parentId}.${result[0].lastChild}`
+      if (!(await this.idExists(id))) return id
+    }
+  }
+
+  /**
+   * Get current ISO timestamp
+   */
+  private now(): string {
+    return new Date().toISOString()
+  }
+
+  /**
+   * Create a new issue. Fields not given take the project's settings.
+   *
+   * @throws ValidationError if the options are invalid
+   * @throws NotFoundError if the parent doesn't exist
+   * @throws InvalidTransitionError if the workflow doesn't allow moving a
+   * new issue from open to the given status
+   */
+  async createIssue(options: CreateIssueOptions, mutation?: MutationOptions): Promise<Issue> {
+    validateCreateIssue(options)
+    const actor = this.resolveActor(mutation)
+
+    return this.mutate('createIssue', undefined, { ...options }, actor, async () => {
+      const now = this.now()
+      const settings = await this.getSettings()
+
+      if (options.parentId && !(await this.getIssue(options.parentId))) {
+        throw new NotFoundError('issue', options.parentId, `Parent issue not found: ${options.parentId}`)
+      }
+
+      const id = options.parentId
+        ? await this.allocateChildId(options.parentId)
+        : await this.generateId(options.title, now, settings)
+
+      const issue: NewIssue = {
+        id,
+        title: options.title,
+        description: options.description || '',
+        design: options.design || '',
+        acceptanceCriteria: options.acceptanceCriteria || '',
+        notes: options.notes || '',
+        status: 'open',
+        priority: options.priority ?? settings.defaultPriority,
+        issueType: options.issueType || settings.defaultIssueType,
+        assignee: options.assignee === undefined ? settings.defaultAssignee : options.assignee,
+        estimatedMinutes: options.estimatedMinutes,
+        externalRef: options.externalRef,
+        createdAt: now,
+        updatedAt: now,
+      }
+
+      await this.db.insert(schema.issues).values(issue)
+
+      // Add labels if provided
+      if (options.labels && options.labels.length > 0) {
+        await this.db.insert(schema.labels).values(
+          options.labels.map((label) => ({ issueId: id, label }))
+        )
+      }
+
+      // Record creation event
+      await this.db.insert(schema.events).values({
+        issueId: id,
+        eventType: 'created',
+        actor,
+        comment: mutation?.comment,
+        createdAt: now,
+      })
+
+      await this.markDirty(id)
+
+      if (options.parentId) {
+        await this.addDependency(id, options.parentId, 'parent-child', { actor })
+      }
+
+      if (options.status && options.status !== 'open') {
+        return this.applyUpdate(id, { status: options.status }, { actor, comment: mutation?.comment }, true)
+      }
+
+      return this.getIssue(id) as Promise<Issue>
+    })
+  }
+
+  /**
+   * Get an issue by ID
+   */
+  async getIssue(id: string): Promise<Issue | undefined> {
+    const result = await this.db
+      .select()
+      .from(schema.issues)
+      .where(and(eq(schema.issues.id, id), isNull(schema.issues.deletedAt)))
+      .limit(1)
+
+    return result[0]
+  }
+
+  /**
+   * Get an issue, failing if it doesn't exist
+   */
+  private async requireIssue(id: string): Promise<Issue> {
+    const issue = await this.getIssue(id)
+    if (!issue) throw new NotFoundError('issue', id)
+    return issue
+  }
+
+  /**
+   * Get an issue with all its relations
+   */
+  async getIssueWithRelations(id: string): Promise<IssueWithRelations | undefined> {
+    const issue = await this.getIssue(id)
+    if (!issue) return undefined
+
+    const [labels, dependencies, comments] = await Promise.all([
+      this.db.select().from(schema.labels).where(eq(schema.labels.issueId, id)),
+      this.db.select().from(schema.dependencies).where(eq(schema.dependencies.issueId, id)),
+      this.db.select().from(schema.comments).where(eq(schema.comments.issueId, id)),
+    ])
+
+    return {
+      ...issue,
+      labels: labels.map((l) => l.label),
+      dependencies,
+      comments,
+    }
+  }
+
+  /**
+   * Update an issue
+   *
+   * @throws ValidationError if the options are invalid
+   * @throws NotFoundError if the issue doesn't exist
+   */
+  async updateIssue(id: string, options: UpdateIssueOptions, mutation?: MutationOptions): Promise<Issue> {
+    return this.applyUpdate(id, options, mutation, true)
+  }
+
+  /**
+   * Update an issue; status changes skip the workflow unless `checkWorkflow`
+   */
+  private async applyUpdate(
+    id: string,
+    options: UpdateIssueOptions,
+    mutation: MutationOptions | undefined,
+    checkWorkflow: boolean
+  ): Promise<Issue> {
+    validateUpdateIssue(options)
+    const actor = this.resolveActor(mutation)
+
+    return this.mutate('updateIssue', id, { ...options }, actor, async () => {
+      const existing = await this.requireIssue(id)
+
+      const now = this.now()
+      const updates: Partial<NewIssue> = {
+        updatedAt: now,
+      }
+
+      // Track changes for events
+      const changes: Array<{ field: string; oldValue: string; newValue: string }> = []
+
+      if (options.title !== undefined && options.title !== existing.title) {
+        updates.title = options.title
+        changes.push({ field: 'title', oldValue: existing.title, newValue: options.title })
+      }
+
+      if (options.description !== undefined && options.description !== existing.description) {
+        updates.description = options.description
+        changes.push({ field: 'description', oldValue: existing.description, newValue: options.description })
+      }
+
+      if (options.design !== undefined && options.design !== existing.design) {
+        updates.design = options.design
+        changes.push({ field: 'design', oldValue: existing.design, newValue: options.design })
+      }
+
+      if (options.acceptanceCriteria !== undefined && options.acceptanceCriteria !== existing.acceptanceCriteria) {
+        updates.acceptanceCriteria = options.acceptanceCriteria
+        changes.push({ field: 'acceptanceCriteria', oldValue: existing.acceptanceCriteria, newValue: options.acceptanceCriteria })
+      }
+
+      if (options.notes !== undefined && options.notes !== existing.notes) {
+        updates.notes = options.notes
+        changes.push({ field: 'notes', oldValue: existing.notes, newValue: options.notes })
+      }
+
+      if (options.status !== undefined && options.status !== existing.status) {
+        updates.status = options.status
+        if (options.status === 'closed') {
+          updates.closedAt = now
+          updates.closeReason = mutation?.comment ?? ''
+        } else if (existing.status === 'closed') {
+          updates.closedAt = null
+          updates.closeReason = ''
+        }
+        changes.push({ field: 'status', oldValue: existing.status, newValue: options.status })
+      }
+
+      if (options.priority !== undefined && options.priority !== existing.priority) {
+        updates.priority = options.priority
+        changes.push({ field: 'priority', oldValue: String(existing.priority), newValue: String(options.priority) })
+      }
+
+      if (options.issueType !== undefined && options.issueType !== existing.issueType) {
+        updates.issueType = options.issueType
+        changes.push({ field: 'issueType', oldValue: existing.issueType, newValue: options.issueType })
+      }
+
+      if (options.assignee !== undefined && options.assignee !== existing.assignee) {
+        updates.assignee = options.assignee
+        changes.push({ field: 'assignee', oldValue: existing.assignee || '', newValue: options.assignee || '' })
+      }
+
+      if (options.estimatedMinutes !== undefined && options.estimatedMinutes !== existing.estimatedMinutes) {
+        updates.estimatedMinutes = options.estimatedMinutes
+        changes.push({
+          field: 'estimatedMinutes',
+          oldValue: formatFieldValue(existing.estimatedMinutes),
+          newValue: formatFieldValue(options.estimatedMinutes),
+        })
+      }
+
+      if (options.externalRef !== undefined && options.externalRef !== existing.externalRef) {
+        updates.externalRef = options.externalRef
+        changes.push({ field: 'externalRef', oldValue: existing.externalRef || '', newValue: options.externalRef || '' })
+      }
+
+      if (updates.status && checkWorkflow) {
+        await this.assertTransition({ ...existing, ...updates, status: existing.status } as Issue, updates.status, actor)
+      }
+
+      if (Object.keys(updates).length > 1) {
+        await this.db.update(schema.issues).set(updates).where(eq(schema.issues.id, id))
+        if (updates.status === 'closed') {
+          await this.db.delete(schema.issueLeases).where(eq(schema.issueLeases.issueId, id))
+        }
+
+        // Record events for changes; closing and reopening get their own
+        await this.db.insert(schema.events).values(changes.map((change) => ({
+          issueId: id,
+          eventType: change.field !== 'status'
+            ? `${change.field}_changed`
+            : change.newValue === 'closed' ? 'closed' : change.oldValue === 'closed' ? 'reopened' : 'status_changed',
+          actor,
+          oldValue: change.oldValue,
+          newValue: change.newValue,
+          comment: mutation?.comment,
+          createdAt: now,
+        })))
+
+        await this.markDirty(id)
+
+        if (updates.status) {
+          await this.refreshBlockedCache([id])
+          await this.updateParents(id, existing.status, updates.status, actor)
+        }
+      }
+
+      return this.requireIssue(id)
+    })
+  }
+
+  /**
+   * Close an issue
+   *
+   * @throws NotFoundError if the issue doesn't exist
+   * @throws InvalidTransitionError if it is already closed, or the workflow
+   * doesn't allow closing it
+   */
+  async closeIssue(id: string, reason?: string, mutation?: MutationOptions): Promise<Issue> {
+    const actor = this.resolveActor(mutation)
+
+    return this.mutate('closeIssue', id, { reason }, actor, async () => {
+      const existing = await this.requireIssue(id)
+      if (existing.status === 'closed') {
+        throw new InvalidTransitionError(id, 'closed', 'closed', `Issue is already closed: ${id}`)
+      }
+      await this.assertTransition(existing, 'closed', actor)
+
+      const now = this.now()
+
+      await this.db.update(schema.issues).set({
+        status: 'closed',
+        closedAt: now,
+        closeReason: reason || '',
+        updatedAt: now,
+      }).where(eq(schema.issues.id, id))
+      await this.db.delete(schema.issueLeases).where(eq(schema.issueLeases.issueId, id))
+
+      await this.db.insert(schema.events).values({
+        issueId: id,
+        eventType: 'closed',
+        actor,
+        oldValue: existing.status,
+        newValue: 'closed',
+        comment: mutation?.comment ?? reason,
+        createdAt: now,
+      })
+
+      await this.markDirty(id)
+      await this.refreshBlockedCache([id])
+      await this.updateParents(id, existing.status, 'closed', actor)
+
+      return this.requireIssue(id)
+    })
+  }
+
+  /**
+   * Reopen a closed issue, clearing its close reason
+   *
+   * @throws NotFoundError if the issue doesn't exist
+   * @throws InvalidTransitionError if it isn't closed, or the workflow
+   * doesn't allow reopening it
+   */
+  async reopenIssue(id: string, mutation?: MutationOptions): Promise<Issue> {
+    const actor = this.resolveActor(mutation)
+
+    return this.mutate('reopenIssue', id, {}, actor, async () => {
+      const existing = await this.requireIssue(id)
+      if (existing.status !== 'closed') {
+        throw new InvalidTransitionError(id, existing.status, 'open', `Issue is not closed: ${id}`)
+      }
+      await this.assertTransition(existing, 'open', actor)
+
+      const now = this.now()
+
+      await this.db.update(schema.issues).set({
+        status: 'open',
+        closedAt: null,
+        closeReason: '',
+        updatedAt: now,
+      }).where(eq(schema.issues.id, id))
+
+      await this.db.insert(schema.events).values({
+        issueId: id,
+        eventType: 'reopened',
+        actor,
+        oldValue: 'closed',
+        newValue: 'open',
+        comment: mutation?.comment,
+        createdAt: now,
+      })
+
+      await this.markDirty(id)
+      await this.refreshBlockedCache([id])
+      await this.updateParents(id, 'closed', 'open', actor)
+
+      return this.requireIssue(id)
+    })
+  }
+
+  /**
+   * Soft delete an issue.
+   *
+   * Its labels, comments and dependencies are kept so `restoreIssue` can
+   * bring it back whole, but it no longer blocks other issues.
+   */
+  async deleteIssue(id: string, reason?: string, mutation?: MutationOptions): Promise<boolean> {
+    const actor = this.resolveActor(mutation)
+
+    return this.mutate('deleteIssue', id, { reason }, actor, async () => {
+      const existing = await this.getIssue(id)
+      if (!existing) return false
+
+      const now = this.now()
+
+      await this.db.update(schema.issues).set({
+        deletedAt: now,
+        deletedBy: actor,
+        deleteReason: reason || '',
+        originalType: existing.issueType,
+        updatedAt: now,
+      }).where(eq(schema.issues.id, id))
+      await this.db.delete(schema.issueLeases).where(eq(schema.issueLeases.issueId, id))
+
+      await this.db.insert(schema.events).values({
+        issueId: id,
+        eventType: 'deleted',
+        actor,
+        comment: mutation?.comment ?? reason,
+        createdAt: now,
+      })
+
+      await this.markDirty(id)
+      await this.refreshBlockedCache([id])
+
+      return true
+    })
+  }
+
+  /**
+   * Get a soft-deleted issue by ID
+   */
+  async getDeletedIssue(id: string): Promise<Issue | undefined> {
+    const result = await this.db
+      .select()
+      .from(schema.issues)
+      .where(and(eq(schema.issues.id, id), isNotNull(schema.issues.deletedAt)))
+      .limit(1)
+
+    return result[0]
+  }
+
+  /**
+   * List soft-deleted issues, most recently deleted first
+   */
+  async listDeleted(options: DeletedQueryOptions = {}): Promise<Issue[]> {
+    const conditions = [isNotNull(schema.issues.deletedAt)]
+    if (options.olderThan) conditions.push(lt(schema.issues.deletedAt, new Date(options.olderThan).toISOString()))
+
+    const query = this.db
+      .select()
+      .from(schema.issues)
+      .where(and(...conditions))
+      .orderBy(desc(schema.issues.deletedAt), asc(schema.issues.id))
+
+    return options.limit ? query.limit(options.limit) : query
+  }
+
+  /**
+   * Undo a soft delete, restoring the issue type it had when deleted.
+   *
+   * @throws NotFoundError if there is no deleted issue with this ID
+   */
+  async restoreIssue(id: string, mutation?: MutationOptions): Promise<Issue> {
+    const actor = this.resolveActor(mutation)
+
+    return this.mutate('restoreIssue', id, {}, actor, async () => {
+      const existing = await this.getDeletedIssue(id)
+      if (!existing) throw new NotFoundError('deleted issue', id)
+
+      const now = this.now()
+
+      await this.db.update(schema.issues).set({
+        issueType: (existing.originalType as IssueTypeValue) || existing.issueType,
+        deletedAt: null,
+        deletedBy: '',
+        deleteReason: '',
+        originalType: '',
+        updatedAt: now,
+      }).where(eq(schema.issues.id, id))
+
+      await this.db.insert(schema.events).values({
+        issueId: id,
+        eventType: 'restored',
+        actor,
+        comment: mutation?.comment,
+        createdAt: now,
+      })
+
+      await this.markDirty(id)
+      await this.refreshBlockedCache([id])
+
+      return this.requireIssue(id)
+    })
+  }
+
+  /**
+   * Permanently remove soft-deleted issues with their labels, comments,
+   * events, snapshots and dependencies in both directions. Issues that
+   * depended on a purged issue are marked dirty, since their dependency
+   * lists change.
+   *
+   * Returns the IDs of the purged issues.
+   */
+  async purgeDeleted(options: PurgeOptions = {}): Promise<string[]> {
+    return this.mutate('purgeDeleted', undefined, { ...options }, this.resolveActor(), async () => {
+      const ids = (await this.listDeleted({ olderThan: options.olderThan })).map((issue) => issue.id)
+      if (options.dryRun || ids.length === 0) return ids
+
+      for (let i = 0; i < ids.length; i += 500) {
+        const chunk = ids.slice(i, i + 500)
+
+        const dependents = await this.db
+          .selectDistinct({ id: schema.dependencies.issueId })
+          .from(schema.dependencies)
+          .where(and(
+            inArray(schema.dependencies.dependsOnId, chunk),
+            notInArray(schema.dependencies.issueId, chunk)
+          ))
+
+        await this.db.delete(schema.dependencies).where(or(
+          inArray(schema.dependencies.issueId, chunk),
+          inArray(schema.dependencies.dependsOnId, chunk)
+        ))
+        await this.db.delete(schema.labels).where(inArray(schema.labels.issueId, chunk))
+        await this.db.delete(schema.comments).where(inArray(schema.comments.issueId, chunk))
+        await this.db.delete(schema.events).where(inArray(schema.events.issueId, chunk))
+        await this.db.delete(schema.issueSnapshots).where(inArray(schema.issueSnapshots.issueId, chunk))
+        await this.db.delete(schema.dirtyIssues).where(inArray(schema.dirtyIssues.issueId, chunk))
+        await this.db.delete(schema.exportHashes).where(inArray(schema.exportHashes.issueId, chunk))
+        await this.db.delete(schema.childCounters).where(inArray(schema.childCounters.parentId, chunk))
+        await this.db.delete(schema.blockedIssuesCache).where(inArray(schema.blockedIssuesCache.issueId, chunk))
+        await this.db.delete(schema.issueLeases).where(inArray(schema.issueLeases.issueId, chunk))
+        await this.db.delete(schema.issues).where(inArray(schema.issues.id, chunk))
+
+        for (const dependent of dependents) {
+          await this.markDirty(dependent.id)
+        }
+      }
+
+      return ids
+    })
+  }
+
+  // ===========================================================================
+  // Queries
+  // ===========================================================================
+
+  /**
+   * List issues with optional filters.
+   *
+   * Ties in the ordering are broken by ID, so pages read with `cursor` are
+   * stable while issues are added or edited.
+   *
+   * @throws ValidationError if the options are invalid
+   * @throws QuerySyntaxError if `query` or `cursor` can't be parsed
+   */
+  async listIssues(options: QueryOptions = {}): Promise<Issue[]> {
+    validateQueryOptions(options)
+    const orderBy = options.orderBy ?? 'createdAt'
+    const orderDir = options.orderDir ?? 'desc'
+    const orderCol = schema.issues[orderBy]
+    const order = orderDir === 'asc' ? asc : desc
+    const conditions = this.filterConditions(options)
+
+    if (options.cursor) {
+      const cursor = decodeCursor(options.cursor)
+      if (cursor.orderBy !== orderBy || cursor.orderDir !== orderDir) {
+        throw new QuerySyntaxError(`Cursor was made for ordering by ${cursor.orderBy} ${cursor.orderDir}`)
+      }
+
+      const after = orderDir === 'asc' ? gt : lt
+      conditions.push(or(
+        after(orderCol, cursor.value),
+        and(eq(orderCol, cursor.value), after(schema.issues.id, cursor.id))
+      )!)
+    }
+
+    const query = this.db
+      .select()
+      .from(schema.issues)
+      .where(and(...conditions))
+      .orderBy(order(orderCol), order(schema.issues.id))
+      .$dynamic()
+
+    return options.limit ? query.limit(options.limit) : query
+  }
+
+  /**
+   * List one page of issues, with a cursor for the next page
+   */
+  async listIssuesPage(options: QueryOptions = {}): Promise<IssuePage> {
+    const limit = options.limit ?? 50
+    const rows = await this.listIssues({ ...options, limit: limit + 1 })
+    const issues = rows.slice(0, limit)
+
+    if (rows.length <= limit) return { issues }
+
+    const orderBy = options.orderBy ?? 'createdAt'
+    const last = issues[issues.length - 1]
+    return {
+      issues,
+      nextCursor: encodeCursor({ orderBy, orderDir: options.orderDir ?? 'desc', value: last[orderBy], id: last.id }),
+    }
+  }
+
+  /**
+   * Build filter conditions shared by list, ready, blocked and search queries
+   */
+  private filterConditions(options: IssueFilterOptions): SQL[] {
+    const conditions: SQL[] = [isNull(schema.issues.deletedAt)]
+    const nodes: QueryNode[] = []
+    const list = <T>(value: T | T[]) => (Array.isArray(value) ? value : [value])
+    const date = (value: Date | string) => (value instanceof Date ? value.toISOString() : value)
+
+    if (options.status) nodes.push(fieldNode('status', ':', list(options.status)))
+    if (options.priority !== undefined) nodes.push(fieldNode('priority', ':', list(options.priority)))
+    if (options.issueType) nodes.push(fieldNode('type', ':', list(options.issueType)))
+    if (options.assignee !== undefined) nodes.push(fieldNode('assignee', ':', [options.assignee]))
+    if (options.externalRef !== undefined) nodes.push(fieldNode('external', ':', [options.externalRef]))
+    if (options.sourceRepo) nodes.push(fieldNode('repo', ':', [options.sourceRepo]))
+    if (options.hasDependency) nodes.push(fieldNode('dep', ':', [options.hasDependency]))
+
+    if (options.labels?.length) {
+      nodes.push(options.labelMatch === 'any'
+        ? fieldNode('label', ':', options.labels)
+        : { kind: 'and', children: options.labels.map((label) => fieldNode('label', ':', [label])) })
+    }
+
+    if (options.excludeLabels?.length) {
+      nodes.push({ kind: 'not', child: fieldNode('label', ':', options.excludeLabels) })
+    }
+
+    if (options.text) nodes.push(fieldNode('text', ':', [options.text]))
+
+    const ranges = [
+      ['created', options.createdAfter, options.createdBefore],
+      ['updated', options.updatedAfter, options.updatedBefore],
+      ['closed', options.closedAfter, options.closedBefore],
+    ] as const
+
+    for (const [field, after, before] of ranges) {
+      if (after) nodes.push(fieldNode(field, '>=', [date(after)]))
+      if (before) nodes.push(fieldNode(field, '<', [date(before)]))
+    }
+
+    if (options.query) nodes.push(parseQuery(options.query))
+
+    if (nodes.length > 0) conditions.push(compileQuery({ kind: 'and', children: nodes }))
+
+    return conditions
+  }
+
+  /**
+   * Get ready issues: open, not deleted and not in the blocked cache.
+   *
+   * Ordered by priority, then age (oldest first).
+   */
+  async getReadyIssues(options: ReadyQueryOptions = {}): Promise<Issue[]> {
+    const query = this.db
+      .select()
+      .from(schema.issues)
+      .where(and(
+        ...this.filterConditions(options),
+        eq(schema.issues.status, 'open'),
+        notInArray(schema.issues.id, this.db.select().from(schema.blockedIssuesCache))
+      ))
+      .orderBy(asc(schema.issues.priority), asc(schema.issues.createdAt))
+
+    return options.limit ? query.limit(options.limit) : query
+  }
+
+  /**
+   * Get blocked issues, with the number of open issues directly blocking each.
+   *
+   * Issues blocked only through a blocked parent have `blockedByCount` 0.
+   */
+  async getBlockedIssues(options: ReadyQueryOptions = {}): Promise<Array<Issue & { blockedByCount: number }>> {
+    const query = this.db
+      .select({
+        issue: schema.issues,
+        blockedByCount: sql<number>`(
+          select count(*) from dependencies d
+          inner join issues blocker on blocker.id = d.depends_on_id
+          where d.issue_id = ${schema.issues.id} and d.type = 'blocks'
+            and blocker.status != 'closed' and blocker.deleted_at is null
+        )`.as('blocked_by_count'),
+      })
+      .from(schema.issues)
+      .innerJoin(schema.blockedIssuesCache, eq(schema.blockedIssuesCache.issueId, schema.issues.id))
+      .where(and(...this.filterConditions(options)))
+      .orderBy(asc(schema.issues.priority), asc(schema.issues.createdAt))
+
+    const result = options.limit ? await query.limit(options.limit) : await query
+
+    return result.map((r) => ({ ...r.issue, blockedByCount: r.blockedByCount }))
+  }
+
+  /**
+   * Recompute the blocked issues cache.
+   *
+   * An issue is blocked when a `blocks` dependency points at an issue that
+   * isn't closed, or when its parent (via `parent-child`) is blocked,
+   * transitively. Deleted issues neither block nor pass on being blocked.
+   *
+   * Changes made through the adapter update the cache for the issues they
+   * affect; call this after writing to the database by other means.
+   */
+  async rebuildBlockedCache(): Promise<void> {
+    return this.transaction(async () => {
+      await this.db.delete(schema.blockedIssuesCache)
+      await this.db.run(sql`
+        insert into blocked_issues_cache (issue_id)
+        with recursive blocked(id) as (
+          select d.issue_id from dependencies d
+          inner join issues blocker on blocker.id = d.depends_on_id
+          where d.type = 'blocks' and blocker.status != 'closed' and blocker.deleted_at is null
+          union
+          select d.issue_id from dependencies d
+          inner join blocked on d.depends_on_id = blocked.id
+          inner join issues parent on parent.id = blocked.id
+          where d.type = 'parent-child' and parent.deleted_at is null
+        )
+        select blocked.id from blocked
+        inner join issues i on i.id = blocked.id
+        where i.status != 'closed' and i.deleted_at is null
+      `)
+    })
+  }
+
+  /**
+   * Update the blocked issues cache after a change to the status, deletion
+   * or dependencies of some issues.
+   *
+   * The change can only unblock or block the issues themselves, the issues
+   * they directly block, and the `parent-child` descendants of both. Only
+   * those are recomputed, walking up to their ancestors for inherited
+   * blocks, so the cost follows the size of that subgraph rather than the
+   * database.
+   */
+  private async refreshBlockedCache(issueIds: string[]): Promise<void> {
+    if (issueIds.length === 0) return
+    const changed = JSON.stringify([...new Set(issueIds)])
+
+    const affected = await this.db.all<{ id: string }>(sql`
+      with recursive
+        start(id) as (
+          select value from json_each(${changed})
+          union
+          select d.issue_id from dependencies d
+          inner join json_each(${changed}) c on d.depends_on_id = c.value
+          where d.type = 'blocks'
+        ),
+        affected(id) as (
+          select id from start
+          union
+          select d.issue_id from dependencies d
+          inner join affected on d.depends_on_id = affected.id
+          where d.type = 'parent-child'
+        )
+      select id from affected
+    `)
+    const ids = JSON.stringify(affected.map((a) => a.id))
+
+    await this.db.run(sql`delete from blocked_issues_cache where issue_id in (select value from json_each(${ids}))`)
+    await this.db.run(sql`
+      insert into blocked_issues_cache (issue_id)
+      with recursive
+        affected(id) as (select value from json_each(${ids})),
+        scope(id) as (
+          select id from affected
+          union
+          select d.depends_on_id from dependencies d
+          inner join scope on d.issue_id = scope.id
+          where d.type = 'parent-child'
+        ),
+        blocked(id) as (
+          select d.issue_id from dependencies d
+          inner join scope on scope.id = d.issue_id
+          inner join issues blocker on blocker.id = d.depends_on_id
+          where d.type = 'blocks' and blocker.status != 'closed' and blocker.deleted_at is null
+          union
+          select d.issue_id from dependencies d
+          inner join blocked on d.depends_on_id = blocked.id
+          inner join scope on scope.id = d.issue_id
+          inner join issues parent on parent.id = blocked.id
+          where d.type = 'parent-child' and parent.deleted_at is null
+        )
+      select blocked.id from blocked
+      inner join affected on affected.id = blocked.id
+      inner join issues i on i.id = blocked.id
+      where i.status != 'closed' and i.deleted_at is null
+    `)
+  }
+
+  // ===========================================================================
+  // Search
+  // ===========================================================================
+
+  /**
+   * Whether the database has the FTS5 search index
+   */
+  private hasSearchIndex(): boolean {
+    return this.sqlite.prepare(`SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = 'issues_fts'`).get() !== undefined
+  }
+
+  /**
+   * (Re)create the FTS5 search index and its sync triggers, then index
+   * every issue and comment.
+   *
+   * The triggers run on every write to `issues` and `comments`, whoever
+   * makes it, and fail in a SQLite built without FTS5: once the index
+   * exists, a `bd` binary without FTS5 can no longer write to the
+   * database. Remove it again with `dropSearchIndex`.
+   */
+  async rebuildSearchIndex(): Promise<void> {
+    return this.transaction(async () => {
+      for (const statement of searchIndexStatements()) {
+        this.sqlite.exec(statement)
+      }
+    })
+  }
+
+  /**
+   * Remove the FTS5 search index and its triggers; search falls back to
+   * substring matching
+   */
+  async dropSearchIndex(): Promise<void> {
+    return this.transaction(async () => {
+      for (const statement of dropSearchIndexStatements()) {
+        this.sqlite.exec(statement)
+      }
+    })
+  }
+
+  /**
+   * Full-text search over titles, descriptions, design, acceptance criteria,
+   * notes and comments.
+   *
+   * With the search index, results are ranked by bm25 with title matches
+   * weighted highest. Without it, issues are matched by substring (comments
+   * are not searched) and ranked by the weights of the fields each term
+   * appears in. The same filters as `listIssues` apply; soft-deleted issues
+   * are never returned.
+   *
+   * @throws QuerySyntaxError if a `raw` query isn't valid FTS5 syntax, or
+   *   `cursor` can't be parsed
+   * @throws ValidationError for a `raw` query without the search index
+   */
+  async searchIssues(query: string, options: SearchOptions = {}): Promise<SearchResult[]> {
+    if (!this.hasSearchIndex()) return this.searchIssuesBySubstring(query, options)
+
+    const match = options.raw ? query : toFtsQuery(query, options.match)
+    if (!match.trim()) return []
+
+    const [open, close] = options.highlight ?? ['**', '**']
+    const weights = sql.raw(SEARCH_COLUMNS.map((c) => c.weight.toFixed(1)).join(', '))
+    const cursor = this.searchCursor(options.cursor)
+
+    let rows: Array<{ id: string; rank: number; snippet: string }>
+    try {
+      rows = await this.db.all(sql`
+        select id, rank, snippet from (
+          select issues.id as id,
+            bm25(issues_fts, ${weights}) as rank,
+            snippet(issues_fts, -1, ${open}, ${close}, '…', 16) as snippet
+          from issues_fts
+          inner join issues_fts_ids on issues_fts_ids.id = issues_fts.rowid
+          inner join issues on issues.id = issues_fts_ids.issue_id
+          where issues_fts match ${match} and ${and(...this.filterConditions(options))}
+        )
+        where ${cursor ? sql`rank > ${cursor.value} or (rank = ${cursor.value} and id > ${cursor.id})` : sql`1 = 1`}
+        order by rank, id
+        limit ${options.limit ?? 20}
+      `)
+    } catch (err) {
+      // Only a raw query can be malformed; FTS5 reports it as a plain SQL error
+      if (options.raw && err instanceof Database.SqliteError && err.code === 'SQLITE_ERROR') {
+        throw new QuerySyntaxError(`Invalid search query: ${err.message}`)
+      }
+      throw err
+    }
+
+    const issues = await this.loadIssues(rows.map((r) => r.id))
+
+    return rows
+      .filter((r) => issues.has(r.id))
+      .map((r) => ({ issue: issues.get(r.id)!, rank: r.rank, snippet: r.snippet }))
+  }
+
+  /**
+   * Search one page of results, with a cursor for the next page
+   */
+  async searchIssuesPage(query: string, options: SearchOptions = {}): Promise<SearchPage> {
+    const limit = options.limit ?? 20
+    const rows = await this.searchIssues(query, { ...options, limit: limit + 1 })
+    const results = rows.slice(0, limit)
+
+    if (rows.length <= limit) return { results }
+
+    const last = results[results.length - 1]
+    return {
+      results,
+      nextCursor: encodeCursor({ orderBy: 'rank', orderDir: 'asc', value: last.rank, id: last.issue.id }),
+    }
+  }
+
+  /**
+   * Decode the cursor of a search page
+   *
+   * @throws QuerySyntaxError if it is malformed or was made for a listing
+   */
+  private searchCursor(text: string | undefined): { value: number; id: string } | undefined {
+    if (!text) return undefined
+
+    const cursor = decodeCursor(text)
+    if (cursor.orderBy !== 'rank' || typeof cursor.value !== 'number') {
+      throw new QuerySyntaxError('Cursor was not made for search results')
+    }
+    return { value: cursor.value, id: cursor.id }
+  }
+
+  /**
+   * Search without the FTS5 index: every term (or any, with `match: 'any'`)
+   * is a substring of the issue's text
+   */
+  private async searchIssuesBySubstring(query: string, options: SearchOptions): Promise<SearchResult[]> {
+    if (options.raw) {
+      throw new ValidationError(
+        [{ path: 'raw', message: 'needs the full-text search index' }],
+        'Raw search queries need the full-text search index; create it with rebuildSearchIndex()'
+      )
+    }
+
+    const terms = searchTerms(query)
+    if (terms.length === 0) return []
+
+    const termNodes = terms.map((term) => fieldNode('text', ':', [term]))
+    const matched = compileQuery({ kind: options.match === 'any' ? 'or' : 'and', children: termNodes })
+
+    const columns = SEARCH_COLUMNS.filter((c) => c.column !== 'comments')
+    const hits = terms.flatMap((term) => columns.map(({ column, weight }) =>
+      sql`${weight} * (instr(lower(${sql.identifier(column)}), lower(${term})) > 0)`))
+    const rank = sql<number>`-(${sql.join(hits, sql` + `)})`
+    const cursor = this.searchCursor(options.cursor)
+    const after = cursor
+      ? sql`(${rank} > ${cursor.value} or (${rank} = ${cursor.value} and ${schema.issues.id} > ${cursor.id}))`
+      : undefined
+
+    const rows = await this.db
+      .select({ issue: schema.issues, rank: rank.as('rank') })
+      .from(schema.issues)
+      .where(and(matched, after, ...this.filterConditions(options)))
+      .orderBy(sql`rank`, asc(schema.issues.id))
+      .limit(options.limit ?? 20)
+
+    const highlight = options.highlight ?? ['**', '**']
+    return rows.map(({ issue, rank }) => {
+      const field = [issue.title, issue.description, issue.design, issue.acceptanceCriteria, issue.notes]
+        .find((text) => terms.some((term) => text.toLowerCase().includes(term.toLowerCase()))) ?? issue.title
+      return { issue, rank, snippet: highlightTerms(field, terms, highlight) }
+    })
+  }
+
+  // ===========================================================================
+  // Dependencies
+  // ===========================================================================
+
+  /**
+   * Add a dependency between issues.
+   *
+   * Self-dependencies are rejected, as are `blocks` and `parent-child` edges
+   * that would close a cycle through edges of either type: both keep
+   * issues out of ready work, so such a cycle would block its issues for
+   * good.
+   *
+   * @throws NotFoundError if either issue doesn't exist
+   * @throws ValidationError for an unknown dependency type
+   * @throws ConflictError if the issues are already linked
+   * @throws DependencyCycleError with the offending cycle path
+   */
+  async addDependency(
+    fromId: string,
+    toId: string,
+    type: DependencyTypeValue = 'blocks',
+    mutation?: MutationOptions
+  ): Promise<Dependency> {
+    const actor = this.resolveActor(mutation)
+
+    return this.mutate('addDependency', fromId, { toId, type }, actor, async () => {
+      const types: string[] = Object.values(schema.DependencyType)
+      if (!types.includes(type)) {
+        throw new ValidationError([{ path: 'type', message: `expected one of ${types.join(', ')}, got "${type}"` }])
+      }
+
+      await this.requireIssue(fromId)
+      await this.requireIssue(toId)
+
+      if (fromId === toId) {
+        throw new DependencyCycleError([fromId, toId])
+      }
+
+      const [existing] = await this.db
+        .select()
+        .from(schema.dependencies)
+        .where(and(eq(schema.dependencies.issueId, fromId), eq(schema.dependencies.dependsOnId, toId)))
+      if (existing) {
+        throw new ConflictError(`${fromId} already depends on ${toId} (${existing.type})`)
+      }
+
+      if (type === 'blocks' || type === 'parent-child') {
+        const edges = await this.collectEdges(toId, 'down', ['blocks', 'parent-child'])
+        const path = findPath(edges, toId, fromId)
+        if (path) throw new DependencyCycleError([fromId, ...path])
+      }
+
+      const now = this.now()
+
+      const dep: NewDependency = {
+        issueId: fromId,
+        dependsOnId: toId,
+        type,
+        createdAt: now,
+        createdBy: actor,
+      }
+
+      await this.db.insert(schema.dependencies).values(dep)
+
+      await this.db.insert(schema.events).values({
+        issueId: fromId,
+        eventType: 'dependency_added',
+        actor,
+        newValue: `${type}:${toId}`,
+        comment: mutation?.comment,
+        createdAt: now,
+      })
+
+      await this.markDirty(fromId)
+      await this.refreshBlockedCache([fromId])
+
+      return dep as Dependency
+    })
+  }
+
+  /**
+   * Remove a dependency.
+   *
+   * Returns false if there was none.
+   */
+  async removeDependency(fromId: string, toId: string, mutation?: MutationOptions): Promise<boolean> {
+    const actor = this.resolveActor(mutation)
+
+    return this.mutate('removeDependency', fromId, { toId }, actor, async () => {
+      const removed = await this.db
+        .delete(schema.dependencies)
+        .where(and(
+          eq(schema.dependencies.issueId, fromId),
+          eq(schema.dependencies.dependsOnId, toId)
+        ))
+        .returning()
+
+      if (removed.length === 0) return false
+
+      await this.db.insert(schema.events).values({
+        issueId: fromId,
+        eventType: 'dependency_removed',
+        actor,
+        oldValue: `${removed[0].type}:${toId}`,
+        comment: mutation?.comment,
+        createdAt: this.now(),
+      })
+
+      await this.markDirty(fromId)
+      await this.refreshBlockedCache([fromId])
+
+      return true
+    })
+  }
+
+  /**
+   * Get dependencies for an issue
+   */
+  async getDependencies(issueId: string): Promise<Dependency[]> {
+    return this.db
+      .select()
+      .from(schema.dependencies)
+      .where(eq(schema.dependencies.issueId, issueId))
+  }
+
+  /**
+   * Get dependents (issues that depend on this one)
+   */
+  async getDependents(issueId: string): Promise<Dependency[]> {
+    return this.db
+      .select()
+      .from(schema.dependencies)
+      .where(eq(schema.dependencies.dependsOnId, issueId))
+  }
+
+  // ===========================================================================
+  // Dependency Graph
+  // ===========================================================================
+
+  /**
+   * Collect the edges reachable from an issue, breadth-first
+   */
+  private async collectEdges(
+    startId: string,
+    direction: GraphDirection,
+    types?: DependencyTypeValue[],
+    maxDepth = Infinity
+  ): Promise<Dependency[]> {
+    const column = direction === 'down' ? schema.dependencies.issueId : schema.dependencies.dependsOnId
+    const visited = new Set([startId])
+    const edges: Dependency[] = []
+    let frontier = [startId]
+
+    for (let depth = 0; frontier.length > 0 && depth < maxDepth; depth++) {
+      const next: string[] = []
+
+      for (let i = 0; i < frontier.length; i += 500) {
+        const conditions = [inArray(column, frontier.slice(i, i + 500))]
+        if (types) conditions.push(inArray(schema.dependencies.type, types))
+
+        const rows = await this.db.select().from(schema.dependencies).where(and(...conditions))
+
+        for (const row of rows) {
+          edges.push(row)
+          const target = edgeTarget(row, direction)
+          if (!visited.has(target)) {
+            visited.add(target)
+            next.push(target)
+          }
+        }
+      }
+
+      frontier = next
+    }
+
+    return edges
+  }
+
+  /**
+   * Load non-deleted issues by ID
+   */
+  private async loadIssues(ids: Iterable<string>): Promise<Map<string, Issue>> {
+    const all = [...new Set(ids)]
+    const issues = new Map<string, Issue>()
+
+    for (let i = 0; i < all.length; i += 500) {
+      const rows = await this.db
+        .select()
+        .from(schema.issues)
+        .where(and(inArray(schema.issues.id, all.slice(i, i + 500)), isNull(schema.issues.deletedAt)))
+
+      for (const row of rows) issues.set(row.id, row)
+    }
+
+    return issues
+  }
+
+  /**
+   * Walk the graph from an issue, returning reachable issues nearest first
+   */
+  private async walkTransitive(
+    id: string,
+    direction: GraphDirection,
+    options: TransitiveQueryOptions
+  ): Promise<Issue[]> {
+    const edges = await this.collectEdges(id, direction, options.types ?? ['blocks'], options.maxDepth)
+    const issues = await this.loadIssues(edges.map((e) => edgeTarget(e, direction)))
+
+    const outgoing = new Map<string, string[]>()
+    for (const edge of edges) {
+      const from = direction === 'down' ? edge.issueId : edge.dependsOnId
+      const list = outgoing.get(from) ?? []
+      list.push(edgeTarget(edge, direction))
+      outgoing.set(from, list)
+    }
+
+    // Re-walk in memory so closed and deleted issues cut off their branch
+    const result: Issue[] = []
+    const visited = new Set([id])
+    let frontier = [id]
+
+    while (frontier.length > 0) {
+      const next: Issue[] = []
+      for (const current of frontier) {
+        for (const targetId of outgoing.get(current) ?? []) {
+          if (visited.has(targetId)) continue
+          visited.add(targetId)
+
+          const issue = issues.get(targetId)
+          if (!issue || (!options.includeClosed && issue.status === 'closed')) continue
+          next.push(issue)
+        }
+      }
+
+      next.sort((a, b) => a.priority - b.priority || a.id.localeCompare(b.id))
+      result.push(...next)
+      frontier = next.map((i) => i.id)
+    }
+
+    return result
+  }
+
+  /**
+   * Get every issue that transitively blocks this one, nearest first.
+   *
+   * Closed blockers no longer block, so by default they and anything behind
+   * them are left out.
+   */
+  async getTransitiveBlockers(id: string, options: TransitiveQueryOptions = {}): Promise<Issue[]> {
+    return this.walkTransitive(id, 'down', options)
+  }
+
+  /**
+   * Get every issue this one transitively blocks, nearest first, i.e. what
+   * finishing it would (eventually) unblock
+   */
+  async getTransitiveDependents(id: string, options: TransitiveQueryOptions = {}): Promise<Issue[]> {
+    return this.walkTransitive(id, 'up', options)
+  }
+
+  /**
+   * Get open work (everything not closed) in dependency order: each issue
+   * appears after the issues blocking it, ties broken by priority
+   */
+  async getTopologicalOrder(): Promise<Issue[]> {
+    const openIssues = await this.db
+      .select()
+      .from(schema.issues)
+      .where(and(
+        inArray(schema.issues.status, ['open', 'in_progress', 'blocked']),
+        isNull(schema.issues.deletedAt)
+      ))
+
+    const edges = await this.db
+      .select()
+      .from(schema.dependencies)
+      .where(eq(schema.dependencies.type, 'blocks'))
+
+    return topologicalSort(openIssues, edges)
+  }
+
+  /**
+   * Get the dependency tree rooted at an issue.
+   *
+   * Issues reachable by several paths are expanded once; later appearances
+   * are marked `repeated`.
+   */
+  async getDependencyTree(id: string, options: DependencyTreeOptions = {}): Promise<DependencyTreeNode | undefined> {
+    const direction = options.direction ?? 'down'
+    const edges = await this.collectEdges(id, direction, options.types, options.maxDepth ?? 10)
+    const issues = await this.loadIssues([id, ...edges.map((e) => edgeTarget(e, direction))])
+
+    return buildDependencyTree(id, edges, issues, options)
+  }
+
+  // ===========================================================================
+  // Hierarchy
+  // ===========================================================================
+
+  /**
+   * Get an issue's children (via `parent-child`), ordered by priority then ID
+   */
+  async listChildren(id: string, options: ListChildrenOptions = {}): Promise<Issue[]> {
+    return this.walkTransitive(id, 'up', {
+      types: ['parent-child'],
+      includeClosed: options.includeClosed ?? true,
+      maxDepth: options.recursive ? undefined : 1,
+    })
+  }
+
+  /**
+   * Get an issue's parent, its parent's parent and so on, nearest first
+   */
+  async getAncestors(id: string): Promise<Issue[]> {
+    return this.walkTransitive(id, 'down', { types: ['parent-child'], includeClosed: true })
+  }
+
+  /**
+   * Roll up completion below an issue: descendants by status, estimates
+   * and percent complete, for it and each child in turn
+   *
+   * @throws NotFoundError if the issue doesn't exist
+   */
+  async getEpicProgress(id: string): Promise<EpicProgress> {
+    const issue = await this.requireIssue(id)
+    const edges = await this.collectEdges(id, 'up', ['parent-child'])
+    const issues = await this.loadIssues(edges.map((e) => e.issueId))
+
+    return rollupProgress(issue, edges, issues)
+  }
+
+  /**
+   * Apply the `autoCloseParents` and `autoReopenParents` settings after an
+   * issue moved from one status to another. Changes cascade up; a parent
+   * the workflow won't move is left as it is.
+   */
+  private async updateParents(id: string, from: string, to: string, actor: string): Promise<void> {
+    const closing = to === 'closed'
+    if (!closing && from !== 'closed') return
+
+    const settings = await this.getSettings()
+    if (closing ? !settings.autoCloseParents : !settings.autoReopenParents) return
+
+    const parents = await this.walkTransitive(id, 'down', { types: ['parent-child'], includeClosed: true, maxDepth: 1 })
+
+    for (const parent of parents) {
+      try {
+        if (closing && parent.status !== 'closed') {
+          const open = await this.listChildren(parent.id, { includeClosed: false })
+          if (open.length === 0) await this.closeIssue(parent.id, 'All children closed', { actor })
+        } else if (!closing && parent.status === 'closed') {
+          await this.reopenIssue(parent.id, { actor, comment: `Child ${id} reopened` })
+        }
+      } catch (err) {
+        if (!(err instanceof InvalidTransitionError)) throw err
+      }
+    }
+  }
+
+  // ===========================================================================
+  // Labels
+  // ===========================================================================
+
+  /**
+   * Add a label to an issue
+   *
+   * @throws NotFoundError if the issue doesn't exist
+   */
+  async addLabel(issueId: string, label: string, mutation?: MutationOptions): Promise<void> {
+    const actor = this.resolveActor(mutation)
+
+    return this.mutate('addLabel', issueId, { label }, actor, async () => {
+      await this.requireIssue(issueId)
+
+      const added = await this.db.insert(schema.labels).values({ issueId, label }).onConflictDoNothing().returning()
+      if (added.length === 0) return
+
+      await this.db.insert(schema.events).values({
+        issueId,
+        eventType: 'label_added',
+        actor,
+        newValue: label,
+        comment: mutation?.comment,
+        createdAt: this.now(),
+      })
+
+      await this.markDirty(issueId)
+    })
+  }
+
+  /**
+   * Remove a label from an issue
+   *
+   * @throws NotFoundError if the issue doesn't exist
+   */
+  async removeLabel(issueId: string, label: string, mutation?: MutationOptions): Promise<void> {
+    const actor = this.resolveActor(mutation)
+
+    return this.mutate('removeLabel', issueId, { label }, actor, async () => {
+      await this.requireIssue(issueId)
+
+      const removed = await this.db
+        .delete(schema.labels)
+        .where(and(eq(schema.labels.issueId, issueId), eq(schema.labels.label, label)))
+        .returning()
+      if (removed.length === 0) return
+
+      await this.db.insert(schema.events).values({
+        issueId,
+        eventType: 'label_removed',
+        actor,
+        oldValue: label,
+        comment: mutation?.comment,
+        createdAt: this.now(),
+      })
+
+      await this.markDirty(issueId)
+    })
+  }
+
+  /**
+   * Get labels for an issue
+   */
+  async getLabels(issueId: string): Promise<string[]> {
+    const result = await this.db
+      .select()
+      .from(schema.labels)
+      .where(eq(schema.labels.issueId, issueId))
+
+    return result.map((l) => l.label)
+  }
+
+  // ===========================================================================
+  // Comments
+  // ===========================================================================
+
+  /**
+   * Add a comment to an issue, authored by the adapter's actor unless given
+   *
+   * @throws NotFoundError if the issue doesn't exist
+   * @throws ValidationError if the text is blank
+   */
+  async addComment(issueId: string, text: string, author: string = this.actor): Promise<Comment> {
+    if (!text.trim()) throw new ValidationError([{ path: 'text', message: 'must not be blank' }])
+
+    return this.mutate('addComment', issueId, { text, author }, author, async () => {
+      await this.requireIssue(issueId)
+      const now = this.now()
+
+      const result = await this.db.insert(schema.comments).values({
+        issueId,
+        text,
+        author,
+        createdAt: now,
+      }).returning()
+
+      await this.db.insert(schema.events).values({
+        issueId,
+        eventType: 'commented',
+        actor: author,
+        comment: text,
+        createdAt: now,
+      })
+
+      await this.markDirty(issueId)
+
+      return result[0]
+    })
+  }
+
+  /**
+   * Get comments for an issue
+   */
+  async getComments(issueId: string): Promise<Comment[]> {
+    return this.db
+      .select()
+      .from(schema.comments)
+      .where(eq(schema.comments.issueId, issueId))
+      .orderBy(asc(schema.comments.createdAt))
+  }
+
+  // ===========================================================================
+  // History
+  // ===========================================================================
+
+  /**
+   * Get the events of an issue, oldest first
+   */
+  async getHistory(id: string, options: HistoryOptions = {}): Promise<Event[]> {
+    const conditions = [eq(schema.events.issueId, id)]
+    if (options.since) conditions.push(gt(schema.events.createdAt, options.since))
+    if (options.until) conditions.push(lte(schema.events.createdAt, options.until))
+
+    return this.db
+      .select()
+      .from(schema.events)
+      .where(and(...conditions))
+      .orderBy(asc(schema.events.id))
+  }
+
+  /**
+   * Rebuild an issue as it was at a point in time by undoing the events
+   * recorded since. Works for deleted issues too; returns undefined if the
+   * issue did not exist yet.
+   */
+  async getIssueAt(id: string, timestamp: string | Date): Promise<IssueState | undefined> {
+    const at = new Date(timestamp).toISOString()
+
+    const [current] = await this.db.select().from(schema.issues).where(eq(schema.issues.id, id)).limit(1)
+    if (!current || current.createdAt > at) return undefined
+
+    const events = await this.getHistory(id)
+    const later = events.filter((e) => e.createdAt > at)
+
+    const snapshots = new Map<number, SnapshotContent>()
+    if (later.some((e) => e.eventType === 'compacted')) {
+      for (const snapshot of await this.getSnapshots(id)) {
+        snapshots.set(snapshot.compactionLevel, snapshot.content)
+      }
+    }
+
+    const state = rewindIssue({ ...current, labels: await this.getLabels(id) }, later, snapshots)
+    return applyTimestamps(state, events.filter((e) => e.createdAt <= at), at)
+  }
+
+  /**
+   * List the fields of an issue that changed between two points in time
+   * (`to` defaults to now)
+   */
+  async diffIssue(id: string, from: string | Date, to: string | Date = new Date()): Promise<IssueFieldChange[]> {
+    const before = await this.getIssueAt(id, from)
+    const after = await this.getIssueAt(id, to)
+    return diffStates(before, after)
+  }
+
+  /**
+   * Apply the inverse of an event as a new change, recorded with the comment
+   * `revert #<eventId>`.
+   *
+   * Field edits, close/reopen, labels and dependencies can be reverted.
+   *
+   * @throws ConflictError if the issue changed since the event, unless `force` is set
+   */
+  async revertEvent(eventId: number, options: RevertOptions = {}): Promise<RevertResult> {
+    const mutation: MutationOptions = { actor: this.resolveActor(options), comment: revertComment(eventId) }
+
+    return this.transaction(async () => {
+      const [event] = await this.db.select().from(schema.events).where(eq(schema.events.id, eventId)).limit(1)
+      if (!event) {
+        throw new NotFoundError('event', `#${eventId}`)
+      }
+
+      if (!REVERTIBLE_EVENT_TYPES.includes(event.eventType)) {
+        throw new ValidationError(
+          [{ path: 'eventId', message: `${event.eventType} events cannot be reverted` }],
+          `Event #${eventId} (${event.eventType}) cannot be reverted`
+        )
+      }
+
+      const issue = await this.requireIssue(event.issueId)
+
+      const check = (applies: boolean, detail: string): boolean => {
+        if (!applies && !options.force) {
+          throw new ConflictError(`Cannot revert event #${eventId}: ${detail}`)
+        }
+        return applies
+      }
+
+      const field = changedField(event.eventType)
+      if (field) {
+        check(formatFieldValue(issue[field]) === (event.newValue ?? ''), `${field} has changed since`)
+        const update = { [field]: parseFieldValue(field, event.oldValue) } as UpdateIssueOptions
+        await this.updateIssue(issue.id, update, mutation)
+      }
+
+      switch (event.eventType) {
+        case 'closed': {
+          check(issue.status === 'closed', 'issue is no longer closed')
+          await this.reopenIssue(issue.id, mutation)
+          if (event.oldValue && event.oldValue !== 'open') {
+            await this.updateIssue(issue.id, { status: event.oldValue as IssueStatusValue }, mutation)
+          }
+          break
+        }
+        case 'reopened': {
+          if (check(issue.status !== 'closed', 'issue is closed again')) {
+            const lastClose = (await this.getHistory(issue.id))
+              .filter((e) => e.id < eventId && e.eventType === 'closed' && revertedEventId(e) === undefined)
+              .pop()
+            await this.closeIssue(issue.id, lastClose?.comment ?? issue.closeReason ?? undefined, mutation)
+          }
+          break
+        }
+        case 'label_added':
+        case 'label_removed': {
+          const label = (event.newValue ?? event.oldValue)!
+          const present = (await this.getLabels(issue.id)).includes(label)
+          if (event.eventType === 'label_added' && check(present, `label ${label} was removed since`)) {
+            await this.removeLabel(issue.id, label, mutation)
+          } else if (event.eventType === 'label_removed' && check(!present, `label ${label} was added back since`)) {
+            await this.addLabel(issue.id, label, mutation)
+          }
+          break
+        }
+        case 'dependency_added':
+        case 'dependency_removed': {
+          const { type, dependsOnId } = parseDependencyValue((event.newValue ?? event.oldValue)!)
+          const present = (await this.getDependencies(issue.id)).some((d) => d.dependsOnId === dependsOnId)
+          if (event.eventType === 'dependency_added' && check(present, `dependency on ${dependsOnId} was removed since`)) {
+            await this.removeDependency(issue.id, dependsOnId, mutation)
+          } else if (event.eventType === 'dependency_removed' && check(!present, `dependency on ${dependsOnId} was added back since`)) {
+            await this.addDependency(issue.id, dependsOnId, type, mutation)
+          }
+          break
+        }
+      }
+
+      return { event, issue: (await this.getIssue(issue.id))! }
+    })
+  }
+
+  /**
+   * Revert the most recent change to an issue that has not been reverted
+   * yet. Returns undefined when there is nothing left to undo.
+   */
+  async undoLast(id: string, options: RevertOptions = {}): Promise<RevertResult | undefined> {
+    return this.transaction(async () => {
+      const history = await this.getHistory(id)
+      const reverted = new Set(history.map((e) => revertedEventId(e)))
+
+      const last = history
+        .reverse()
+        .find((e) => REVERTIBLE_EVENT_TYPES.includes(e.eventType) && revertedEventId(e) === undefined && !reverted.has(e.id))
+
+      return last ? this.revertEvent(last.id, options) : undefined
+    })
+  }
+
+  // ===========================================================================
+  // Watch
+  // ===========================================================================
+
+  /**
+   * Wake up watchers after a commit on this connection
+   */
+  private notifyWrite(): void {
+    this.writes.count++
+    for (const listener of this.writes.listeners) listener()
+  }
+
+  /**
+   * Counters that change whenever anyone commits to the database
+   */
+  private writeVersion(): string {
+    return `${this.sqlite.pragma('data_version', { simple: true })}:${this.writes.count}`
+  }
+
+  /**
+   * Resolve once the write version differs from `version`, checking every
+   * `interval` ms for other processes and immediately for this connection.
+   * Resolves right away if `signal` has already aborted.
+   */
+  private waitForWrite(version: string, interval: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve) => {
+      let timer: ReturnType<typeof setTimeout> | undefined
+
+      const done = () => {
+        clearTimeout(timer)
+        this.writes.listeners.delete(done)
+        signal?.removeEventListener('abort', done)
+        resolve()
+      }
+
+      const poll = () => {
+        if (!this.sqlite.open || signal?.aborted || this.writeVersion() !== version) done()
+        else timer = setTimeout(poll, interval)
+      }
+
+      this.writes.listeners.add(done)
+      signal?.addEventListener('abort', done, { once: true })
+      poll()
+    })
+  }
+
+  /**
+   * Cursor for the latest change. Read it before loading state, then watch
+   * with `since` set to it to get every change made after the load.
+   */
+  async getCursor(): Promise<string> {
+    return this.readCommitted(() => this.latestEventId().then(String))
+  }
+
+  /**
+   * ID of the newest event, 0 if there are none
+   */
+  private async latestEventId(): Promise<number> {
+    const [row] = await this.db.select({ id: sql<number | null>`max(${schema.events.id})` }).from(schema.events)
+    return row?.id ?? 0
+  }
+
+  /**
+   * Watch the events table for changes, including those written by other
+   * processes such as the `bd` CLI.
+   *
+   * Other processes are detected by polling SQLite's `data_version`; commits
+   * through this adapter are reported right away. Each change carries a
+   * cursor to resume from later. The iterator ends when `signal` aborts or
+   * the adapter is closed.
+   *
+   * ```ts
+   * for await (const { event, cursor } of beads.watch({ since: saved, eventTypes: ['closed'] })) {
+   *   notify(`${event.issueId} closed by ${event.actor}`)
+   *   saved = cursor
+   * }
+   * ```
+   */
+  async *watch(options: WatchOptions = {}): AsyncGenerator<Change> {
+    const interval = options.interval ?? 250
+    let cursor = Number(options.since ?? (await this.getCursor()))
+
+    if (!Number.isInteger(cursor) || cursor < 0) {
+      throw new ValidationError([{ path: 'since', message: 'expected an event cursor' }], `Invalid watch cursor: ${options.since}`)
+    }
+
+    const filters: SQL[] = []
+    if (options.eventTypes) filters.push(inArray(schema.events.eventType, options.eventTypes))
+    if (options.issueIds) filters.push(inArray(schema.events.issueId, options.issueIds))
+
+    while (!options.signal?.aborted && this.sqlite.open) {
+      const version = this.writeVersion()
+      const head = await this.getCursor().then(Number)
+
+      while (cursor < head && !options.signal?.aborted && this.sqlite.open) {
+        // Read only committed events: a rolled-back transaction's event IDs
+        // are reused by the next one
+        const after = cursor
+        const events = await this.readCommitted(() => this.db
+          .select()
+          .from(schema.events)
+          .where(and(gt(schema.events.id, after), lte(schema.events.id, head), ...filters))
+          .orderBy(asc(schema.events.id))
+          .limit(500))
+
+        for (const event of events) {
+          cursor = event.id
+          yield { cursor: String(event.id), event }
+        }
+
+        if (events.length < 500) cursor = head
+      }
+
+      await this.waitForWrite(version, interval, options.signal)
+    }
+  }
+
+  // ===========================================================================
+  // JSONL Sync
+  // ===========================================================================
+
+  /**
+   * Mark an issue as needing JSONL export
+   */
+  private async markDirty(issueId: string): Promise<void> {
+    await this.db.insert(schema.dirtyIssues)
+      .values({ issueId, markedAt: this.now() })
+      .onConflictDoUpdate({ target: schema.dirtyIssues.issueId, set: { markedAt: this.now() } })
+  }
+
+  /**
+   * Default location of the JSONL file, next to the database
+   */
+  private defaultJsonlPath(): string {
+    return join(dirname(this.dbPath), 'issues.jsonl')
+  }
+
+  /**
+   * Build JSONL records for the given issues, including soft-deleted ones
+   */
+  private async loadJsonlRecords(ids: string[]): Promise<Map<string, { issue: Issue; record: JsonlIssue }>> {
+    const records = new Map<string, { issue: Issue; record: JsonlIssue }>()
+
+    // Stay well below SQLite's bound parameter limit
+    for (let i = 0; i < ids.length; i += 500) {
+      const chunk = ids.slice(i, i + 500)
+
+      const [issueRows, labelRows, depRows, commentRows] = await Promise.all([
+        this.db.select().from(schema.issues).where(inArray(schema.issues.id, chunk)),
+        this.db.select().from(schema.labels).where(inArray(schema.labels.issueId, chunk)),
+        this.db.select().from(schema.dependencies).where(inArray(schema.dependencies.issueId, chunk)),
+        this.db.select().from(schema.comments).where(inArray(schema.comments.issueId, chunk)),
+      ])
+
+      for (const issue of issueRows) {
+        const record = toJsonlIssue(
+          issue,
+          labelRows.filter((l) => l.issueId === issue.id).map((l) => l.label),
+          depRows.filter((d) => d.issueId === issue.id),
+          commentRows.filter((c) => c.issueId === issue.id)
+        )
+        records.set(issue.id, { issue, record })
+      }
+    }
+
+    return records
+  }
+
+  /**
+   * Export issues to the beads `issues.jsonl` format.
+   *
+   * Incremental by default: only issues marked dirty (or never exported) are
+   * re-serialized, and lines whose content hash matches the last export are
+   * left alone. Lines for issues this database doesn't know about are kept,
+   * so unimported changes from teammates are never dropped. A full export
+   * rewrites the file from the database alone.
+   *
+   * Deleted issues are written as tombstones. Tombstones of purged issues
+   * stay in the file until the next full export.
+   */
+  async exportJsonl(options: ExportJsonlOptions = {}): Promise<ExportJsonlResult> {
+    return this.transaction(async () => {
+      const path = options.path ?? this.defaultJsonlPath()
+      const full = options.full || !existsSync(path)
+
+      const lines = new Map<string, JsonlIssue>()
+      if (!full) {
+        for (const record of parseJsonl(readFileSync(path, 'utf8'))) {
+          lines.set(record.id, record)
+        }
+      }
+
+      const [issueIds, dirtyRows, hashRows] = await Promise.all([
+        this.db.select({ id: schema.issues.id }).from(schema.issues),
+        this.db.select().from(schema.dirtyIssues),
+        this.db.select().from(schema.exportHashes),
+      ])
+
+      const exportedHashes = new Map(hashRows.map((h) => [h.issueId, h.contentHash]))
+      const dirtyIds = new Set(dirtyRows.map((d) => d.issueId))
+
+      const candidates = full
+        ? issueIds.map((i) => i.id)
+        : issueIds.map((i) => i.id).filter((id) => dirtyIds.has(id) || !exportedHashes.has(id) || !lines.has(id))
+
+      const records = await this.loadJsonlRecords(candidates)
+      const now = this.now()
+      const written: Array<{ id: string; hash: string }> = []
+      let tombstones = 0
+      let unchanged = 0
+
+      for (const id of candidates) {
+        const entry = records.get(id)
+        if (!entry) continue
+
+        const hash = computeContentHash(entry.record)
+        if (!full && lines.has(id) && exportedHashes.get(id) === hash) {
+          unchanged++
+          continue
+        }
+
+        const { id: _id, ...fields } = entry.record
+        lines.set(id, { id, content_hash: hash, ...fields })
+        written.push({ id, hash })
+        if (entry.issue.deletedAt) tombstones++
+      }
+
+      mkdirSync(dirname(path), { recursive: true })
+      const tmpPath = `${path}.tmp`
+      writeFileSync(tmpPath, stringifyJsonl([...lines.values()]))
+      renameSync(tmpPath, path)
+
+      for (const { id, hash } of written) {
+        await this.db.insert(schema.exportHashes)
+          .values({ issueId: id, contentHash: hash, exportedAt: now })
+          .onConflictDoUpdate({ target: schema.exportHashes.issueId, set: { contentHash: hash, exportedAt: now } })
+        await this.db.update(schema.issues).set({ contentHash: hash }).where(eq(schema.issues.id, id))
+      }
+
+      if (candidates.length > 0) {
+        for (let i = 0; i < candidates.length; i += 500) {
+          await this.db.delete(schema.dirtyIssues)
+            .where(inArray(schema.dirtyIssues.issueId, candidates.slice(i, i + 500)))
+        }
+      }
+
+      return {
+        path,
+        exported: written.length,
+        unchanged,
+        tombstones,
+        total: lines.size,
+      }
+    })
+  }
+
+  /**
+   * Import issues from the beads `issues.jsonl` format.
+   *
+   * Idempotent: records whose content hash matches the local issue are
+   * skipped. An issue with unexported local changes that also differs in the
+   * file is a collision, resolved according to `onCollision` and reported.
+   * Tombstones delete the local issue; those for unknown issues are ignored.
+   * Imports do not record events.
+   *
+   * Dependencies on issues in neither the database nor the file are
+   * skipped with a warning, and left out of the record's hash, so the
+   * record reads as unchanged until the other issue arrives.
+   */
+  async importJsonl(options: ImportJsonlOptions = {}): Promise<ImportJsonlResult> {
+    return this.mutate('importJsonl', undefined, { ...options }, this.resolveActor(), async () => {
+      const path = options.path ?? this.defaultJsonlPath()
+      const onCollision = options.onCollision ?? 'skip'
+      const incoming = parseJsonl(readFileSync(path, 'utf8'))
+
+      const result: ImportJsonlResult = { created: 0, updated: 0, unchanged: 0, collisions: [], warnings: [] }
+
+      const [local, dirtyRows, hashRows] = await Promise.all([
+        this.loadJsonlRecords(incoming.map((r) => r.id)),
+        this.db.select().from(schema.dirtyIssues),
+        this.db.select().from(schema.exportHashes),
+      ])
+      const dirtyIds = new Set(dirtyRows.map((d) => d.issueId))
+      const exportedHashes = new Map(hashRows.map((h) => [h.issueId, h.contentHash]))
+
+      // Issues dependencies can point at once the import is applied
+      const known = new Set(incoming.filter((r) => !r.deleted_at || local.has(r.id)).map((r) => r.id))
+      const targets = [...new Set(incoming.flatMap((r) => (r.dependencies ?? []).map((d) => d.depends_on_id)))]
+      for (let i = 0; i < targets.length; i += 500) {
+        const found = await this.db
+          .select({ id: schema.issues.id })
+          .from(schema.issues)
+          .where(inArray(schema.issues.id, targets.slice(i, i + 500)))
+        for (const { id } of found) known.add(id)
+      }
+
+      type Applied = { rows: ReturnType<typeof fromJsonlIssue>; hash: string; unresolved: Dependency[] }
+      const applied: Applied[] = []
+      const inSync: Array<{ id: string; hash: string }> = []
+
+      for (const record of incoming) {
+        const rows = fromJsonlIssue(record)
+        // Hash the issue as it will be stored: edges to missing issues can't be
+        const unresolved = rows.dependencies.filter((d) => !known.has(d.dependsOnId))
+        rows.dependencies = rows.dependencies.filter((d) => known.has(d.dependsOnId))
+        const incomingHash = computeContentHash(
+          toJsonlIssue(rows.issue, rows.labels, rows.dependencies, rows.comments)
+        )
+        const existing = local.get(record.id)
+
+        if (!existing) {
+          // A tombstone for an issue never seen here has nothing to delete
+          if (rows.issue.deletedAt) continue
+
+          applied.push({ rows, hash: incomingHash, unresolved })
+          result.created++
+          continue
+        }
+
+        const localHash = computeContentHash(existing.record)
+        if (localHash === incomingHash) {
+          inSync.push({ id: record.id, hash: incomingHash })
+          result.unchanged++
+          continue
+        }
+
+        const locallyModified = dirtyIds.has(record.id) && exportedHashes.get(record.id) !== localHash
+        if (locallyModified) {
+          const takeIncoming = onCollision === 'overwrite'
+            || (onCollision === 'newer' && rows.issue.updatedAt > existing.issue.updatedAt)
+
+          result.collisions.push({
+            id: record.id,
+            localHash,
+            incomingHash,
+            resolution: takeIncoming ? 'took-incoming' : 'kept-local',
+          })
+          if (!takeIncoming) continue
+        }
+
+        applied.push({ rows, hash: incomingHash, unresolved })
+        result.updated++
+      }
+
+      if (options.dryRun) return result
+
+      const now = this.now()
+
+      for (const { rows } of applied) {
+        const { id: _id, ...fields } = rows.issue
+        await this.db.insert(schema.issues)
+          .values(rows.issue)
+          .onConflictDoUpdate({ target: schema.issues.id, set: fields })
+
+        await this.db.delete(schema.labels).where(eq(schema.labels.issueId, rows.issue.id))
+        if (rows.labels.length > 0) {
+          await this.db.insert(schema.labels)
+            .values(rows.labels.map((label) => ({ issueId: rows.issue.id, label })))
+            .onConflictDoNothing()
+        }
+
+        await this.db.delete(schema.comments).where(eq(schema.comments.issueId, rows.issue.id))
+        if (rows.comments.length > 0) {
+          await this.db.insert(schema.comments)
+            .values(rows.comments.map(({ id: _commentId, ...comment }) => comment))
+        }
+      }
+
+      // Dependencies go last so edges between newly imported issues resolve
+      for (const { rows, unresolved } of applied) {
+        await this.db.delete(schema.dependencies).where(eq(schema.dependencies.issueId, rows.issue.id))
+        if (rows.dependencies.length > 0) {
+          await this.db.insert(schema.dependencies).values(rows.dependencies).onConflictDoNothing()
+        }
+
+        for (const dep of unresolved) {
+          result.warnings.push(`${dep.issueId}: dependency on unknown issue ${dep.dependsOnId} skipped`)
+        }
+      }
+
+      for (const { id, hash } of [...applied.map((a) => ({ id: a.rows.issue.id, hash: a.hash })), ...inSync]) {
+        await this.db.insert(schema.exportHashes)
+          .values({ issueId: id, contentHash: hash, exportedAt: now })
+          .onConflictDoUpdate({ target: schema.exportHashes.issueId, set: { contentHash: hash, exportedAt: now } })
+        await this.db.update(schema.issues).set({ contentHash: hash }).where(eq(schema.issues.id, id))
+        await this.db.delete(schema.dirtyIssues).where(eq(schema.dirtyIssues.issueId, id))
+      }
+
+      await this.refreshBlockedCache(applied.map((a) => a.rows.issue.id))
+
+      return result
+    })
+  }
+
+  // ===========================================================================
+  // Markdown Plans
+  // ===========================================================================
+
+  /**
+   * Create issues from a markdown plan: headings become epics, checklist
+   * items tasks, `#tags` labels, and numbered items a `blocks` chain (see
+   * `parseMarkdownPlan` for the format).
+   *
+   * Everything is created in one transaction. With `dryRun`, nothing is
+   * written and the result previews the issues with placeholder IDs; items
+   * are validated as `createIssue` would either way.
+   *
+   * @throws ValidationError if the plan is empty, has several top-level
+   *   items and no `parentId`, or an item isn't a valid issue
+   * @throws NotFoundError if the parent doesn't exist
+   */
+  async importMarkdownPlan(
+    text: string,
+    options: ImportPlanOptions = {},
+    mutation?: MutationOptions
+  ): Promise<PlanImportResult> {
+    const roots = parseMarkdownPlan(text)
+    if (roots.length === 0) {
+      throw new ValidationError([{ path: 'text', message: 'has no headings or checklist items' }], 'Plan has no headings or checklist items')
+    }
+    if (!options.parentId && (roots.length > 1 || roots[0].issueType !== 'epic')) {
+      throw new ValidationError(
+        [{ path: 'parentId', message: 'is required for plans without a single top-level heading' }],
+        'Plan has no single top-level heading; pass parentId to import it under an existing issue'
+      )
+    }
+
+    const planned: PlannedIssue[] = []
+
+    const create = async (item: PlanItem, parentId: string | null): Promise<string> => {
+      const status = item.closed ? 'closed' as const : 'open' as const
+      let id = `plan-${planned.length + 1}`
+      const input: CreateIssueOptions = {
+        title: item.title,
+        description: item.description,
+        issueType: item.issueType,
+        labels: item.labels,
+        parentId: parentId ?? undefined,
+      }
+
+      try {
+        validateCreateIssue(input)
+      } catch (err) {
+        if (!(err instanceof ValidationError)) throw err
+        throw new ValidationError(
+          err.issues.map((issue) => ({ path: `line ${item.line}`, message: `${issue.path} ${issue.message}`.trim() })),
+          `${err.message} on line ${item.line}`
+        )
+      }
+
+      if (!options.dryRun) {
+        const issue = await this.createIssue(input, mutation)
+        id = issue.id
+        if (item.closed) await this.closeIssue(id, 'Done in plan', mutation)
+      }
+
+      planned.push({
+        id,
+        parentId,
+        title: item.title,
+        description: item.description,
+        issueType: item.issueType,
+        labels: item.labels,
+        status,
+        blockedBy: [],
+        line: item.line,
+      })
+
+      await createAll(item.children, id)
+      return id
+    }
+
+    const createAll = async (items: PlanItem[], parentId: string | null): Promise<void> => {
+      let previous: { item: PlanItem; id: string } | undefined
+
+      for (const item of items) {
+        const id = await create(item, parentId)
+
+        if (previous && previous.item.ordered && item.ordered) {
+          if (!options.dryRun) await this.addDependency(id, previous.id, 'blocks', mutation)
+          planned.find((p) => p.id === id)!.blockedBy.push(previous.id)
+        }
+        previous = { item, id }
+      }
+    }
+
+    const run = async () => {
+      if (options.parentId && !(await this.getIssue(options.parentId))) {
+        throw new NotFoundError('issue', options.parentId, `Parent issue not found: ${options.parentId}`)
+      }
+      await createAll(roots, options.parentId ?? null)
+      return { issues: planned, dryRun: options.dryRun ?? false }
+    }
+
+    return options.dryRun ? run() : this.transaction(run)
   }
 
   // ===========================================================================
-  // Issue CRUD
+  // Duplicates
   // ===========================================================================
 
   /**
-   * Generate a unique issue ID (hash-based like beads)
+   * Find pairs of issues that look like duplicates, by the similarity of
+   * their titles and descriptions. See `matchDuplicates` for the scoring.
+   *
+   * @throws NotFoundError if `issueId` is given and doesn't exist
    */
-  private generateId(): string {
-    const timestamp = Date.now().toString(36)
-    const random = Math.random().toString(36).substring(2, 5)
-    return `${timestamp}${random}`
-  }
+  async findDuplicates(options: FindDuplicatesOptions = {}): Promise<DuplicatePair[]> {
+    const conditions = [isNull(schema.issues.deletedAt)]
+    if (!options.includeClosed) conditions.push(inArray(schema.issues.status, ['open', 'in_progress', 'blocked']))
 
-  /**
-   * Get current ISO timestamp
-   */
-  private now(): string {
-    return new Date().toISOString()
+    const issues = await this.db.select().from(schema.issues).where(and(...conditions))
+
+    if (options.issueId) {
+      const issue = await this.requireIssue(options.issueId)
+      if (!issues.some((i) => i.id === issue.id)) issues.push(issue)
+    }
+
+    const pairs = matchDuplicates(issues, options)
+    return options.limit ? pairs.slice(0, options.limit) : pairs
   }
 
   /**
-   * Create a new issue
+   * Merge duplicate issues into a target.
+   *
+   * Each source's labels, comments and dependency edges move to the target;
+   * edges that would link the target to itself or repeat one it has are
+   * dropped. The source is then linked to the target as `related` and
+   * closed with reason `duplicate of <target>` (unless already closed). Moves
+   * are recorded as the usual label and dependency events, a `comment_moved`
+   * event on both issues for each comment (source and target IDs as old and
+   * new value, the comment text as comment), plus a `merged` event on the
+   * target for each source.
+   *
+   * @throws ValidationError if there are no sources or they include the target
+   * @throws NotFoundError if the target or a source doesn't exist
    */
-  async createIssue(options: CreateIssueOptions): Promise<Issue> {
-    const id = this.generateId()
-    const now = this.now()
+  async mergeIssues(sourceIds: string[], targetId: string, mutation?: MutationOptions): Promise<MergeResult> {
+    const actor = this.resolveActor(mutation)
+    const options = { ...mutation, actor }
+    const sources = [...new Set(sourceIds)]
 
-    const issue: NewIssue = {
-      id,
-      title: options.title,
-      description: options.description || '',
-      design: options.design || '',
-      acceptanceCriteria: options.acceptanceCriteria || '',
-      notes: options.notes || '',
-      status: options.status || 'open',
-      priority: options.priority ?? 2,
-      issueType: options.issueType || 'task',
-      assignee: options.assignee,
-      estimatedMinutes: options.estimatedMinutes,
-      externalRef: options.externalRef,
-      createdAt: now,
-      updatedAt: now,
+    if (sources.length === 0) {
+      throw new ValidationError([{ path: 'sourceIds', message: 'must not be empty' }])
+    }
+    if (sources.includes(targetId)) {
+      throw new ValidationError([{ path: 'sourceIds', message: `must not include the target ${targetId}` }])
     }
 
-    await this.db.insert(schema.issues).values(issue)
+    return this.mutate('mergeIssues', targetId, { sourceIds: sources }, actor, async () => {
+      await this.requireIssue(targetId)
+      const result: Omit<MergeResult, 'target'> = { merged: [], labels: 0, comments: 0, dependencies: 0, dropped: [] }
+
+      for (const sourceId of sources) {
+        const source = await this.requireIssue(sourceId)
+        const moved = { labels: 0, comments: 0, dependencies: 0 }
+
+        const targetLabels = await this.getLabels(targetId)
+        for (const label of await this.getLabels(sourceId)) {
+          await this.removeLabel(sourceId, label, options)
+          if (!targetLabels.includes(label)) {
+            await this.addLabel(targetId, label, options)
+            moved.labels++
+          }
+        }
+
+        const comments = await this.db
+          .update(schema.comments)
+          .set({ issueId: targetId })
+          .where(eq(schema.comments.issueId, sourceId))
+          .returning()
+        moved.comments = comments.length
+
+        const movedAt = this.now()
+        for (const comment of comments) {
+          await this.db.insert(schema.events).values([sourceId, targetId].map((issueId) => ({
+            issueId,
+            eventType: 'comment_moved',
+            actor,
+            oldValue: sourceId,
+            newValue: targetId,
+            comment: comment.text,
+            createdAt: movedAt,
+          })))
+        }
+
+        const edges = [...await this.getDependencies(sourceId), ...await this.getDependents(sourceId)]
+        for (const edge of edges) {
+          await this.removeDependency(edge.issueId, edge.dependsOnId, options)
+
+          const from = edge.issueId === sourceId ? targetId : edge.issueId
+          const to = edge.dependsOnId === sourceId ? targetId : edge.dependsOnId
+          if (from === to) {
+            result.dropped.push(edge)
+            continue
+          }
+
+          try {
+            await this.addDependency(from, to, edge.type, options)
+            moved.dependencies++
+          } catch (err) {
+            if (!(err instanceof ConflictError || err instanceof DependencyCycleError || err instanceof NotFoundError)) {
+              throw err
+            }
+            result.dropped.push(edge)
+          }
+        }
+
+        await this.addDependency(sourceId, targetId, 'related', options)
 
-    // Add labels if provided
-    if (options.labels && options.labels.length > 0) {
-      await this.db.insert(schema.labels).values(
-        options.labels.map((label) => ({ issueId: id, label }))
-      )
-    }
+        await this.db.insert(schema.events).values({
+          issueId: targetId,
+          eventType: 'merged',
+          actor,
+          oldValue: sourceId,
+          newValue: targetId,
+          comment: mutation?.comment ??
+            `moved ${moved.labels} labels, ${moved.comments} comments and ${moved.dependencies} dependencies`,
+          createdAt: this.now(),
+        })
+        await this.markDirty(sourceId)
+        await this.markDirty(targetId)
 
-    // Record creation event
-    await this.db.insert(schema.events).values({
-      issueId: id,
-      eventType: 'created',
-      actor: 'system',
-      createdAt: now,
-    })
+        if (source.status !== 'closed') {
+          await this.closeIssue(sourceId, `duplicate of ${targetId}`, options)
+        }
+
+        result.merged.push(sourceId)
+        result.labels += moved.labels
+        result.comments += moved.comments
+        result.dependencies += moved.dependencies
+      }
 
-    return this.getIssue(id) as Promise<Issue>
+      return { target: await this.requireIssue(targetId), ...result }
+    })
   }
 
+  // ===========================================================================
+  // Compaction
+  // ===========================================================================
+
   /**
-   * Get an issue by ID
+   * Find closed issues old and large enough to compact, largest first
    */
-  async getIssue(id: string): Promise<Issue | undefined> {
-    const result = await this.db
+  async findCompactionCandidates(options: CompactionCandidateOptions = {}): Promise<CompactionCandidate[]> {
+    const cutoff = new Date(Date.now() - (options.olderThanDays ?? 30) * 24 * 60 * 60 * 1000).toISOString()
+    const level = options.level ?? 0
+
+    const closed = await this.db
       .select()
       .from(schema.issues)
-      .where(and(eq(schema.issues.id, id), isNull(schema.issues.deletedAt)))
-      .limit(1)
+      .where(and(
+        eq(schema.issues.status, 'closed'),
+        isNull(schema.issues.deletedAt),
+        sql`${schema.issues.closedAt} <= ${cutoff}`,
+        sql`coalesce(${schema.issues.compactionLevel}, 0) = ${level}`
+      ))
 
-    return result[0]
+    const candidates = await this.measureIssues(closed)
+    const filtered = candidates
+      .filter((c) => c.size >= (options.minSize ?? 0))
+      .sort((a, b) => b.size - a.size || a.issue.id.localeCompare(b.issue.id))
+
+    return options.limit ? filtered.slice(0, options.limit) : filtered
   }
 
   /**
-   * Get an issue with all its relations
+   * Measure issues, including their comments
    */
-  async getIssueWithRelations(id: string): Promise<IssueWithRelations | undefined> {
-    const issue = await this.getIssue(id)
-    if (!issue) return undefined
-
-    const [labels, dependencies, comments] = await Promise.all([
-      this.db.select().from(schema.labels).where(eq(schema.labels.issueId, id)),
-      this.db.select().from(schema.dependencies).where(eq(schema.dependencies.issueId, id)),
-      this.db.select().from(schema.comments).where(eq(schema.comments.issueId, id)),
-    ])
+  private async measureIssues(issues: Issue[]): Promise<CompactionCandidate[]> {
+    const comments = await this.loadComments(issues.map((i) => i.id))
 
-    return {
-      ...issue,
-      labels: labels.map((l) => l.label),
-      dependencies,
-      comments,
-    }
+    return issues.map((issue) => ({
+      issue,
+      size: measureIssueSize(issue, comments.get(issue.id)),
+    }))
   }
 
   /**
-   * Update an issue
+   * Load comments grouped by issue, oldest first
    */
-  async updateIssue(id: string, options: UpdateIssueOptions): Promise<Issue | undefined> {
-    const existing = await this.getIssue(id)
-    if (!existing) return undefined
-
-    const now = this.now()
-    const updates: Partial<NewIssue> = {
-      updatedAt: now,
-    }
-
-    // Track changes for events
-    const changes: Array<{ field: string; oldValue: string; newValue: string }> = []
-
-    if (options.title !== undefined && options.title !== existing.title) {
-      updates.title = options.title
-      changes.push({ field: 'title', oldValue: existing.title, newValue: options.title })
-    }
+  private async loadComments(ids: string[]): Promise<Map<string, Comment[]>> {
+    const grouped = new Map<string, Comment[]>(ids.map((id) => [id, []]))
 
-    if (options.description !== undefined && options.description !== existing.description) {
-      updates.description = options.description
-      changes.push({ field: 'description', oldValue: existing.description, newValue: options.description })
-    }
-
-    if (options.design !== undefined && options.design !== existing.design) {
-      updates.design = options.design
-      changes.push({ field: 'design', oldValue: existing.design, newValue: options.design })
-    }
-
-    if (options.acceptanceCriteria !== undefined && options.acceptanceCriteria !== existing.acceptanceCriteria) {
-      updates.acceptanceCriteria = options.acceptanceCriteria
-      changes.push({ field: 'acceptanceCriteria', oldValue: existing.acceptanceCriteria, newValue: options.acceptanceCriteria })
-    }
-
-    if (options.notes !== undefined && options.notes !== existing.notes) {
-      updates.notes = options.notes
-      changes.push({ field: 'notes', oldValue: existing.notes, newValue: options.notes })
-    }
+    for (let i = 0; i < ids.length; i += 500) {
+      const rows = await this.db
+        .select()
+        .from(schema.comments)
+        .where(inArray(schema.comments.issueId, ids.slice(i, i + 500)))
+        .orderBy(asc(schema.comments.createdAt), asc(schema.comments.id))
 
-    if (options.status !== undefined && options.status !== existing.status) {
-      updates.status = options.status
-      changes.push({ field: 'status', oldValue: existing.status, newValue: options.status })
+      for (const row of rows) grouped.get(row.issueId)?.push(row)
     }
 
-    if (options.priority !== undefined && options.priority !== existing.priority) {
-      updates.priority = options.priority
-      changes.push({ field: 'priority', oldValue: String(existing.priority), newValue: String(options.priority) })
-    }
+    return grouped
+  }
 
-    if (options.issueType !== undefined && options.issueType !== existing.issueType) {
-      updates.issueType = options.issueType
-      changes.push({ field: 'issueType', oldValue: existing.issueType, newValue: options.issueType })
+  /**
+   * Compact closed issues.
+   *
+   * Each issue's description, design, notes and comments are passed to
+   * `summarize`; the summary replaces description, design and notes, the
+   * compaction level is bumped and a `compacted` event is recorded. The
+   * original size is kept from the first compaction. Comments and
+   * acceptance criteria are left as they are.
+   *
+   * An issue that is reopened, edited or compacted by someone else while
+   * its summary is being made is skipped, and left out of the results.
+   */
+  async compactIssues(options: CompactIssuesOptions): Promise<CompactionResult[]> {
+    let candidates: CompactionCandidate[]
+
+    if (options.ids) {
+      const issues = await this.loadIssues(options.ids)
+      const closed = [...issues.values()].filter((i) => i.status === 'closed')
+      candidates = await this.measureIssues(closed)
+    } else {
+      candidates = await this.findCompactionCandidates(options)
     }
 
-    if (options.assignee !== undefined && options.assignee !== existing.assignee) {
-      updates.assignee = options.assignee
-      changes.push({ field: 'assignee', oldValue: existing.assignee || '', newValue: options.assignee })
+    if (options.dryRun) {
+      return candidates.map((c) => ({
+        id: c.issue.id,
+        originalSize: c.size,
+        compactedSize: c.size,
+        level: (c.issue.compactionLevel ?? 0) + 1,
+        dryRun: true,
+      }))
     }
 
-    if (Object.keys(updates).length > 1) {
-      await this.db.update(schema.issues).set(updates).where(eq(schema.issues.id, id))
+    const results: CompactionResult[] = []
+
+    for (const { issue, size } of candidates) {
+      const comments = (await this.loadComments([issue.id])).get(issue.id) ?? []
+      const level = (issue.compactionLevel ?? 0) + 1
+
+      const summary = normalizeSummary(await options.summarize({
+        issue,
+        description: issue.description,
+        design: issue.design,
+        notes: issue.notes,
+        comments,
+        level,
+      }))
+
+      const compactedSize = measureIssueSize({ ...summary, acceptanceCriteria: issue.acceptanceCriteria }, comments)
+      const now = this.now()
+
+      // The summarizer may be slow (e.g. an LLM call), so only the writes hold the
+      // lock, and only if the issue is as it was when summarized
+      const compacted = await this.mutate('compactIssues', issue.id, { level, summary }, this.resolveActor(options), async () => {
+        const [current] = await this.db.select().from(schema.issues).where(eq(schema.issues.id, issue.id))
+        if (
+          current?.status !== 'closed' ||
+          (current.compactionLevel ?? 0) !== level - 1 ||
+          current.updatedAt !== issue.updatedAt
+        ) {
+          return false
+        }
+
+        if (options.snapshot !== false) {
+          const content: SnapshotContent = {
+            description: issue.description,
+            design: issue.design,
+            notes: issue.notes,
+            acceptanceCriteria: issue.acceptanceCriteria,
+            comments: comments.map((c) => ({ author: c.author, text: c.text, createdAt: c.createdAt })),
+          }
+
+          await this.db.insert(schema.issueSnapshots).values({
+            issueId: issue.id,
+            snapshotTime: now,
+            compactionLevel: level,
+            originalSize: size,
+            compressedSize: compactedSize,
+            originalContent: JSON.stringify(content),
+          })
+        }
+
+        await this.db.update(schema.issues).set({
+          description: summary.description,
+          design: summary.design,
+          notes: summary.notes,
+          compactionLevel: level,
+          compactedAt: now,
+          compactedAtCommit: options.commit ?? null,
+          originalSize: issue.originalSize ?? size,
+          updatedAt: now,
+        }).where(eq(schema.issues.id, issue.id))
 
-      // Record events for changes
-      for (const change of changes) {
         await this.db.insert(schema.events).values({
-          issueId: id,
-          eventType: `${change.field}_changed`,
-          actor: 'system',
-          oldValue: change.oldValue,
-          newValue: change.newValue,
+          issueId: issue.id,
+          eventType: 'compacted',
+          actor: this.resolveActor(options),
+          oldValue: String(size),
+          newValue: String(compactedSize),
+          comment: `level ${level}`,
           createdAt: now,
         })
-      }
+
+        await this.markDirty(issue.id)
+        return true
+      })
+
+      if (compacted) results.push({ id: issue.id, originalSize: size, compactedSize, level, dryRun: false })
     }
 
-    return this.getIssue(id)
+    return results
   }
 
   /**
-   * Close an issue
+   * Get the pre-compaction snapshots of an issue, oldest first
    */
-  async closeIssue(id: string, reason?: string): Promise<Issue | undefined> {
-    const existing = await this.getIssue(id)
-    if (!existing) return undefined
+  async getSnapshots(issueId: string): Promise<Array<IssueSnapshot & { content: SnapshotContent }>> {
+    const rows = await this.db
+      .select()
+      .from(schema.issueSnapshots)
+      .where(eq(schema.issueSnapshots.issueId, issueId))
+      .orderBy(asc(schema.issueSnapshots.id))
 
-    const now = this.now()
+    return rows.map((row) => ({ ...row, content: JSON.parse(row.originalContent) as SnapshotContent }))
+  }
 
-    await this.db.update(schema.issues).set({
-      status: 'closed',
-      closedAt: now,
-      closeReason: reason || '',
-      updatedAt: now,
-    }).where(eq(schema.issues.id, id))
+  // ===========================================================================
+  // Claiming
+  // ===========================================================================
 
-    await this.db.insert(schema.events).values({
-      issueId: id,
-      eventType: 'closed',
-      actor: 'system',
-      oldValue: existing.status,
-      newValue: 'closed',
-      comment: reason,
-      createdAt: now,
+  /**
+   * Atomically claim the highest-priority ready issue for an agent: mark it
+   * in progress, assign it to the agent and take a lease on it.
+   *
+   * Runs in one transaction holding SQLite's write lock, so concurrent
+   * claims, from this process or others, never get the same issue. Expired
+   * leases are returned to the pool first. Ready issues the workflow won't
+   * let the agent start are passed over for the next one. Returns undefined
+   * when nothing claimable is ready.
+   *
+   * ```ts
+   * const claim = await beads.claimNextReady({ agent: 'agent-7', filter: { labels: ['backend'] } })
+   * if (claim) {
+   *   // ... work, calling beads.heartbeat(claim.issue.id, 'agent-7') periodically
+   *   await beads.as('agent-7').closeIssue(claim.issue.id, 'done')
+   * }
+   * ```
+   */
+  async claimNextReady(options: ClaimOptions): Promise<Claim | undefined> {
+    const { agent } = options
+
+    return this.transaction(async () => {
+      await this.expireLeases()
+
+      // Read candidates in growing batches, since rejected ones are skipped
+      let seen = 0
+      for (let limit = 10; ; limit *= 4) {
+        const candidates = await this.getReadyIssues({ ...options.filter, limit })
+
+        for (const candidate of candidates.slice(seen)) {
+          try {
+            return await this.transaction(() => this.claim(candidate.id, agent, options.leaseMinutes))
+          } catch (err) {
+            if (!(err instanceof InvalidTransitionError)) throw err
+          }
+        }
+
+        if (candidates.length < limit) return undefined
+        seen = candidates.length
+      }
     })
-
-    return this.getIssue(id)
   }
 
   /**
-   * Reopen a closed issue
+   * Take a lease on an issue and start it for an agent
+   *
+   * @throws InvalidTransitionError if the workflow doesn't let the agent start it
    */
-  async reopenIssue(id: string): Promise<Issue | undefined> {
-    const existing = await this.getIssue(id)
-    if (!existing || existing.status !== 'closed') return undefined
-
+  private async claim(issueId: string, agent: string, leaseMinutes?: number): Promise<Claim> {
     const now = this.now()
+    const lease = {
+      issueId,
+      agent,
+      claimedAt: now,
+      heartbeatAt: now,
+      expiresAt: this.leaseExpiry(leaseMinutes),
+    }
 
-    await this.db.update(schema.issues).set({
-      status: 'open',
-      closedAt: null,
-      updatedAt: now,
-    }).where(eq(schema.issues.id, id))
+    await this.db.insert(schema.issueLeases)
+      .values(lease)
+      .onConflictDoUpdate({ target: schema.issueLeases.issueId, set: lease })
 
     await this.db.insert(schema.events).values({
-      issueId: id,
-      eventType: 'reopened',
-      actor: 'system',
-      oldValue: 'closed',
-      newValue: 'open',
+      issueId,
+      eventType: 'claimed',
+      actor: agent,
+      newValue: agent,
+      comment: `lease until ${lease.expiresAt}`,
       createdAt: now,
     })
 
-    return this.getIssue(id)
+    const issue = await this.updateIssue(issueId, { status: 'in_progress', assignee: agent }, { actor: agent })
+
+    return { issue, lease }
   }
 
   /**
-   * Soft delete an issue
+   * Expiry time of a lease taken now
    */
-  async deleteIssue(id: string, reason?: string): Promise<boolean> {
-    const existing = await this.getIssue(id)
-    if (!existing) return false
-
-    const now = this.now()
-
-    await this.db.update(schema.issues).set({
-      deletedAt: now,
-      deleteReason: reason || '',
-      originalType: existing.issueType,
-      updatedAt: now,
-    }).where(eq(schema.issues.id, id))
-
-    return true
+  private leaseExpiry(leaseMinutes = 30): string {
+    return new Date(Date.now() + leaseMinutes * 60_000).toISOString()
   }
 
-  // ===========================================================================
-  // Queries
-  // ===========================================================================
-
   /**
-   * List issues with optional filters
+   * Get the lease on an issue, if it is claimed
    */
-  async listIssues(options: QueryOptions = {}): Promise<Issue[]> {
-    const conditions: ReturnType<typeof eq>[] = [isNull(schema.issues.deletedAt)]
-
-    if (options.status) {
-      const statuses = Array.isArray(options.status) ? options.status : [options.status]
-      conditions.push(inArray(schema.issues.status, statuses))
-    }
-
-    if (options.priority !== undefined) {
-      const priorities = Array.isArray(options.priority) ? options.priority : [options.priority]
-      conditions.push(inArray(schema.issues.priority, priorities))
-    }
-
-    if (options.issueType) {
-      const types = Array.isArray(options.issueType) ? options.issueType : [options.issueType]
-      conditions.push(inArray(schema.issues.issueType, types))
-    }
-
-    if (options.assignee) {
-      conditions.push(eq(schema.issues.assignee, options.assignee))
-    }
-
-    let query = this.db
+  async getLease(issueId: string): Promise<IssueLease | undefined> {
+    const result = await this.db
       .select()
-      .from(schema.issues)
-      .where(and(...conditions))
-
-    // Order
-    const orderCol = options.orderBy === 'priority' ? schema.issues.priority
-      : options.orderBy === 'updatedAt' ? schema.issues.updatedAt
-      : options.orderBy === 'title' ? schema.issues.title
-      : schema.issues.createdAt
+      .from(schema.issueLeases)
+      .where(eq(schema.issueLeases.issueId, issueId))
+      .limit(1)
 
-    query = options.orderDir === 'asc'
-      ? query.orderBy(asc(orderCol))
-      : query.orderBy(desc(orderCol))
+    return result[0]
+  }
 
-    // Pagination
-    if (options.limit) {
-      query = query.limit(options.limit)
-    }
-    if (options.offset) {
-      query = query.offset(options.offset)
-    }
+  /**
+   * List leases, soonest to expire first
+   */
+  async listLeases(agent?: string): Promise<IssueLease[]> {
+    return this.db
+      .select()
+      .from(schema.issueLeases)
+      .where(agent ? eq(schema.issueLeases.agent, agent) : undefined)
+      .orderBy(asc(schema.issueLeases.expiresAt))
+  }
 
-    return query
+  /**
+   * Extend an agent's lease on an issue.
+   *
+   * Returns undefined if the agent doesn't hold a live lease on it, e.g.
+   * because it expired and the issue went back to the pool.
+   */
+  async heartbeat(issueId: string, agent: string, leaseMinutes?: number): Promise<IssueLease | undefined> {
+    return this.transaction(async () => {
+      await this.expireLeases()
+
+      const now = this.now()
+      const [lease] = await this.db
+        .update(schema.issueLeases)
+        .set({ heartbeatAt: now, expiresAt: this.leaseExpiry(leaseMinutes) })
+        .where(and(eq(schema.issueLeases.issueId, issueId), eq(schema.issueLeases.agent, agent)))
+        .returning()
+
+      return lease
+    })
   }
 
   /**
-   * Get ready issues (no blockers)
+   * Give up a claimed issue: drop the lease, unassign the agent and put
+   * the issue back to `open` (or `blocked`).
+   *
+   * Returns false if the agent doesn't hold the lease.
+   *
+   * @throws InvalidTransitionError if the workflow doesn't allow the status
    */
-  async getReadyIssues(): Promise<Issue[]> {
-    // Get all open issues
-    const openIssues = await this.db
-      .select()
-      .from(schema.issues)
-      .where(and(
-        eq(schema.issues.status, 'open'),
-        isNull(schema.issues.deletedAt)
-      ))
+  async release(issueId: string, agent: string, options: ReleaseOptions = {}): Promise<boolean> {
+    return this.transaction(async () => {
+      const lease = await this.getLease(issueId)
+      if (!lease || lease.agent !== agent) return false
 
-    // Get all blocking dependencies for open issues
-    const blockingDeps = await this.db
-      .select()
-      .from(schema.dependencies)
-      .innerJoin(schema.issues, eq(schema.dependencies.dependsOnId, schema.issues.id))
-      .where(and(
-        eq(schema.dependencies.type, 'blocks'),
-        inArray(schema.issues.status, ['open', 'in_progress', 'blocked'])
-      ))
+      await this.returnToPool(lease, 'released', agent, options.status ?? 'open', options.reason)
+      return true
+    })
+  }
 
-    const blockedIds = new Set(blockingDeps.map((d) => d.dependencies.issueId))
+  /**
+   * Return the issues of expired leases to `open`, recording a
+   * `lease_expired` event for each. Runs before every claim and heartbeat;
+   * call it directly to reclaim abandoned work sooner. The workflow's
+   * transitions and guards don't apply, so abandoned work always goes back.
+   *
+   * Returns the IDs of the issues whose leases expired.
+   */
+  async expireLeases(): Promise<string[]> {
+    return this.transaction(async () => {
+      const expired = await this.db
+        .select()
+        .from(schema.issueLeases)
+        .where(lte(schema.issueLeases.expiresAt, this.now()))
+
+      for (const lease of expired) {
+        await this.returnToPool(lease, 'lease_expired', this.actor, 'open')
+      }
 
-    return openIssues.filter((issue) => !blockedIds.has(issue.id))
+      return expired.map((lease) => lease.issueId)
+    })
   }
 
   /**
-   * Get blocked issues
+   * Drop a lease and, if the agent is still working the issue, unassign it
+   * and set its status. Releases are checked against the workflow; expiry
+   * is not.
    */
-  async getBlockedIssues(): Promise<Array<Issue & { blockedByCount: number }>> {
-    const result = await this.db
-      .select({
-        issue: schema.issues,
-        blockedByCount: sql<number>`count(${schema.dependencies.dependsOnId})`.as('blocked_by_count'),
-      })
-      .from(schema.issues)
-      .innerJoin(schema.dependencies, eq(schema.issues.id, schema.dependencies.issueId))
-      .innerJoin(
-        schema.issues,
-        and(
-          eq(schema.dependencies.dependsOnId, schema.issues.id),
-          inArray(schema.issues.status, ['open', 'in_progress', 'blocked'])
-        )
-      )
-      .where(and(
-        inArray(schema.issues.status, ['open', 'in_progress', 'blocked']),
-        eq(schema.dependencies.type, 'blocks'),
-        isNull(schema.issues.deletedAt)
-      ))
-      .groupBy(schema.issues.id)
+  private async returnToPool(
+    lease: IssueLease,
+    eventType: 'released' | 'lease_expired',
+    actor: string,
+    status: 'open' | 'blocked',
+    reason?: string
+  ): Promise<void> {
+    await this.db.delete(schema.issueLeases).where(eq(schema.issueLeases.issueId, lease.issueId))
+
+    const issue = await this.getIssue(lease.issueId)
+    if (!issue || issue.status !== 'in_progress' || issue.assignee !== lease.agent) return
 
-    return result.map((r) => ({ ...r.issue, blockedByCount: r.blockedByCount }))
+    await this.db.insert(schema.events).values({
+      issueId: lease.issueId,
+      eventType,
+      actor,
+      oldValue: lease.agent,
+      comment: reason,
+      createdAt: this.now(),
+    })
+
+    await this.applyUpdate(lease.issueId, { status, assignee: null }, { actor, comment: eventType }, eventType === 'released')
   }
 
   // ===========================================================================
-  // Dependencies
+  // Session Context
   // ===========================================================================
 
   /**
-   * Add a dependency between issues
+   * Build the context an agent needs to resume work, within a token
+   * budget: its issues in progress with their notes, what blocks them, the
+   * top ready issues, and recent comments and events on the issues it has
+   * worked on. See `packSessionContext` for how it is truncated.
+   *
+   * ```ts
+   * const { text } = await beads.buildSessionContext({ agent: 'agent-7', tokenBudget: 2000 })
+   * ```
    */
-  async addDependency(
-    fromId: string,
-    toId: string,
-    type: DependencyTypeValue = 'blocks'
-  ): Promise<Dependency> {
-    const now = this.now()
-
-    const dep: NewDependency = {
-      issueId: fromId,
-      dependsOnId: toId,
-      type,
-      createdAt: now,
-      createdBy: 'system',
+  async buildSessionContext(options: SessionContextOptions): Promise<SessionContext> {
+    const { agent } = options
+    const activityLimit = options.activityLimit ?? 20
+
+    const inProgress = await this.listIssues({ status: 'in_progress', assignee: agent, orderBy: 'priority', orderDir: 'asc' })
+
+    const blockers = new Map<string, { issue: Issue; blocks: string[] }>()
+    for (const issue of inProgress) {
+      for (const blocker of await this.getTransitiveBlockers(issue.id)) {
+        const entry = blockers.get(blocker.id) ?? { issue: blocker, blocks: [] }
+        entry.blocks.push(issue.id)
+        blockers.set(blocker.id, entry)
+      }
     }
 
-    await this.db.insert(schema.dependencies).values(dep)
+    const ready = await this.getReadyIssues({ ...options.filter, limit: options.readyLimit ?? 10 })
 
-    await this.db.insert(schema.events).values({
-      issueId: fromId,
-      eventType: 'dependency_added',
-      actor: 'system',
-      newValue: `${type}:${toId}`,
-      createdAt: now,
-    })
+    // Issues the agent has in hand or acted on lately
+    const acted = await this.db
+      .select({ issueId: schema.events.issueId })
+      .from(schema.events)
+      .where(eq(schema.events.actor, agent))
+      .groupBy(schema.events.issueId)
+      .orderBy(desc(sql`max(${schema.events.id})`))
+      .limit(activityLimit)
+    const touched = [...new Set([...inProgress.map((i) => i.id), ...acted.map((e) => e.issueId)])]
+
+    const comments = touched.length === 0 ? [] : await this.db
+      .select()
+      .from(schema.comments)
+      .where(inArray(schema.comments.issueId, touched))
+      .orderBy(desc(schema.comments.createdAt), desc(schema.comments.id))
+      .limit(activityLimit)
 
-    return dep as Dependency
+    const events = touched.length === 0 ? [] : await this.db
+      .select()
+      .from(schema.events)
+      .where(inArray(schema.events.issueId, touched))
+      .orderBy(desc(schema.events.createdAt), desc(schema.events.id))
+      .limit(activityLimit)
+
+    return packSessionContext(
+      { agent, inProgress, blockers: [...blockers.values()], ready, comments, events },
+      { tokenBudget: options.tokenBudget ?? 4000, format: options.format, countTokens: options.countTokens }
+    )
   }
 
+  // ===========================================================================
+  // Reports
+  // ===========================================================================
+
   /**
-   * Remove a dependency
+   * Load the status timelines of issues from their status events
    */
-  async removeDependency(fromId: string, toId: string): Promise<boolean> {
-    const result = await this.db
-      .delete(schema.dependencies)
-      .where(and(
-        eq(schema.dependencies.issueId, fromId),
-        eq(schema.dependencies.dependsOnId, toId)
-      ))
+  private async loadStatusTimelines(issues: Issue[]): Promise<Map<string, StatusInterval[]>> {
+    const events = new Map<string, Event[]>()
+
+    for (let i = 0; i < issues.length; i += 500) {
+      const rows = await this.db
+        .select()
+        .from(schema.events)
+        .where(and(
+          inArray(schema.events.issueId, issues.slice(i, i + 500).map((issue) => issue.id)),
+          inArray(schema.events.eventType, STATUS_EVENT_TYPES)
+        ))
+        .orderBy(asc(schema.events.id))
+
+      for (const row of rows) {
+        const list = events.get(row.issueId) ?? []
+        list.push(row)
+        events.set(row.issueId, list)
+      }
+    }
 
-    return true
+    return new Map(issues.map((issue) => [issue.id, statusIntervals(issue, events.get(issue.id) ?? [])]))
   }
 
   /**
-   * Get dependencies for an issue
+   * Issues matching report filters, oldest first
    */
-  async getDependencies(issueId: string): Promise<Dependency[]> {
+  private async reportIssues(options: IssueFilterOptions): Promise<Issue[]> {
     return this.db
       .select()
-      .from(schema.dependencies)
-      .where(eq(schema.dependencies.issueId, issueId))
+      .from(schema.issues)
+      .where(and(...this.filterConditions(options)))
+      .orderBy(asc(schema.issues.createdAt), asc(schema.issues.id))
   }
 
   /**
-   * Get dependents (issues that depend on this one)
+   * Lead time (created to closed) and cycle time (first in progress to
+   * closed) per issue, summarized overall and per issue type.
+   *
+   * Use `closedAfter` to report on a recent period only.
    */
-  async getDependents(issueId: string): Promise<Dependency[]> {
-    return this.db
-      .select()
-      .from(schema.dependencies)
-      .where(eq(schema.dependencies.dependsOnId, issueId))
+  async getLeadCycleReport(options: IssueFilterOptions = {}): Promise<LeadCycleReport> {
+    const issues = await this.reportIssues(options)
+    const timelines = await this.loadStatusTimelines(issues)
+
+    return leadCycleReport(issues.map((issue) => issueTiming(issue, timelines.get(issue.id)!)))
   }
 
-  // ===========================================================================
-  // Labels
-  // ===========================================================================
+  /**
+   * Issues created and closed per week
+   */
+  async getThroughput(options: ThroughputOptions = {}): Promise<ThroughputWeek[]> {
+    const issues = await this.reportIssues(options)
+    const timelines = await this.loadStatusTimelines(issues)
+    const timings = issues.map((issue) => issueTiming(issue, timelines.get(issue.id)!))
+
+    return throughputReport(timings, options.weeks ?? 12, new Date(options.until ?? Date.now()))
+  }
 
   /**
-   * Add a label to an issue
+   * Daily open and closed counts of an epic's descendants (through
+   * `parent-child` dependencies, at any depth)
+   *
+   * @throws NotFoundError if the epic does not exist
    */
-  async addLabel(issueId: string, label: string): Promise<void> {
-    await this.db.insert(schema.labels).values({ issueId, label }).onConflictDoNothing()
+  async getBurndown(epicId: string, options: BurndownOptions = {}): Promise<BurndownPoint[]> {
+    const epic = await this.requireIssue(epicId)
 
-    await this.db.insert(schema.events).values({
-      issueId,
-      eventType: 'label_added',
-      actor: 'system',
-      newValue: label,
-      createdAt: this.now(),
-    })
+    const descendants = await this.getTransitiveDependents(epicId, { types: ['parent-child'], includeClosed: true })
+    const timelines = await this.loadStatusTimelines(descendants)
+
+    return burndownReport(
+      descendants.map((issue) => ({ issue, intervals: timelines.get(issue.id)! })),
+      new Date(options.from ?? epic.createdAt),
+      new Date(options.to ?? Date.now())
+    )
   }
 
   /**
-   * Remove a label from an issue
+   * Hours each issue spent in each status, up to `until`
    */
-  async removeLabel(issueId: string, label: string): Promise<void> {
-    await this.db
-      .delete(schema.labels)
-      .where(and(eq(schema.labels.issueId, issueId), eq(schema.labels.label, label)))
+  async getTimeInStatus(options: ReportOptions = {}): Promise<TimeInStatusRow[]> {
+    const issues = await this.reportIssues(options)
+    const timelines = await this.loadStatusTimelines(issues)
+    const until = new Date(options.until ?? Date.now())
 
-    await this.db.insert(schema.events).values({
-      issueId,
-      eventType: 'label_removed',
-      actor: 'system',
-      oldValue: label,
-      createdAt: this.now(),
-    })
+    return issues.map((issue) => timeInStatus(issue, timelines.get(issue.id)!, until))
   }
 
   /**
-   * Get labels for an issue
+   * Open, in-progress and blocked issues, recent closes and remaining
+   * estimates per assignee. Unassigned issues are grouped under null.
    */
-  async getLabels(issueId: string): Promise<string[]> {
-    const result = await this.db
-      .select()
-      .from(schema.labels)
-      .where(eq(schema.labels.issueId, issueId))
+  async getAssigneeLoad(options: AssigneeLoadOptions = {}): Promise<AssigneeLoad[]> {
+    const issues = await this.reportIssues(options)
+    const blocked = await this.db.select().from(schema.blockedIssuesCache)
+    const since = new Date(options.since ?? Date.now() - 28 * 24 * 60 * 60 * 1000)
 
-    return result.map((l) => l.label)
+    return assigneeLoadReport(issues, new Set(blocked.map((b) => b.issueId)), since)
   }
 
   // ===========================================================================
-  // Comments
+  // Forecasting
   // ===========================================================================
 
   /**
-   * Add a comment to an issue
+   * Forecast when an epic will land: the critical path through its open
+   * descendants (via `parent-child`, at any depth, including those under
+   * closed children) and a schedule of them
+   * across `assignees`, with projected start and finish days per issue.
+   *
+   * Issues without `estimatedMinutes` are listed in `unestimated`; open
+   * blockers outside the epic are reported per issue but not scheduled.
+   *
+   * @throws NotFoundError if the epic does not exist
+   * @throws ValidationError if `hoursPerDay`, `startDate` or `workdays` is invalid
    */
-  async addComment(issueId: string, text: string, author: string): Promise<Comment> {
-    const now = this.now()
-
-    const result = await this.db.insert(schema.comments).values({
-      issueId,
-      text,
-      author,
-      createdAt: now,
-    }).returning()
+  async forecast(epicId: string, options: ForecastOptions = {}): Promise<Forecast> {
+    const epic = await this.requireIssue(epicId)
+
+    // Closed children stay in scope so open work under them is still found;
+    // scheduleForecast only schedules open issues
+    const issues = [epic, ...await this.getTransitiveDependents(epicId, { types: ['parent-child'], includeClosed: true })]
+    const ids = new Set(issues.map((i) => i.id))
+
+    const edges: Dependency[] = []
+    for (let i = 0; i < issues.length; i += 500) {
+      edges.push(...await this.db
+        .select()
+        .from(schema.dependencies)
+        .where(and(
+          inArray(schema.dependencies.issueId, issues.slice(i, i + 500).map((issue) => issue.id)),
+          inArray(schema.dependencies.type, ['blocks', 'parent-child'])
+        )))
+    }
 
-    await this.db.insert(schema.events).values({
-      issueId,
-      eventType: 'commented',
-      actor: author,
-      comment: text,
-      createdAt: now,
+    // Blockers outside the epic only matter while open
+    const outside = await this.loadIssues(edges.filter((e) => !ids.has(e.dependsOnId)).map((e) => e.dependsOnId))
+    const relevant = edges.filter((e) => {
+      if (ids.has(e.dependsOnId)) return true
+      const blocker = outside.get(e.dependsOnId)
+      return e.type === 'blocks' && blocker !== undefined && blocker.status !== 'closed'
     })
 
-    return result[0]
-  }
+    const assignees = options.assignees ?? [...new Set(issues
+      .filter((i) => i.status !== 'closed' && i.assignee)
+      .map((i) => i.assignee!))].sort()
 
-  /**
-   * Get comments for an issue
-   */
-  async getComments(issueId: string): Promise<Comment[]> {
-    return this.db
-      .select()
-      .from(schema.comments)
-      .where(eq(schema.comments.issueId, issueId))
-      .orderBy(asc(schema.comments.createdAt))
+    return scheduleForecast(issues, relevant, {
+      assignees: assignees.length > 0 ? assignees : ['unassigned'],
+      hoursPerDay: options.hoursPerDay ?? 6,
+      startDate: new Date(options.startDate ?? Date.now()),
+      workdays: options.workdays,
+      defaultEstimateMinutes: options.defaultEstimateMinutes,
+    })
   }
 
   // ===========================================================================
@@ -658,7 +3857,14 @@ export class BeadsAdapter {
       .where(isNull(schema.issues.deletedAt))
       .groupBy(schema.issues.status)
 
-    const ready = await this.getReadyIssues()
+    const ready = await this.db
+      .select({ count: sql<number>`count(*)` })
+      .from(schema.issues)
+      .where(and(
+        eq(schema.issues.status, 'open'),
+        isNull(schema.issues.deletedAt),
+        notInArray(schema.issues.id, this.db.select().from(schema.blockedIssuesCache))
+      ))
 
     const statusMap = new Map(byStatus.map((s) => [s.status, s.count]))
 
@@ -668,7 +3874,7 @@ export class BeadsAdapter {
       inProgress: statusMap.get('in_progress') || 0,
       blocked: statusMap.get('blocked') || 0,
       closed: statusMap.get('closed') || 0,
-      ready: ready.length,
+      ready: ready[0]?.count || 0,
     }
   }
 }
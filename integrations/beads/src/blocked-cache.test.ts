@@ -0,0 +1,179 @@
+import { join } from 'node:path'
+import Database from 'better-sqlite3'
+import { describe, expect, it } from 'vitest'
+import type { BeadsAdapter } from './adapter.js'
+import { openTestBeads, testDir } from './test-utils.js'
+
+async function blockedIds(beads: BeadsAdapter): Promise<string[]> {
+  return (await beads.getBlockedIssues()).map((i) => i.id).sort()
+}
+
+/**
+ * Cache contents, then what a full rebuild makes of it
+ */
+async function cacheAndRebuilt(beads: BeadsAdapter): Promise<[string[], string[]]> {
+  const cached = await blockedIds(beads)
+  await beads.rebuildBlockedCache()
+  return [cached, await blockedIds(beads)]
+}
+
+describe('blocked cache', () => {
+  it('tracks blockers opening and closing', async () => {
+    const beads = openTestBeads()
+    const blocker = await beads.createIssue({ title: 'Blocker' })
+    const blocked = await beads.createIssue({ title: 'Blocked' })
+    await beads.addDependency(blocked.id, blocker.id, 'blocks')
+
+    expect(await blockedIds(beads)).toEqual([blocked.id])
+    expect((await beads.getReadyIssues()).map((i) => i.id)).toEqual([blocker.id])
+
+    await beads.closeIssue(blocker.id)
+    expect(await blockedIds(beads)).toEqual([])
+
+    await beads.reopenIssue(blocker.id)
+    expect(await blockedIds(beads)).toEqual([blocked.id])
+
+    await beads.deleteIssue(blocker.id)
+    expect(await blockedIds(beads)).toEqual([])
+
+    await beads.restoreIssue(blocker.id)
+    expect(await blockedIds(beads)).toEqual([blocked.id])
+
+    await beads.removeDependency(blocked.id, blocker.id)
+    expect(await blockedIds(beads)).toEqual([])
+  })
+
+  it('passes blocks down parent-child links, through closed parents', async () => {
+    const beads = openTestBeads()
+    const blocker = await beads.createIssue({ title: 'Blocker' })
+    const epic = await beads.createIssue({ title: 'Epic', issueType: 'epic' })
+    const feature = await beads.createIssue({ title: 'Feature', parentId: epic.id })
+    const task = await beads.createIssue({ title: 'Task', parentId: feature.id })
+    const other = await beads.createIssue({ title: 'Other' })
+
+    await beads.addDependency(epic.id, blocker.id, 'blocks')
+    expect(await blockedIds(beads)).toEqual([epic.id, feature.id, task.id].sort())
+
+    await beads.updateIssue(feature.id, { status: 'closed' })
+    expect(await blockedIds(beads)).toEqual([epic.id, task.id].sort())
+
+    await beads.closeIssue(blocker.id)
+    expect(await blockedIds(beads)).toEqual([])
+
+    await beads.reopenIssue(blocker.id)
+    await beads.addDependency(other.id, task.id, 'blocks')
+    expect(await blockedIds(beads)).toEqual([epic.id, task.id, other.id].sort())
+  })
+
+  it('matches a full rebuild after every kind of change', async () => {
+    const beads = openTestBeads()
+    const ids: string[] = []
+    for (let i = 0; i < 12; i++) ids.push((await beads.createIssue({ title: `Issue ${i}` })).id)
+
+    // Deterministic pseudo-random sequence
+    let seed = 7
+    const next = (n: number) => (seed = (seed * 1103515245 + 12345) % 2 ** 31) % n
+
+    for (let step = 0; step < 150; step++) {
+      const [a, b] = [ids[next(ids.length)], ids[next(ids.length)]]
+      const issue = await beads.getIssue(a)
+
+      try {
+        switch (next(6)) {
+          case 0: await beads.addDependency(a, b, 'blocks'); break
+          case 1: await beads.addDependency(a, b, 'parent-child'); break
+          case 2: await beads.removeDependency(a, b); break
+          case 3:
+            if (issue?.status === 'closed') await beads.reopenIssue(a)
+            else if (issue) await beads.closeIssue(a)
+            break
+          case 4:
+            if (issue) await beads.deleteIssue(a)
+            else await beads.restoreIssue(a)
+            break
+          case 5: await beads.updateIssue(a, { status: issue?.status === 'blocked' ? 'open' : 'blocked' }); break
+        }
+      } catch (err) {
+        // Cycles, duplicate links and changes to deleted issues are rejected
+        if (!(err instanceof Error && 'code' in err)) throw err
+      }
+
+      const [cached, rebuilt] = await cacheAndRebuilt(beads)
+      expect(cached, `after step ${step}`).toEqual(rebuilt)
+    }
+  })
+})
+
+describe('blocked cache on a large database', () => {
+  const ISSUES = 20_000
+
+  /**
+   * Write a generated project straight to the database: epics of 20
+   * children, a third of the issues blocked by an earlier one, 40% closed
+   */
+  function generate(dbPath: string): void {
+    const sqlite = new Database(dbPath)
+    const now = '2026-01-01T00:00:00.000Z'
+    const insertIssue = sqlite.prepare(`INSERT INTO issues (id, title, status, priority, issue_type, assignee, created_at, updated_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)`)
+    const insertDependency = sqlite.prepare(`INSERT OR IGNORE INTO dependencies (issue_id, depends_on_id, type, created_at, created_by)
+      VALUES (?, ?, ?, ?, 'generator')`)
+
+    sqlite.transaction(() => {
+      for (let i = 0; i < ISSUES; i++) {
+        const epic = i % 21 === 0
+        insertIssue.run(
+          `bd-${i}`,
+          `Issue ${i}`,
+          i % 5 < 2 ? 'closed' : 'open',
+          i % 4,
+          epic ? 'epic' : 'task',
+          i % 3 === 0 ? `agent-${i % 10}` : null,
+          now,
+          now
+        )
+        if (!epic) insertDependency.run(`bd-${i}`, `bd-${i - (i % 21)}`, 'parent-child', now)
+        if (i % 3 === 1 && i > 50) insertDependency.run(`bd-${i}`, `bd-${i - 1 - ((i * 7919) % 50)}`, 'blocks', now)
+      }
+    })()
+    sqlite.close()
+  }
+
+  it('answers ready queries and updates the cache quickly', { timeout: 120_000 }, async () => {
+    const dir = testDir()
+    openTestBeads({}, dir).close()
+    generate(join(dir, 'beads.db'))
+
+    const beads = openTestBeads({}, dir)
+    await beads.rebuildBlockedCache()
+
+    const time = async <T>(fn: () => Promise<T>): Promise<[T, number]> => {
+      const start = performance.now()
+      const result = await fn()
+      return [result, performance.now() - start]
+    }
+
+    const [ready, readyMs] = await time(() => beads.getReadyIssues({ limit: 20 }))
+    const [filtered, filteredMs] = await time(() => beads.getReadyIssues({ assignee: 'agent-3', priority: [0, 1], limit: 20 }))
+    const [stats, statsMs] = await time(() => beads.getStats())
+
+    expect(ready).toHaveLength(20)
+    expect(filtered.every((i) => i.assignee === 'agent-3' && i.priority <= 1)).toBe(true)
+    expect(stats.total).toBe(ISSUES)
+    expect(stats.ready).toBeGreaterThan(0)
+
+    // A blocker closing only recomputes the issues under it
+    const blocked = (await beads.getBlockedIssues()).find((i) => i.blockedByCount > 0)!
+    const [dependency] = (await beads.getDependencies(blocked.id)).filter((d) => d.type === 'blocks')
+    const [, closeMs] = await time(() => beads.closeIssue(dependency.dependsOnId))
+    const cached = await blockedIds(beads)
+    await beads.rebuildBlockedCache()
+    expect(cached).toEqual(await blockedIds(beads))
+
+    // Generous bounds, for slow CI machines
+    expect(readyMs).toBeLessThan(250)
+    expect(filteredMs).toBeLessThan(250)
+    expect(statsMs).toBeLessThan(500)
+    expect(closeMs).toBeLessThan(250)
+  })
+})
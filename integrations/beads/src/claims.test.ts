@@ -0,0 +1,131 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { InvalidTransitionError } from './errors.js'
+import { requireFields } from './workflow.js'
+import { openTestBeads } from './test-utils.js'
+
+afterEach(() => {
+  vi.useRealTimers()
+})
+
+describe('claimNextReady', () => {
+  it('claims the highest-priority ready issue with a lease', async () => {
+    const beads = openTestBeads()
+    await beads.createIssue({ title: 'Later', priority: 3 })
+    const urgent = await beads.createIssue({ title: 'Urgent', priority: 0 })
+
+    const claim = await beads.claimNextReady({ agent: 'agent-1', leaseMinutes: 10 })
+
+    expect(claim?.issue).toMatchObject({ id: urgent.id, status: 'in_progress', assignee: 'agent-1' })
+    expect(await beads.getLease(urgent.id)).toMatchObject({ agent: 'agent-1' })
+    expect((await beads.getHistory(urgent.id)).map((e) => e.eventType)).toContain('claimed')
+  })
+
+  it('never hands the same issue to two agents', async () => {
+    const beads = openTestBeads()
+    await beads.createIssue({ title: 'One' })
+    await beads.createIssue({ title: 'Two' })
+
+    const claims = await Promise.all(['a', 'b', 'c'].map((agent) => beads.claimNextReady({ agent })))
+    const ids = claims.filter((c) => c !== undefined).map((c) => c.issue.id)
+
+    expect(ids).toHaveLength(2)
+    expect(new Set(ids).size).toBe(2)
+    expect(claims.filter((c) => c === undefined)).toHaveLength(1)
+  })
+
+  it('skips issues the workflow rejects and claims the next one', async () => {
+    const beads = openTestBeads({
+      workflow: { guards: [requireFields({ issueType: 'bug', to: 'in_progress', fields: ['acceptanceCriteria'] })] },
+    })
+    const bug = await beads.createIssue({ title: 'Vague bug', issueType: 'bug', priority: 0 })
+    const task = await beads.createIssue({ title: 'Clear task', priority: 1 })
+
+    const first = await beads.claimNextReady({ agent: 'agent-1' })
+    expect(first?.issue.id).toBe(task.id)
+    expect(await beads.getLease(bug.id)).toBeUndefined()
+    expect((await beads.getIssue(bug.id))?.status).toBe('open')
+
+    // Nothing else claimable
+    expect(await beads.claimNextReady({ agent: 'agent-2' })).toBeUndefined()
+  })
+
+  it('looks past a long run of rejected issues', async () => {
+    const beads = openTestBeads({
+      workflow: { transitions: { bug: { open: ['closed'] } } },
+    })
+    for (let i = 0; i < 25; i++) await beads.createIssue({ title: `Bug ${i}`, issueType: 'bug', priority: 0 })
+    const task = await beads.createIssue({ title: 'Task', priority: 3 })
+
+    expect((await beads.claimNextReady({ agent: 'agent-1' }))?.issue.id).toBe(task.id)
+  })
+})
+
+describe('leases', () => {
+  it('extends a live lease on heartbeat', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] })
+    vi.setSystemTime(new Date('2026-03-01T10:00:00Z'))
+    const beads = openTestBeads()
+    const issue = await beads.createIssue({ title: 'Work' })
+    await beads.claimNextReady({ agent: 'agent-1', leaseMinutes: 10 })
+
+    vi.setSystemTime(new Date('2026-03-01T10:05:00Z'))
+    const lease = await beads.heartbeat(issue.id, 'agent-1', 10)
+
+    expect(lease?.expiresAt).toBe('2026-03-01T10:15:00.000Z')
+    expect(await beads.heartbeat(issue.id, 'agent-2')).toBeUndefined()
+  })
+
+  it('returns issues of expired leases to the pool', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] })
+    vi.setSystemTime(new Date('2026-03-01T10:00:00Z'))
+    const beads = openTestBeads()
+    const issue = await beads.createIssue({ title: 'Work' })
+    await beads.claimNextReady({ agent: 'agent-1', leaseMinutes: 10 })
+
+    vi.setSystemTime(new Date('2026-03-01T10:11:00Z'))
+    expect(await beads.heartbeat(issue.id, 'agent-1')).toBeUndefined()
+    expect(await beads.getIssue(issue.id)).toMatchObject({ status: 'open', assignee: null })
+    expect((await beads.getHistory(issue.id)).map((e) => e.eventType)).toContain('lease_expired')
+
+    expect((await beads.claimNextReady({ agent: 'agent-2' }))?.issue.id).toBe(issue.id)
+  })
+
+  it('expires leases even when the workflow forbids going back to open', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] })
+    vi.setSystemTime(new Date('2026-03-01T10:00:00Z'))
+    const beads = openTestBeads({
+      workflow: { transitions: { '*': { open: ['in_progress'], in_progress: ['closed'], closed: [] } } },
+    })
+    const issue = await beads.createIssue({ title: 'Work' })
+    await beads.claimNextReady({ agent: 'agent-1', leaseMinutes: 10 })
+
+    await expect(beads.release(issue.id, 'agent-1')).rejects.toThrow(InvalidTransitionError)
+    expect(await beads.getLease(issue.id)).toBeDefined()
+
+    vi.setSystemTime(new Date('2026-03-01T10:11:00Z'))
+    expect(await beads.expireLeases()).toEqual([issue.id])
+    expect(await beads.getIssue(issue.id)).toMatchObject({ status: 'open', assignee: null })
+    expect(await beads.listLeases()).toEqual([])
+  })
+
+  it('releases a claim back to open or blocked', async () => {
+    const beads = openTestBeads()
+    const issue = await beads.createIssue({ title: 'Work' })
+    await beads.claimNextReady({ agent: 'agent-1' })
+
+    expect(await beads.release(issue.id, 'agent-2')).toBe(false)
+    expect(await beads.release(issue.id, 'agent-1', { status: 'blocked', reason: 'waiting on API keys' })).toBe(true)
+    expect(await beads.getIssue(issue.id)).toMatchObject({ status: 'blocked', assignee: null })
+    expect(await beads.getLease(issue.id)).toBeUndefined()
+  })
+
+  it('drops the lease when the issue is closed', async () => {
+    const beads = openTestBeads()
+    const issue = await beads.createIssue({ title: 'Work' })
+    await beads.claimNextReady({ agent: 'agent-1' })
+
+    await beads.as('agent-1').closeIssue(issue.id, 'done')
+
+    expect(await beads.listLeases('agent-1')).toEqual([])
+  })
+})
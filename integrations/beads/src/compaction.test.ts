@@ -0,0 +1,113 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { measureIssueSize, normalizeSummary } from './compaction.js'
+import type { CompactionInput } from './compaction.js'
+import { openTestBeads } from './test-utils.js'
+
+afterEach(() => {
+  vi.useRealTimers()
+})
+
+describe('helpers', () => {
+  it('measures text and comments in UTF-8 bytes', () => {
+    const issue = { description: 'héllo', design: 'ab', notes: '', acceptanceCriteria: 'c' }
+
+    expect(measureIssueSize(issue, [{ text: 'four' }])).toBe(6 + 2 + 1 + 4)
+  })
+
+  it('treats a string summary as the description', () => {
+    expect(normalizeSummary('Short')).toEqual({ description: 'Short', design: '', notes: '' })
+    expect(normalizeSummary({ description: 'D', notes: 'N' })).toEqual({ description: 'D', design: '', notes: 'N' })
+  })
+})
+
+describe('compactIssues', () => {
+  /**
+   * Two issues closed on 2026-01-01 and one still open, read on 2026-03-01
+   */
+  async function closedIssues() {
+    vi.useFakeTimers({ toFake: ['Date'] })
+    vi.setSystemTime(new Date('2026-01-01T00:00:00Z'))
+    const beads = openTestBeads()
+    const big = await beads.createIssue({ title: 'Big', description: 'x'.repeat(500), notes: 'Long notes', acceptanceCriteria: 'Works' })
+    const small = await beads.createIssue({ title: 'Small', description: 'tiny' })
+    const open = await beads.createIssue({ title: 'Open', description: 'y'.repeat(500) })
+    await beads.addComment(big.id, 'Discussion')
+    await beads.closeIssue(big.id)
+    await beads.closeIssue(small.id)
+
+    vi.setSystemTime(new Date('2026-03-01T00:00:00Z'))
+    return { beads, big, small, open }
+  }
+
+  it('finds old, large closed issues, largest first', async () => {
+    const { beads, big, small } = await closedIssues()
+
+    expect((await beads.findCompactionCandidates()).map((c) => c.issue.id)).toEqual([big.id, small.id])
+    expect((await beads.findCompactionCandidates({ minSize: 100 })).map((c) => c.issue.id)).toEqual([big.id])
+    expect(await beads.findCompactionCandidates({ olderThanDays: 90 })).toEqual([])
+  })
+
+  it('replaces the text with the summary and keeps a snapshot', async () => {
+    const { beads, big } = await closedIssues()
+    const inputs: CompactionInput[] = []
+
+    const [result] = await beads.compactIssues({
+      minSize: 100,
+      summarize: (input) => {
+        inputs.push(input)
+        return { description: 'Summary', notes: 'Kept short' }
+      },
+    })
+
+    expect(inputs.map((i) => [i.issue.id, i.level, i.comments.map((c) => c.text)])).toEqual([[big.id, 1, ['Discussion']]])
+    expect(result).toEqual({ id: big.id, originalSize: 525, compactedSize: 32, level: 1, dryRun: false })
+    expect(await beads.getIssue(big.id)).toMatchObject({
+      description: 'Summary',
+      notes: 'Kept short',
+      acceptanceCriteria: 'Works',
+      compactionLevel: 1,
+      originalSize: 525,
+    })
+    expect((await beads.getComments(big.id)).map((c) => c.text)).toEqual(['Discussion'])
+
+    const [snapshot] = await beads.getSnapshots(big.id)
+    expect(snapshot.content).toMatchObject({ description: 'x'.repeat(500), notes: 'Long notes' })
+
+    // The history still shows the original text
+    expect((await beads.getIssueAt(big.id, '2026-02-01T00:00:00Z'))?.description).toBe('x'.repeat(500))
+  })
+
+  it('only lists candidates in a dry run', async () => {
+    const { beads, big } = await closedIssues()
+    const summarize = vi.fn(() => 'never')
+
+    expect(await beads.compactIssues({ ids: [big.id], summarize, dryRun: true }))
+      .toEqual([{ id: big.id, originalSize: 525, compactedSize: 525, level: 1, dryRun: true }])
+    expect(summarize).not.toHaveBeenCalled()
+    expect((await beads.getIssue(big.id))?.compactionLevel).toBe(0)
+  })
+
+  it('skips an issue reopened or compacted while it was being summarized', async () => {
+    const { beads, big, small } = await closedIssues()
+
+    const results = await beads.compactIssues({
+      ids: [big.id, small.id],
+      summarize: async ({ issue }) => {
+        if (issue.id === big.id) await beads.reopenIssue(big.id)
+        else await beads.compactIssues({ ids: [small.id], summarize: () => 'First pass' })
+        return 'Stale'
+      },
+    })
+
+    expect(results).toEqual([])
+    expect(await beads.getIssue(big.id)).toMatchObject({ status: 'open', description: 'x'.repeat(500), compactionLevel: 0 })
+    expect(await beads.getIssue(small.id)).toMatchObject({ description: 'First pass', compactionLevel: 1 })
+    expect((await beads.getIssue(small.id))?.updatedAt).toBe('2026-03-01T00:00:00.000Z')
+  })
+
+  it('skips issues that are not closed', async () => {
+    const { beads, open } = await closedIssues()
+
+    expect(await beads.compactIssues({ ids: [open.id], summarize: () => 'x' })).toEqual([])
+  })
+})
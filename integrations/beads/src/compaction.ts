@@ -0,0 +1,103 @@
+/**
+ * Beads Compaction - Summarize old closed issues to save context
+ *
+ * Compaction replaces the long-form text of a closed issue with a summary
+ * produced by a caller-supplied summarizer (typically an LLM call), keeping
+ * the original text in `issue_snapshots` when requested.
+ *
+ * @packageDocumentation
+ */
+
+import type { Issue, Comment } from './schema.js'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * Content handed to a summarizer
+ */
+export interface CompactionInput {
+  issue: Issue
+  description: string
+  design: string
+  notes: string
+  comments: Comment[]
+  /** Compaction level the issue will have after this pass */
+  level: number
+}
+
+/**
+ * Summarizer output. Fields left out are cleared; acceptance criteria and
+ * comments are never touched.
+ */
+export interface CompactionSummary {
+  description: string
+  design?: string
+  notes?: string
+}
+
+/**
+ * Caller-supplied summarizer. Returning a string is shorthand for
+ * `{ description }`.
+ */
+export type Summarizer = (input: CompactionInput) => Promise<CompactionSummary | string> | CompactionSummary | string
+
+/**
+ * Content stored in a snapshot's `original_content`
+ */
+export interface SnapshotContent {
+  description: string
+  design: string
+  notes: string
+  acceptanceCriteria: string
+  comments: Array<Pick<Comment, 'author' | 'text' | 'createdAt'>>
+}
+
+/**
+ * DDL for `issue_snapshots`, matching the table created by `bd`
+ */
+export const SNAPSHOT_TABLE_DDL = `
+  CREATE TABLE IF NOT EXISTS issue_snapshots (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    issue_id TEXT NOT NULL REFERENCES issues(id) ON DELETE CASCADE,
+    snapshot_time TEXT NOT NULL,
+    compaction_level INTEGER NOT NULL,
+    original_size INTEGER NOT NULL,
+    compressed_size INTEGER NOT NULL,
+    original_content TEXT NOT NULL,
+    archived_events TEXT
+  );
+  CREATE INDEX IF NOT EXISTS idx_snapshots_issue ON issue_snapshots(issue_id);
+  CREATE INDEX IF NOT EXISTS idx_snapshots_level ON issue_snapshots(compaction_level);
+`
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/**
+ * Size in bytes (UTF-8) of an issue's long-form text and comments
+ */
+export function measureIssueSize(
+  issue: Pick<Issue, 'description' | 'design' | 'notes' | 'acceptanceCriteria'>,
+  comments: Array<Pick<Comment, 'text'>> = []
+): number {
+  const parts = [issue.description, issue.design, issue.notes, issue.acceptanceCriteria, ...comments.map((c) => c.text)]
+  return parts.reduce((total, part) => total + Buffer.byteLength(part ?? '', 'utf8'), 0)
+}
+
+/**
+ * Normalize summarizer output to a full summary
+ */
+export function normalizeSummary(summary: CompactionSummary | string): Required<CompactionSummary> {
+  if (typeof summary === 'string') {
+    return { description: summary, design: '', notes: '' }
+  }
+
+  return {
+    description: summary.description,
+    design: summary.design ?? '',
+    notes: summary.notes ?? '',
+  }
+}
@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest'
+import { parseSettings } from './config.js'
+import { ValidationError } from './errors.js'
+import { openTestBeads } from './test-utils.js'
+
+describe('parseSettings', () => {
+  it('uses defaults for missing and invalid values', () => {
+    expect(parseSettings(new Map([['default_priority', '1'], ['id_hash_length', '99']]))).toMatchObject({
+      defaultPriority: 1,
+      idHashLength: 4,
+      issuePrefix: 'bd',
+    })
+  })
+})
+
+describe('settings', () => {
+  it('writes only the given settings', async () => {
+    const beads = openTestBeads()
+
+    expect(await beads.updateSettings({ defaultPriority: 0, defaultAssignee: 'alice' })).toMatchObject({
+      defaultPriority: 0,
+      defaultAssignee: 'alice',
+      autoCloseParents: false,
+    })
+    expect(await beads.listConfig()).toEqual({ default_assignee: 'alice', default_priority: '0' })
+    expect(await beads.createIssue({ title: 'Defaults' })).toMatchObject({ priority: 0, assignee: 'alice' })
+  })
+
+  it('rejects unknown names and invalid values without writing anything', async () => {
+    const beads = openTestBeads()
+
+    const unknown = beads.updateSettings({ defaultPriority: 1, prefix: 'x', toString: 'y' } as never)
+    await expect(unknown).rejects.toThrow(ValidationError)
+    await expect(unknown).rejects.toMatchObject({
+      issues: [
+        { path: 'prefix', message: 'is not a known setting' },
+        { path: 'toString', message: 'is not a known setting' },
+      ],
+    })
+
+    await expect(beads.updateSettings({ defaultPriority: 1, idHashLength: 12 })).rejects.toThrow(ValidationError)
+    expect(await beads.listConfig()).toEqual({})
+  })
+
+  it('allows bd\'s own and namespaced config keys only', async () => {
+    const beads = openTestBeads()
+
+    await beads.setConfig('github.repo', 'acme/app')
+    await beads.setConfig('compact_tier1_days', '30')
+    expect(await beads.getConfig('compact_tier1_days')).toBe('30')
+    await expect(beads.setConfig('whatever', 'x')).rejects.toThrow(ValidationError)
+    await expect(beads.setConfig('default_priority', 'high')).rejects.toThrow(ValidationError)
+
+    expect(await beads.listConfig('github')).toEqual({ 'github.repo': 'acme/app' })
+    expect(await beads.unsetConfig('github.repo')).toBe(true)
+    expect(await beads.unsetConfig('github.repo')).toBe(false)
+  })
+})
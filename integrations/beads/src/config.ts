@@ -0,0 +1,225 @@
+/**
+ * Beads Config - Typed settings over the `config` table
+ *
+ * The `config` table holds string key/value pairs shared with the `bd`
+ * CLI. Known settings (issue prefix, defaults for new issues, parent
+ * policies) are parsed and validated here; `bd`'s own keys are passed
+ * through as they are, and integrations keep their own values under
+ * namespaced keys such as `github.repo` or `linear.team_id`.
+ *
+ * @packageDocumentation
+ */
+
+import { IssueType, Priority } from './schema.js'
+import { ValidationError } from './errors.js'
+import type { IssueTypeValue, PriorityValue } from './schema.js'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * Project settings, with defaults filled in
+ */
+export interface BeadsSettings {
+  /** Prefix of new issue IDs, e.g. `bd` for `bd-a1b2` */
+  issuePrefix: string
+  /** Base-36 characters in the hash of new issue IDs before collisions lengthen it (4-8) */
+  idHashLength: number
+  /** Priority of issues created without one */
+  defaultPriority: PriorityValue
+  /** Type of issues created without one */
+  defaultIssueType: IssueTypeValue
+  /** Assignee of issues created without one; null leaves them unassigned */
+  defaultAssignee: string | null
+  /** Close a parent (via `parent-child`) when its last open child closes */
+  autoCloseParents: boolean
+  /** Reopen a closed parent when one of its children reopens */
+  autoReopenParents: boolean
+}
+
+export type SettingName = keyof BeadsSettings
+
+interface SettingDefinition<T> {
+  /** Key in the `config` table */
+  key: string
+  defaultValue: T
+  /** Parse and validate a stored value, throwing on invalid input */
+  parse(value: string): T
+  format(value: T): string
+}
+
+// =============================================================================
+// Settings
+// =============================================================================
+
+/**
+ * Parse an integer in a range
+ */
+function integerIn(name: string, min: number, max: number) {
+  return (value: string): number => {
+    const number = Number(value)
+    if (!Number.isInteger(number) || number < min || number > max) {
+      throw new Error(`Invalid ${name} "${value}": expected a whole number from ${min} to ${max}`)
+    }
+    return number
+  }
+}
+
+/**
+ * Parse `true` or `false`
+ */
+function boolean(name: string) {
+  return (value: string): boolean => {
+    if (value !== 'true' && value !== 'false') {
+      throw new Error(`Invalid ${name} "${value}": expected true or false`)
+    }
+    return value === 'true'
+  }
+}
+
+/**
+ * Definitions of the known settings
+ */
+export const SETTINGS: { [K in SettingName]: SettingDefinition<BeadsSettings[K]> } = {
+  issuePrefix: {
+    key: 'issue_prefix',
+    defaultValue: 'bd',
+    parse: (value) => {
+      if (!/^[A-Za-z]([A-Za-z0-9_-]*[A-Za-z0-9_])?$/.test(value)) {
+        throw new Error(`Invalid issue prefix "${value}": use letters, digits, hyphens and underscores, starting with a letter`)
+      }
+      return value
+    },
+    format: String,
+  },
+  idHashLength: {
+    key: 'id_hash_length',
+    defaultValue: 4,
+    parse: integerIn('ID hash length', 4, 8),
+    format: String,
+  },
+  defaultPriority: {
+    key: 'default_priority',
+    defaultValue: Priority.normal,
+    parse: (value) => integerIn('default priority', 0, 3)(value) as PriorityValue,
+    format: String,
+  },
+  defaultIssueType: {
+    key: 'default_issue_type',
+    defaultValue: IssueType.task,
+    parse: (value) => {
+      const types: string[] = Object.values(IssueType)
+      if (!types.includes(value)) {
+        throw new Error(`Invalid default issue type "${value}": expected one of ${types.join(', ')}`)
+      }
+      return value as IssueTypeValue
+    },
+    format: String,
+  },
+  defaultAssignee: {
+    key: 'default_assignee',
+    defaultValue: null,
+    parse: (value) => value || null,
+    format: (value) => value ?? '',
+  },
+  autoCloseParents: {
+    key: 'auto_close_parents',
+    defaultValue: false,
+    parse: boolean('auto close parents'),
+    format: String,
+  },
+  autoReopenParents: {
+    key: 'auto_reopen_parents',
+    defaultValue: false,
+    parse: boolean('auto reopen parents'),
+    format: String,
+  },
+}
+
+/**
+ * Un-namespaced keys `bd` reads itself, written as they are; `bd` checks
+ * their values
+ */
+export const BD_CONFIG_KEYS: readonly string[] = [
+  'auto_compact_enabled',
+  'compact_batch_size',
+  'compact_model',
+  'compact_parallel_workers',
+  'compact_tier1_days',
+  'compact_tier1_dep_levels',
+  'compact_tier2_commits',
+  'compact_tier2_days',
+  'compact_tier2_dep_levels',
+  'compaction_enabled',
+  'max_collision_prob',
+  'max_hash_length',
+  'min_hash_length',
+]
+
+const NAMESPACED_KEY = /^[a-z][a-z0-9_-]*(\.[a-z0-9_-]+)+$/
+
+/**
+ * The setting stored under a `config` key, if any
+ */
+export function settingForKey(key: string): SettingName | undefined {
+  return (Object.keys(SETTINGS) as SettingName[]).find((name) => SETTINGS[name].key === key)
+}
+
+/**
+ * Check that a key may be written: a known setting, one of `bd`'s own
+ * keys, or namespaced (`<integration>.<name>`, lowercase)
+ */
+export function validateConfigKey(key: string): void {
+  if (!settingForKey(key) && !BD_CONFIG_KEYS.includes(key) && !NAMESPACED_KEY.test(key)) {
+    throw new ValidationError(
+      [{ path: 'key', message: 'is not a known setting, a bd key or a namespaced key' }],
+      `Unknown config key "${key}": use a known setting ` +
+        `(${Object.values(SETTINGS).map((s) => s.key).join(', ')}), a key bd reads ` +
+        `(${BD_CONFIG_KEYS.join(', ')}) or a namespaced key such as "github.repo"`
+    )
+  }
+}
+
+/**
+ * Check that every name in a settings object is a known setting
+ */
+export function validateSettingNames(settings: object): void {
+  const unknown = Object.keys(settings).filter((name) => !Object.hasOwn(SETTINGS, name))
+  if (unknown.length > 0) {
+    throw new ValidationError(
+      unknown.map((name) => ({ path: name, message: 'is not a known setting' })),
+      `Unknown setting${unknown.length > 1 ? 's' : ''} ${unknown.map((n) => `"${n}"`).join(', ')}: ` +
+        `expected ${Object.keys(SETTINGS).join(', ')}`
+    )
+  }
+}
+
+/**
+ * Build settings from `config` rows, using defaults for missing keys.
+ *
+ * Invalid stored values (e.g. written by hand) fall back to the default
+ * rather than failing every read.
+ */
+export function parseSettings(rows: Map<string, string>): BeadsSettings {
+  const parse = <K extends SettingName>(name: K): BeadsSettings[K] => {
+    const definition = SETTINGS[name]
+    const value = rows.get(definition.key)
+    if (value === undefined) return definition.defaultValue
+    try {
+      return definition.parse(value)
+    } catch {
+      return definition.defaultValue
+    }
+  }
+
+  return {
+    issuePrefix: parse('issuePrefix'),
+    idHashLength: parse('idHashLength'),
+    defaultPriority: parse('defaultPriority'),
+    defaultIssueType: parse('defaultIssueType'),
+    defaultAssignee: parse('defaultAssignee'),
+    autoCloseParents: parse('autoCloseParents'),
+    autoReopenParents: parse('autoReopenParents'),
+  }
+}
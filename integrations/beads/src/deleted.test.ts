@@ -0,0 +1,77 @@
+import { readFileSync } from 'node:fs'
+import { join } from 'node:path'
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { NotFoundError } from './errors.js'
+import { parseJsonl } from './jsonl.js'
+import { openTestBeads, testDir } from './test-utils.js'
+
+afterEach(() => {
+  vi.useRealTimers()
+})
+
+describe('deleting and restoring', () => {
+  it('hides deleted issues and brings them back whole', async () => {
+    const beads = openTestBeads()
+    const blocker = await beads.createIssue({ title: 'Blocker', issueType: 'bug', labels: ['ui'] })
+    const blocked = await beads.createIssue({ title: 'Blocked' })
+    await beads.addDependency(blocked.id, blocker.id)
+    await beads.addComment(blocker.id, 'Keep me')
+
+    expect(await beads.deleteIssue(blocker.id, 'Not needed', { actor: 'bob' })).toBe(true)
+    expect(await beads.deleteIssue(blocker.id)).toBe(false)
+
+    expect(await beads.getIssue(blocker.id)).toBeUndefined()
+    expect(await beads.getDeletedIssue(blocker.id)).toMatchObject({ deletedBy: 'bob', deleteReason: 'Not needed' })
+    expect((await beads.listIssues()).map((i) => i.id)).toEqual([blocked.id])
+    expect((await beads.getReadyIssues()).map((i) => i.id)).toEqual([blocked.id])
+
+    const restored = await beads.restoreIssue(blocker.id)
+    expect(restored).toMatchObject({ issueType: 'bug', deletedAt: null, deleteReason: '' })
+    expect(await beads.getLabels(blocker.id)).toEqual(['ui'])
+    expect((await beads.getComments(blocker.id)).map((c) => c.text)).toEqual(['Keep me'])
+    expect((await beads.getBlockedIssues()).map((i) => i.id)).toEqual([blocked.id])
+
+    await expect(beads.restoreIssue(blocker.id)).rejects.toThrow(NotFoundError)
+  })
+
+  it('exports deleted issues as tombstones', async () => {
+    const dir = testDir()
+    const beads = openTestBeads({}, dir)
+    const issue = await beads.createIssue({ title: 'Gone' })
+    await beads.deleteIssue(issue.id, 'Duplicate')
+
+    const { path } = await beads.exportJsonl({ path: join(dir, 'issues.jsonl'), full: true })
+    expect(parseJsonl(readFileSync(path, 'utf8'))).toEqual([
+      expect.objectContaining({ id: issue.id, deleted_at: expect.any(String), delete_reason: 'Duplicate' }),
+    ])
+  })
+})
+
+describe('purgeDeleted', () => {
+  it('removes deleted issues older than a time, with everything attached', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] })
+    vi.setSystemTime(new Date('2026-03-01T00:00:00Z'))
+    const beads = openTestBeads()
+    const kept = await beads.createIssue({ title: 'Kept' })
+    const old = await beads.createIssue({ title: 'Old', labels: ['x'] })
+    const recent = await beads.createIssue({ title: 'Recent' })
+    await beads.addDependency(kept.id, old.id)
+    await beads.deleteIssue(old.id)
+
+    vi.setSystemTime(new Date('2026-03-10T00:00:00Z'))
+    await beads.deleteIssue(recent.id)
+
+    const olderThan = '2026-03-05T00:00:00Z'
+    expect(await beads.purgeDeleted({ olderThan, dryRun: true })).toEqual([old.id])
+    expect(await beads.getDeletedIssue(old.id)).toBeDefined()
+
+    expect(await beads.purgeDeleted({ olderThan })).toEqual([old.id])
+    expect(await beads.getDeletedIssue(old.id)).toBeUndefined()
+    expect(await beads.getHistory(old.id)).toEqual([])
+    expect(await beads.getDependencies(kept.id)).toEqual([])
+    expect((await beads.listDeleted()).map((i) => i.id)).toEqual([recent.id])
+
+    expect(await beads.purgeDeleted()).toEqual([recent.id])
+    expect(await beads.listDeleted()).toEqual([])
+  })
+})
@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest'
+import { jaccard, shingles, tokenize } from './duplicates.js'
+import { ValidationError } from './errors.js'
+import { openTestBeads } from './test-utils.js'
+
+describe('text normalization', () => {
+  it('drops common words, accents and word endings', () => {
+    expect(tokenize('The failing tests should be fixed')).toEqual(['fail', 'test', 'fix'])
+    expect(tokenize('Café crashed')).toEqual(['cafe', 'crash'])
+    expect(tokenize('Test fails')).toEqual(['test', 'fail'])
+  })
+
+  it('compares sets of shingles', () => {
+    expect([...shingles(['a', 'b', 'c'])]).toEqual(['a b', 'b c'])
+    expect([...shingles(['a'])]).toEqual(['a'])
+    expect(jaccard(new Set(['a', 'b']), new Set(['b', 'c']))).toBeCloseTo(1 / 3)
+    expect(jaccard(new Set(), new Set(['a']))).toBe(0)
+  })
+})
+
+describe('findDuplicates', () => {
+  it('pairs look-alike issues, oldest first', async () => {
+    const beads = openTestBeads()
+    const original = await beads.createIssue({ title: 'Login fails on Safari' })
+    const copy = await beads.createIssue({ title: 'Safari login failing' })
+    await beads.createIssue({ title: 'Add dark mode' })
+
+    const pairs = await beads.findDuplicates()
+    expect(pairs).toHaveLength(1)
+    expect(pairs[0].issues.map((i) => i.id)).toEqual([original.id, copy.id])
+    expect(pairs[0]).toMatchObject({ score: 1, titleScore: 1, textScore: null })
+
+    await beads.closeIssue(original.id)
+    expect(await beads.findDuplicates()).toEqual([])
+    expect(await beads.findDuplicates({ includeClosed: true })).toHaveLength(1)
+    expect(await beads.findDuplicates({ issueId: original.id })).toHaveLength(1)
+  })
+})
+
+describe('mergeIssues', () => {
+  it('moves labels, comments and edges to the target and closes the source', async () => {
+    const beads = openTestBeads()
+    const target = await beads.createIssue({ title: 'Login fails', labels: ['auth'] })
+    const source = await beads.createIssue({ title: 'Cannot log in', labels: ['auth', 'safari'] })
+    const blocker = await beads.createIssue({ title: 'Upgrade library' })
+    const dependent = await beads.createIssue({ title: 'Release' })
+    await beads.addDependency(source.id, blocker.id)
+    await beads.addDependency(dependent.id, source.id)
+    await beads.addDependency(source.id, target.id, 'related')
+    await beads.addComment(source.id, 'Also on mobile')
+
+    const result = await beads.mergeIssues([source.id], target.id)
+
+    expect(result).toMatchObject({ merged: [source.id], labels: 1, comments: 1, dependencies: 2 })
+    expect(result.dropped).toEqual([expect.objectContaining({ issueId: source.id, dependsOnId: target.id })])
+    expect(await beads.getLabels(target.id)).toEqual(['auth', 'safari'])
+    expect((await beads.getComments(target.id)).map((c) => c.text)).toEqual(['Also on mobile'])
+    expect((await beads.getDependencies(target.id)).map((d) => d.dependsOnId)).toEqual([blocker.id])
+    expect((await beads.getDependencies(dependent.id)).map((d) => d.dependsOnId)).toEqual([target.id])
+
+    expect(await beads.getIssue(source.id)).toMatchObject({ status: 'closed', closeReason: `duplicate of ${target.id}` })
+    expect(await beads.getDependencies(source.id)).toEqual([expect.objectContaining({ dependsOnId: target.id, type: 'related' })])
+    expect((await beads.getHistory(target.id)).map((e) => e.eventType)).toContain('merged')
+    for (const id of [source.id, target.id]) {
+      expect((await beads.getHistory(id)).filter((e) => e.eventType === 'comment_moved'))
+        .toEqual([expect.objectContaining({ oldValue: source.id, newValue: target.id, comment: 'Also on mobile' })])
+    }
+  })
+
+  it('rejects merging an issue into itself or nothing', async () => {
+    const beads = openTestBeads()
+    const issue = await beads.createIssue({ title: 'Alone' })
+
+    await expect(beads.mergeIssues([], issue.id)).rejects.toThrow(ValidationError)
+    await expect(beads.mergeIssues([issue.id], issue.id)).rejects.toThrow(ValidationError)
+  })
+})
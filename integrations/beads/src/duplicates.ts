@@ -0,0 +1,186 @@
+/**
+ * Beads Duplicates - Similarity of issues for duplicate detection
+ *
+ * Issues are compared on normalized text: lowercased, accents and
+ * punctuation stripped, common words dropped and plural, `-ing` and `-ed`
+ * endings trimmed, so "failing tests" matches "test fails". Titles are compared as sets
+ * of words; titles and descriptions together as sets of two-word
+ * shingles, so word order counts there. Scores are Jaccard similarities
+ * from 0 (nothing shared) to 1 (the same text).
+ *
+ * Everything runs in memory on issues already loaded; no external service
+ * is involved.
+ *
+ * @packageDocumentation
+ */
+
+import type { Issue } from './schema.js'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * Two issues that look alike. `issues` is ordered oldest first: the
+ * usual merge target, then the likely duplicate.
+ */
+export interface DuplicatePair {
+  issues: [Issue, Issue]
+  /** Overall similarity, 0-1 */
+  score: number
+  /** Similarity of the titles alone */
+  titleScore: number
+  /** Similarity of titles and descriptions together; null when either has no description */
+  textScore: number | null
+}
+
+export interface DuplicateMatchOptions {
+  /** Minimum score to report (default: 0.6) */
+  threshold?: number
+  /** Only pairs including this issue */
+  issueId?: string
+}
+
+// =============================================================================
+// Text Normalization
+// =============================================================================
+
+const STOPWORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'from', 'in', 'is', 'it', 'of', 'on', 'or',
+  'should', 'that', 'the', 'this', 'to', 'was', 'when', 'with',
+])
+
+/**
+ * Trim common English endings, enough to match `fails`, `failing` and
+ * `failed` with `fail`
+ */
+function stem(word: string): string {
+  if (word.length > 5 && word.endsWith('ing')) return word.slice(0, -3)
+  if (word.length > 4 && word.endsWith('ed')) return word.slice(0, -2)
+  if (word.length > 3 && word.endsWith('s') && !word.endsWith('ss')) return word.slice(0, -1)
+  return word
+}
+
+/**
+ * Split text into normalized words, without common words
+ */
+export function tokenize(text: string): string[] {
+  return text
+    .normalize('NFKD')
+    .replace(/\p{M}/gu, '')
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter((word) => word && !STOPWORDS.has(word))
+    .map(stem)
+}
+
+/**
+ * Runs of `size` consecutive words; the whole text as one shingle when it
+ * is shorter than that
+ */
+export function shingles(words: string[], size = 2): Set<string> {
+  if (words.length <= size) return new Set(words.length > 0 ? [words.join(' ')] : [])
+
+  const result = new Set<string>()
+  for (let i = 0; i + size <= words.length; i++) result.add(words.slice(i, i + size).join(' '))
+  return result
+}
+
+/**
+ * Jaccard similarity: shared items over all items
+ */
+export function jaccard(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 || b.size === 0) return 0
+
+  let shared = 0
+  for (const item of a) if (b.has(item)) shared++
+  return shared / (a.size + b.size - shared)
+}
+
+// =============================================================================
+// Matching
+// =============================================================================
+
+interface Profile {
+  issue: Issue
+  titleWords: Set<string>
+  textShingles: Set<string> | null
+}
+
+function profile(issue: Issue): Profile {
+  const titleWords = tokenize(issue.title)
+  const descriptionWords = tokenize(issue.description)
+
+  return {
+    issue,
+    titleWords: new Set(titleWords),
+    textShingles: descriptionWords.length > 0 ? shingles([...titleWords, ...descriptionWords]) : null,
+  }
+}
+
+function round(score: number): number {
+  return Math.round(score * 1000) / 1000
+}
+
+/**
+ * Score two issues. With descriptions on both, the score is the mean of
+ * the title and text scores; otherwise the title score.
+ */
+export function scoreSimilarity(a: Issue, b: Issue): Omit<DuplicatePair, 'issues'> {
+  return scoreProfiles(profile(a), profile(b))
+}
+
+function scoreProfiles(a: Profile, b: Profile): Omit<DuplicatePair, 'issues'> {
+  const titleScore = jaccard(a.titleWords, b.titleWords)
+  const textScore = a.textShingles && b.textShingles ? jaccard(a.textShingles, b.textShingles) : null
+  const score = textScore === null ? titleScore : (titleScore + textScore) / 2
+
+  return { score: round(score), titleScore: round(titleScore), textScore: textScore === null ? null : round(textScore) }
+}
+
+/**
+ * Find pairs of issues scoring at least the threshold, best first (ties
+ * by ID). Only issues sharing a title word are compared.
+ */
+export function matchDuplicates(issues: Issue[], options: DuplicateMatchOptions = {}): DuplicatePair[] {
+  const threshold = options.threshold ?? 0.6
+  const profiles = issues.map(profile)
+
+  // Candidates share at least one title word
+  const byWord = new Map<string, number[]>()
+  profiles.forEach((p, index) => {
+    for (const word of p.titleWords) {
+      const list = byWord.get(word) ?? []
+      list.push(index)
+      byWord.set(word, list)
+    }
+  })
+
+  const seen = new Set<string>()
+  const pairs: DuplicatePair[] = []
+
+  for (const indexes of byWord.values()) {
+    for (let i = 0; i < indexes.length; i++) {
+      for (let j = i + 1; j < indexes.length; j++) {
+        const [a, b] = [profiles[indexes[i]], profiles[indexes[j]]]
+        if (options.issueId && a.issue.id !== options.issueId && b.issue.id !== options.issueId) continue
+
+        const key = `${indexes[i]}:${indexes[j]}`
+        if (seen.has(key)) continue
+        seen.add(key)
+
+        const scores = scoreProfiles(a, b)
+        if (scores.score < threshold) continue
+
+        const ordered: [Issue, Issue] = a.issue.createdAt < b.issue.createdAt ||
+          (a.issue.createdAt === b.issue.createdAt && a.issue.id < b.issue.id)
+          ? [a.issue, b.issue]
+          : [b.issue, a.issue]
+        pairs.push({ issues: ordered, ...scores })
+      }
+    }
+  }
+
+  return pairs.sort((x, y) =>
+    y.score - x.score || x.issues[0].id.localeCompare(y.issues[0].id) || x.issues[1].id.localeCompare(y.issues[1].id))
+}
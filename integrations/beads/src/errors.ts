@@ -0,0 +1,157 @@
+/**
+ * Beads Errors - Typed failures raised by the adapter
+ *
+ * Every failure the adapter raises on purpose is a `BeadsError` with a
+ * stable `code`, so callers (and agents behind MCP or HTTP) can tell a
+ * missing issue from a bad argument without parsing messages. `toJSON`
+ * gives the machine-readable form: the code, message and the error's
+ * details, such as the cycle path or the invalid fields.
+ *
+ * @packageDocumentation
+ */
+
+export type BeadsErrorCode =
+  | 'not_found'
+  | 'invalid_transition'
+  | 'validation'
+  | 'dependency_cycle'
+  | 'conflict'
+  | 'query_syntax'
+  | 'schema_version'
+
+/**
+ * Base class of the adapter's errors
+ */
+export class BeadsError extends Error {
+  readonly code: BeadsErrorCode
+
+  constructor(code: BeadsErrorCode, message: string) {
+    super(message)
+    this.name = 'BeadsError'
+    this.code = code
+  }
+
+  /**
+   * Name, code, message and details, e.g. for a tool result or response body
+   */
+  toJSON(): { name: string; code: BeadsErrorCode; message: string; [detail: string]: unknown } {
+    return { name: this.name, code: this.code, message: this.message, ...Object.fromEntries(Object.entries(this)) }
+  }
+}
+
+/**
+ * Thrown when an issue, event or other record doesn't exist (or is
+ * deleted).
+ */
+export class NotFoundError extends BeadsError {
+  /** What was looked for, e.g. `issue` or `event` */
+  readonly kind: string
+  readonly id: string
+
+  constructor(kind: string, id: string, message = `${kind[0].toUpperCase()}${kind.slice(1)} not found: ${id}`) {
+    super('not_found', message)
+    this.name = 'NotFoundError'
+    this.kind = kind
+    this.id = id
+  }
+}
+
+/**
+ * Thrown when an issue can't make a change from its current state, e.g.
+ * reopening an issue that isn't closed.
+ */
+export class InvalidTransitionError extends BeadsError {
+  readonly issueId: string
+  readonly from: string
+  readonly to: string
+
+  constructor(issueId: string, from: string, to: string, message = `Cannot move ${issueId} from ${from} to ${to}`) {
+    super('invalid_transition', message)
+    this.name = 'InvalidTransitionError'
+    this.issueId = issueId
+    this.from = from
+    this.to = to
+  }
+}
+
+/**
+ * A problem with one input value. `path` is the dotted path of the value
+ * in the input, e.g. `priority` or `labels.1`; empty for the input itself.
+ */
+export interface ValidationIssue {
+  path: string
+  message: string
+}
+
+/**
+ * Thrown when input fails validation. `issues` lists every problem found.
+ */
+export class ValidationError extends BeadsError {
+  readonly issues: ValidationIssue[]
+
+  constructor(issues: ValidationIssue[], message?: string) {
+    super(
+      'validation',
+      message ?? `Invalid input: ${issues.map((i) => (i.path ? `${i.path}: ${i.message}` : i.message)).join('; ')}`
+    )
+    this.name = 'ValidationError'
+    this.issues = issues
+  }
+}
+
+/**
+ * Thrown when adding a dependency would create a cycle.
+ *
+ * `cycle` lists the issue IDs along the cycle, starting and ending with the
+ * issue the new edge starts from.
+ */
+export class DependencyCycleError extends BeadsError {
+  readonly cycle: string[]
+
+  constructor(cycle: string[]) {
+    super('dependency_cycle', `Dependency cycle: ${cycle.join(' -> ')}`)
+    this.name = 'DependencyCycleError'
+    this.cycle = cycle
+  }
+}
+
+/**
+ * Thrown when a change no longer applies because the issue has changed
+ * since, e.g. reverting an edit that was overwritten later, or when it
+ * would duplicate something that exists.
+ */
+export class ConflictError extends BeadsError {
+  constructor(message: string) {
+    super('conflict', message)
+    this.name = 'ConflictError'
+  }
+}
+
+/**
+ * Thrown when a filter query cannot be parsed. `position` is the offset
+ * of the offending term in the query string, when known.
+ */
+export class QuerySyntaxError extends BeadsError {
+  readonly position: number | undefined
+
+  constructor(message: string, position?: number) {
+    super('query_syntax', position === undefined ? message : `${message} (at ${position})`)
+    this.name = 'QuerySyntaxError'
+    this.position = position
+  }
+}
+
+/**
+ * Thrown when a database's schema can't be used by this version of the
+ * package: it is newer, or older and not to be migrated.
+ */
+export class SchemaVersionError extends BeadsError {
+  /** Schema version found in the database */
+  readonly version: number
+
+  constructor(message: string, version: number) {
+    super('schema_version', message)
+    this.name = 'SchemaVersionError'
+    this.version = version
+  }
+}
@@ -0,0 +1,146 @@
+import { describe, expect, it } from 'vitest'
+import { ValidationError } from './errors.js'
+import { scheduleForecast } from './forecast.js'
+import type { ScheduleOptions } from './forecast.js'
+import type { Dependency, Issue } from './schema.js'
+import { openTestBeads } from './test-utils.js'
+
+function issue(id: string, estimatedMinutes: number | null, fields: Partial<Issue> = {}): Issue {
+  return {
+    id,
+    contentHash: null,
+    title: id,
+    description: '',
+    design: '',
+    acceptanceCriteria: '',
+    notes: '',
+    status: 'open',
+    priority: 2,
+    issueType: 'task',
+    assignee: null,
+    createdAt: '2026-01-01T00:00:00.000Z',
+    updatedAt: '2026-01-01T00:00:00.000Z',
+    closedAt: null,
+    closeReason: '',
+    estimatedMinutes,
+    externalRef: null,
+    sourceRepo: '.',
+    compactionLevel: 0,
+    compactedAt: null,
+    compactedAtCommit: null,
+    originalSize: null,
+    deletedAt: null,
+    deletedBy: '',
+    deleteReason: '',
+    originalType: '',
+    ...fields,
+  }
+}
+
+function edge(issueId: string, dependsOnId: string, type: Dependency['type'] = 'blocks'): Dependency {
+  return { issueId, dependsOnId, type, createdAt: '', createdBy: '' }
+}
+
+// Monday
+const options: ScheduleOptions = { assignees: ['ann'], hoursPerDay: 8, startDate: new Date('2026-03-02T09:00:00Z') }
+
+describe('scheduleForecast', () => {
+  it('finds the critical path and the slack off it', () => {
+    // a -> b -> d is 3 days; a -> c -> d is 2
+    const issues = [issue('a', 480), issue('b', 960), issue('c', 480), issue('d', 480)]
+    const edges = [edge('b', 'a'), edge('c', 'a'), edge('d', 'b'), edge('d', 'c')]
+
+    const forecast = scheduleForecast(issues, edges, { ...options, assignees: ['ann', 'bob'] })
+
+    expect(forecast.criticalPath).toEqual(['a', 'b', 'd'])
+    expect(forecast.criticalPathMinutes).toBe(1920)
+    expect(forecast.issues.find((i) => i.id === 'c')).toMatchObject({ critical: false, slackMinutes: 480 })
+    expect(forecast.finishDate).toBe('2026-03-05')
+  })
+
+  it('serializes work across fewer people', () => {
+    const issues = [issue('a', 480), issue('b', 480), issue('c', 480)]
+
+    const forecast = scheduleForecast(issues, [], options)
+
+    expect(forecast.criticalPathMinutes).toBe(480)
+    expect(forecast.scheduledMinutes).toBe(1440)
+    expect(forecast.issues.map((i) => [i.id, i.start, i.finish])).toEqual([
+      ['a', '2026-03-02', '2026-03-02'],
+      ['b', '2026-03-03', '2026-03-03'],
+      ['c', '2026-03-04', '2026-03-04'],
+    ])
+  })
+
+  it('skips days off', () => {
+    const issues = [issue('a', 480 * 6)]
+
+    expect(scheduleForecast(issues, [], options).finishDate).toBe('2026-03-09')
+    expect(scheduleForecast(issues, [], { ...options, workdays: [1, 3, 5] }).finishDate).toBe('2026-03-13')
+    expect(scheduleForecast(issues, [], { ...options, workdays: [0, 1, 2, 3, 4, 5, 6] }).finishDate).toBe('2026-03-07')
+  })
+
+  it('schedules children of containers and reports unestimated and external blockers', () => {
+    const issues = [issue('epic', null, { issueType: 'epic' }), issue('a', null), issue('b', 60)]
+    const edges = [edge('a', 'epic', 'parent-child'), edge('b', 'epic', 'parent-child'), edge('b', 'elsewhere')]
+
+    const forecast = scheduleForecast(issues, edges, options)
+
+    expect(forecast.issues.map((i) => i.id).sort()).toEqual(['a', 'b'])
+    expect(forecast.unestimated).toEqual(['a'])
+    expect(forecast.issues.find((i) => i.id === 'b')?.externalBlockers).toEqual(['elsewhere'])
+  })
+
+  it.each([
+    ['no days', []],
+    ['days out of range', [7, 8]],
+    ['fractional days', [1.5]],
+  ])('rejects workdays with %s instead of looping forever', (_, workdays) => {
+    expect(() => scheduleForecast([issue('a', 60)], [], { ...options, workdays })).toThrow(ValidationError)
+  })
+
+  it('rejects bad options', () => {
+    expect(() => scheduleForecast([], [], { ...options, assignees: [] })).toThrow(ValidationError)
+    expect(() => scheduleForecast([], [], { ...options, hoursPerDay: 0 })).toThrow(ValidationError)
+    expect(() => scheduleForecast([], [], { ...options, startDate: new Date('soon') })).toThrow(ValidationError)
+  })
+})
+
+describe('BeadsAdapter.forecast', () => {
+  it('forecasts the open descendants of an epic', async () => {
+    const beads = openTestBeads()
+    const epic = await beads.createIssue({ title: 'Epic', issueType: 'epic' })
+    const design = await beads.createIssue({ title: 'Design', parentId: epic.id, estimatedMinutes: 360, assignee: 'ann' })
+    const build = await beads.createIssue({ title: 'Build', parentId: epic.id, estimatedMinutes: 720, assignee: 'ann' })
+    const done = await beads.createIssue({ title: 'Done already', parentId: epic.id, estimatedMinutes: 600 })
+    await beads.addDependency(build.id, design.id)
+    await beads.closeIssue(done.id)
+
+    const forecast = await beads.forecast(epic.id, { startDate: '2026-03-02', hoursPerDay: 6 })
+
+    expect(forecast.criticalPath).toEqual([design.id, build.id])
+    expect(forecast.issues.every((i) => i.assignee === 'ann')).toBe(true)
+    expect(forecast.finishDate).toBe('2026-03-04')
+  })
+
+  it('keeps open work under closed children', async () => {
+    const beads = openTestBeads()
+    const epic = await beads.createIssue({ title: 'Epic', issueType: 'epic' })
+    const phase = await beads.createIssue({ title: 'Phase one', parentId: epic.id })
+    const followUp = await beads.createIssue({ title: 'Follow-up', parentId: phase.id, estimatedMinutes: 120 })
+    await beads.closeIssue(phase.id)
+
+    const forecast = await beads.forecast(epic.id, { startDate: '2026-03-02' })
+
+    expect(forecast.issues.map((i) => i.id)).toEqual([followUp.id])
+    expect(forecast.criticalPathMinutes).toBe(120)
+  })
+
+  it('rejects an empty workweek', async () => {
+    const beads = openTestBeads()
+    const epic = await beads.createIssue({ title: 'Epic', issueType: 'epic' })
+    await beads.createIssue({ title: 'Task', parentId: epic.id, estimatedMinutes: 60 })
+
+    await expect(beads.forecast(epic.id, { workdays: [] })).rejects.toThrow(ValidationError)
+  })
+})
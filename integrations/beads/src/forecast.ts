@@ -0,0 +1,298 @@
+/**
+ * Beads Forecast - Critical path and resource-constrained scheduling
+ *
+ * Combines `estimatedMinutes` with `blocks` dependencies to answer when a
+ * body of work will land. The critical path is the longest chain of
+ * estimated work through the dependency DAG, ignoring who does it; the
+ * schedule then assigns issues to a fixed set of people, each working one
+ * issue at a time, and projects start and finish dates on working days.
+ *
+ * Pure functions over preloaded issues and edges; the adapter handles
+ * loading.
+ *
+ * @packageDocumentation
+ */
+
+import type { Issue, Dependency } from './schema.js'
+import { topologicalSort } from './graph.js'
+import { ValidationError } from './errors.js'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface ScheduleOptions {
+  /** People to schedule work across; issues assigned to one of them stay with them */
+  assignees: string[]
+  /** Working hours per person per day */
+  hoursPerDay: number
+  /** First working day */
+  startDate: Date
+  /** Days of the week worked, 0 = Sunday (default: Monday to Friday) */
+  workdays?: number[]
+  /** Minutes assumed for issues without an estimate (default: 0) */
+  defaultEstimateMinutes?: number
+}
+
+export interface ScheduledIssue {
+  id: string
+  title: string
+  /** Who the schedule gives it to */
+  assignee: string
+  estimateMinutes: number
+  /** No `estimatedMinutes`; `defaultEstimateMinutes` was used */
+  unestimated: boolean
+  /** On the critical path */
+  critical: boolean
+  /** Working minutes it can slip without delaying the critical path */
+  slackMinutes: number
+  /** Projected first working day, `YYYY-MM-DD` */
+  start: string
+  /** Projected last working day, `YYYY-MM-DD` */
+  finish: string
+  /** Open issues outside the forecast that block it; not scheduled */
+  externalBlockers: string[]
+}
+
+export interface Forecast {
+  /** Issues in scheduled order */
+  issues: ScheduledIssue[]
+  /** IDs along the critical path, first to last */
+  criticalPath: string[]
+  /** Working minutes along the critical path */
+  criticalPathMinutes: number
+  /** Working minutes until the last issue finishes, given the assignees */
+  scheduledMinutes: number
+  /** Projected day the last issue finishes, `YYYY-MM-DD`; null with no work */
+  finishDate: string | null
+  /** IDs of issues without an estimate */
+  unestimated: string[]
+}
+
+// =============================================================================
+// Calendar
+// =============================================================================
+
+const DAY_MS = 86_400_000
+const WEEKDAYS = [1, 2, 3, 4, 5]
+
+/**
+ * Day (`YYYY-MM-DD`) on which a number of working minutes after the
+ * start falls
+ */
+function workingDay(start: Date, offsetMinutes: number, minutesPerDay: number, workdays: number[]): string {
+  let day = Date.UTC(start.getUTCFullYear(), start.getUTCMonth(), start.getUTCDate())
+  while (!workdays.includes(new Date(day).getUTCDay())) day += DAY_MS
+
+  for (let remaining = Math.floor(offsetMinutes / minutesPerDay); remaining > 0; remaining--) {
+    day += DAY_MS
+    while (!workdays.includes(new Date(day).getUTCDay())) day += DAY_MS
+  }
+
+  return new Date(day).toISOString().slice(0, 10)
+}
+
+/**
+ * Largest of some minute counts, or 0 for none. Epics can hold more issues
+ * than `Math.max` takes arguments.
+ */
+function latest(minutes: Iterable<number>): number {
+  return [...minutes].reduce((max, m) => (m > max ? m : max), 0)
+}
+
+// =============================================================================
+// Scheduling
+// =============================================================================
+
+/**
+ * Forecast open work: `issues` are everything in scope (closed ones are
+ * skipped), `edges` the `blocks` and `parent-child` dependencies touching
+ * them, leaving out those on closed or deleted issues outside the scope.
+ *
+ * Issues with open children in scope are containers: their children carry
+ * the work, and blockers of a container hold back all of its children. Open
+ * children of a closed container belong to the nearest open one above. Open
+ * blockers outside the scope are reported but don't move dates. Issues
+ * already in progress are scheduled with their full estimate.
+ *
+ * @throws ValidationError if there are no assignees, `hoursPerDay` isn't
+ *   positive, `startDate` is invalid or `workdays` names no day of the week
+ */
+export function scheduleForecast(issues: Issue[], edges: Dependency[], options: ScheduleOptions): Forecast {
+  if (options.assignees.length === 0) {
+    throw new ValidationError([{ path: 'assignees', message: 'must not be empty' }], 'Forecast needs at least one assignee')
+  }
+  if (!(options.hoursPerDay > 0)) {
+    throw new ValidationError([{ path: 'hoursPerDay', message: 'must be positive' }], 'hoursPerDay must be positive')
+  }
+  if (Number.isNaN(options.startDate.getTime())) {
+    throw new ValidationError([{ path: 'startDate', message: 'must be a valid date' }], 'startDate must be a valid date')
+  }
+  // The calendar looks for the next working day, which never comes without one
+  if (options.workdays && (
+    options.workdays.length === 0 ||
+    !options.workdays.every((day) => Number.isInteger(day) && day >= 0 && day <= 6)
+  )) {
+    throw new ValidationError(
+      [{ path: 'workdays', message: 'must be a non-empty list of days from 0 (Sunday) to 6 (Saturday)' }],
+      'workdays must be a non-empty list of days from 0 (Sunday) to 6 (Saturday)'
+    )
+  }
+
+  const open = new Map(issues.filter((i) => i.status !== 'closed').map((i) => [i.id, i]))
+  const inScope = new Set(issues.map((i) => i.id))
+  const workdays = options.workdays ?? WEEKDAYS
+  const minutesPerDay = options.hoursPerDay * 60
+
+  // Hierarchy within scope, with open issues under a closed container moved
+  // up to the nearest open one
+  const parentEdge = new Map<string, string>()
+  for (const edge of edges) {
+    if (edge.type === 'parent-child' && inScope.has(edge.issueId) && inScope.has(edge.dependsOnId)) {
+      parentEdge.set(edge.issueId, edge.dependsOnId)
+    }
+  }
+
+  const parentOf = new Map<string, string>()
+  const children = new Map<string, string[]>()
+  for (const id of open.keys()) {
+    const seen = new Set([id])
+    let parent = parentEdge.get(id)
+    while (parent && !open.has(parent) && !seen.has(parent)) {
+      seen.add(parent)
+      parent = parentEdge.get(parent)
+    }
+    if (!parent || !open.has(parent)) continue
+
+    parentOf.set(id, parent)
+    children.set(parent, [...(children.get(parent) ?? []), id])
+  }
+
+  const leavesOf = (id: string): string[] => {
+    const kids = children.get(id)
+    return kids ? kids.flatMap(leavesOf) : [id]
+  }
+
+  const tasks = [...open.values()].filter((i) => !children.has(i.id))
+
+  // Predecessors: own blockers and those of every container above, with
+  // blocking containers expanded to their leaves
+  const blockers = new Map<string, string[]>()
+  for (const edge of edges) {
+    if (edge.type !== 'blocks' || !open.has(edge.issueId)) continue
+    blockers.set(edge.issueId, [...(blockers.get(edge.issueId) ?? []), edge.dependsOnId])
+  }
+
+  const predecessors = new Map<string, Set<string>>()
+  const external = new Map<string, Set<string>>()
+  for (const task of tasks) {
+    const preds = new Set<string>()
+    const outside = new Set<string>()
+
+    for (let id: string | undefined = task.id; id; id = parentOf.get(id)) {
+      for (const blocker of blockers.get(id) ?? []) {
+        if (open.has(blocker)) {
+          for (const leaf of leavesOf(blocker)) if (leaf !== task.id) preds.add(leaf)
+        } else if (!inScope.has(blocker)) {
+          outside.add(blocker)
+        }
+      }
+    }
+
+    predecessors.set(task.id, preds)
+    external.set(task.id, outside)
+  }
+
+  const duration = (task: Issue) => task.estimatedMinutes ?? options.defaultEstimateMinutes ?? 0
+  const taskEdges = tasks.flatMap((task) => [...predecessors.get(task.id)!].map((dependsOnId) => ({
+    issueId: task.id,
+    dependsOnId,
+    type: 'blocks' as const,
+    createdAt: '',
+    createdBy: '',
+  })))
+  const order = topologicalSort(tasks, taskEdges)
+  const position = new Map(order.map((task, index) => [task.id, index]))
+
+  // Edges against the topological order only exist in cycles; drop them
+  const preds = (id: string) => [...predecessors.get(id)!].filter((p) => position.get(p)! < position.get(id)!)
+
+  // Critical path: earliest and latest starts without resource limits
+  const earliestStart = new Map<string, number>()
+  const earliestFinish = new Map<string, number>()
+  for (const task of order) {
+    const start = latest(preds(task.id).map((p) => earliestFinish.get(p)!))
+    earliestStart.set(task.id, start)
+    earliestFinish.set(task.id, start + duration(task))
+  }
+
+  const criticalPathMinutes = latest(earliestFinish.values())
+  const latestFinish = new Map<string, number>(order.map((task) => [task.id, criticalPathMinutes]))
+  for (const task of [...order].reverse()) {
+    const latestStart = latestFinish.get(task.id)! - duration(task)
+    for (const p of preds(task.id)) {
+      latestFinish.set(p, Math.min(latestFinish.get(p)!, latestStart))
+    }
+  }
+  const slack = (id: string) => latestFinish.get(id)! - earliestFinish.get(id)!
+
+  const criticalPath: string[] = []
+  let current = order.find((t) => slack(t.id) === 0 && earliestFinish.get(t.id) === criticalPathMinutes)?.id
+  while (current) {
+    criticalPath.unshift(current)
+    const start = earliestStart.get(current)!
+    current = preds(current).find((p) => slack(p) === 0 && earliestFinish.get(p) === start)
+  }
+
+  // Resource-constrained list schedule: among issues whose predecessors are
+  // scheduled, take the least slack first, then priority, then order
+  const freeAt = new Map(options.assignees.map((a) => [a, 0]))
+  const finish = new Map<string, number>()
+  const scheduled: ScheduledIssue[] = []
+  const pending = new Set(order.map((t) => t.id))
+
+  while (pending.size > 0) {
+    const eligible = order.filter((t) => pending.has(t.id) && preds(t.id).every((p) => finish.has(p)))
+    eligible.sort((a, b) =>
+      slack(a.id) - slack(b.id) || a.priority - b.priority || position.get(a.id)! - position.get(b.id)!)
+    const task = eligible[0]
+    pending.delete(task.id)
+
+    const ready = latest(preds(task.id).map((p) => finish.get(p)!))
+    const candidates = task.assignee && freeAt.has(task.assignee) ? [task.assignee] : options.assignees
+    const assignee = candidates.reduce((best, a) =>
+      Math.max(ready, freeAt.get(a)!) < Math.max(ready, freeAt.get(best)!) ? a : best)
+
+    const start = Math.max(ready, freeAt.get(assignee)!)
+    const end = start + duration(task)
+    freeAt.set(assignee, end)
+    finish.set(task.id, end)
+
+    scheduled.push({
+      id: task.id,
+      title: task.title,
+      assignee,
+      estimateMinutes: duration(task),
+      unestimated: task.estimatedMinutes === null,
+      critical: criticalPath.includes(task.id),
+      slackMinutes: slack(task.id),
+      // Work without duration lands on the day the work before it ended
+      start: workingDay(options.startDate, end > start ? start : Math.max(0, start - 1), minutesPerDay, workdays),
+      finish: workingDay(options.startDate, Math.max(0, end - 1), minutesPerDay, workdays),
+      externalBlockers: [...external.get(task.id)!],
+    })
+  }
+
+  const scheduledMinutes = latest(finish.values())
+
+  return {
+    issues: scheduled,
+    criticalPath,
+    criticalPathMinutes,
+    scheduledMinutes,
+    finishDate: scheduled.length > 0
+      ? workingDay(options.startDate, Math.max(0, scheduledMinutes - 1), minutesPerDay, workdays)
+      : null,
+    unestimated: scheduled.filter((s) => s.unestimated).map((s) => s.id),
+  }
+}
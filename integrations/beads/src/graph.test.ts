@@ -0,0 +1,117 @@
+import { describe, expect, it } from 'vitest'
+import { ConflictError, DependencyCycleError, NotFoundError } from './errors.js'
+import { findPath } from './graph.js'
+import type { Dependency } from './schema.js'
+import { openTestBeads } from './test-utils.js'
+
+function edge(issueId: string, dependsOnId: string): Dependency {
+  return { issueId, dependsOnId, type: 'blocks', createdAt: '2026-01-01T00:00:00.000Z', createdBy: 'alice' }
+}
+
+describe('findPath', () => {
+  it('finds the shortest path along edges', () => {
+    const edges = [edge('a', 'b'), edge('b', 'c'), edge('c', 'd'), edge('a', 'd')]
+
+    expect(findPath(edges, 'a', 'd')).toEqual(['a', 'd'])
+    expect(findPath(edges, 'b', 'd')).toEqual(['b', 'c', 'd'])
+    expect(findPath(edges, 'd', 'a')).toBeUndefined()
+  })
+})
+
+describe('cycle detection', () => {
+  it('rejects edges closing a cycle, with the cycle path', async () => {
+    const beads = openTestBeads()
+    const [a, b, c] = await Promise.all(['A', 'B', 'C'].map((title) => beads.createIssue({ title })))
+    await beads.addDependency(a.id, b.id)
+    await beads.addDependency(b.id, c.id)
+
+    const error = await beads.addDependency(c.id, a.id).catch((err) => err)
+    expect(error).toBeInstanceOf(DependencyCycleError)
+    expect(error.cycle).toEqual([c.id, a.id, b.id, c.id])
+
+    await expect(beads.addDependency(a.id, a.id)).rejects.toThrow(DependencyCycleError)
+    expect(await beads.getDependencies(c.id)).toEqual([])
+  })
+
+  it('checks blocks and parent-child edges together, and not other types', async () => {
+    const beads = openTestBeads()
+    const a = await beads.createIssue({ title: 'A' })
+    const b = await beads.createIssue({ title: 'B' })
+    await beads.addDependency(a.id, b.id, 'parent-child')
+
+    const error = await beads.addDependency(b.id, a.id, 'blocks').catch((err) => err)
+    expect(error).toBeInstanceOf(DependencyCycleError)
+    expect(error.cycle).toEqual([b.id, a.id, b.id])
+    expect(await beads.getReadyIssues()).toHaveLength(2)
+
+    const c = await beads.createIssue({ title: 'C' })
+    await beads.addDependency(c.id, a.id, 'related')
+    await beads.addDependency(a.id, c.id, 'discovered-from')
+  })
+
+  it('rejects unknown issues and repeated edges', async () => {
+    const beads = openTestBeads()
+    const a = await beads.createIssue({ title: 'A' })
+    const b = await beads.createIssue({ title: 'B' })
+
+    await expect(beads.addDependency(a.id, 'bd-missing')).rejects.toThrow(NotFoundError)
+    await beads.addDependency(a.id, b.id)
+    await expect(beads.addDependency(a.id, b.id)).rejects.toThrow(ConflictError)
+  })
+})
+
+describe('transitive queries', () => {
+  async function chain() {
+    const beads = openTestBeads()
+    // deploy <- test <- build, and deploy <- docs
+    const build = await beads.createIssue({ title: 'Build', priority: 1 })
+    const test = await beads.createIssue({ title: 'Test' })
+    const docs = await beads.createIssue({ title: 'Docs', priority: 3 })
+    const deploy = await beads.createIssue({ title: 'Deploy' })
+    await beads.addDependency(test.id, build.id)
+    await beads.addDependency(deploy.id, test.id)
+    await beads.addDependency(deploy.id, docs.id)
+    return { beads, build, test, docs, deploy }
+  }
+
+  it('walks blockers and dependents nearest first', async () => {
+    const { beads, build, test, docs, deploy } = await chain()
+
+    expect((await beads.getTransitiveBlockers(deploy.id)).map((i) => i.id)).toEqual([test.id, docs.id, build.id])
+    expect((await beads.getTransitiveBlockers(deploy.id, { maxDepth: 1 })).map((i) => i.id)).toEqual([test.id, docs.id])
+    expect((await beads.getTransitiveDependents(build.id)).map((i) => i.id)).toEqual([test.id, deploy.id])
+  })
+
+  it('cuts off closed blockers unless asked for them', async () => {
+    const { beads, build, test, docs, deploy } = await chain()
+    await beads.closeIssue(test.id)
+
+    expect((await beads.getTransitiveBlockers(deploy.id)).map((i) => i.id)).toEqual([docs.id])
+    expect((await beads.getTransitiveBlockers(deploy.id, { includeClosed: true })).map((i) => i.id))
+      .toEqual([test.id, docs.id, build.id])
+  })
+
+  it('orders open work after its blockers', async () => {
+    const { beads, build, test, docs, deploy } = await chain()
+
+    expect((await beads.getTopologicalOrder()).map((i) => i.id)).toEqual([build.id, test.id, docs.id, deploy.id])
+  })
+
+  it('builds a tree, marking issues reached twice', async () => {
+    const { beads, build, test, docs, deploy } = await chain()
+    await beads.addDependency(docs.id, build.id)
+
+    const tree = await beads.getDependencyTree(deploy.id)
+    const flatten = (node: NonNullable<typeof tree>): Array<[string, number, boolean]> =>
+      [[node.issue.id, node.depth, node.repeated], ...node.children.flatMap(flatten)]
+
+    expect(flatten(tree!)).toEqual([
+      [deploy.id, 0, false],
+      [test.id, 1, false],
+      [build.id, 2, false],
+      [docs.id, 1, false],
+      [build.id, 2, true],
+    ])
+    expect(await beads.getDependencyTree('bd-missing')).toBeUndefined()
+  })
+})
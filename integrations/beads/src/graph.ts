@@ -0,0 +1,272 @@
+/**
+ * Beads Graph - Algorithms over the dependencies table
+ *
+ * Pure functions that operate on issues and dependency edges already
+ * loaded from the database. The adapter handles loading.
+ *
+ * @packageDocumentation
+ */
+
+import type { Issue, Dependency, DependencyTypeValue, IssueStatusValue } from './schema.js'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * Direction to walk the graph: `down` follows what an issue depends on,
+ * `up` follows the issues that depend on it.
+ */
+export type GraphDirection = 'down' | 'up'
+
+export interface DependencyTreeOptions {
+  /** Walk direction (default: `down`) */
+  direction?: GraphDirection
+  /** Maximum depth below the root (default: 10) */
+  maxDepth?: number
+  /** Dependency types to follow (default: all) */
+  types?: DependencyTypeValue[]
+}
+
+export interface DependencyTreeNode {
+  issue: Issue
+  /** Type of the edge leading to this node (null for the root) */
+  type: DependencyTypeValue | null
+  depth: number
+  /** True when the issue already appeared earlier in the tree; its children are not repeated */
+  repeated: boolean
+  children: DependencyTreeNode[]
+}
+
+/**
+ * Completion of an issue's descendants (through `parent-child`, at any
+ * depth), with the same rollup for each child
+ */
+export interface EpicProgress {
+  issue: Issue
+  /** Number of descendants in each status, including statuses other tools wrote */
+  byStatus: Record<IssueStatusValue, number>
+  /** Number of descendants */
+  total: number
+  closed: number
+  /** Estimates of all descendants, and of the closed ones (unestimated count as 0) */
+  estimatedMinutes: number
+  closedMinutes: number
+  /**
+   * Share of descendants closed, 0-100. An issue without children is 100
+   * when closed, otherwise 0.
+   */
+  percentComplete: number
+  children: EpicProgress[]
+}
+
+// =============================================================================
+// Algorithms
+// =============================================================================
+
+/**
+ * The issue an edge leads to when walking in the given direction
+ */
+export function edgeTarget(edge: Dependency, direction: GraphDirection): string {
+  return direction === 'down' ? edge.dependsOnId : edge.issueId
+}
+
+/**
+ * Find a path from `fromId` to `toId` following `down` edges, or undefined
+ */
+export function findPath(edges: Dependency[], fromId: string, toId: string): string[] | undefined {
+  const adjacency = new Map<string, string[]>()
+  for (const edge of edges) {
+    const targets = adjacency.get(edge.issueId) ?? []
+    targets.push(edge.dependsOnId)
+    adjacency.set(edge.issueId, targets)
+  }
+
+  const previous = new Map<string, string | null>([[fromId, null]])
+  const queue = [fromId]
+
+  while (queue.length > 0) {
+    const current = queue.shift()!
+    if (current === toId) {
+      const path: string[] = []
+      for (let node: string | null = current; node !== null; node = previous.get(node) ?? null) {
+        path.unshift(node)
+      }
+      return path
+    }
+
+    for (const next of adjacency.get(current) ?? []) {
+      if (!previous.has(next)) {
+        previous.set(next, current)
+        queue.push(next)
+      }
+    }
+  }
+
+  return undefined
+}
+
+/**
+ * Order issues so every issue comes after the issues it depends on.
+ *
+ * Ties are broken by priority, then creation time, then ID, so the order is
+ * deterministic. Edges to issues outside `issues` are ignored. Issues caught
+ * in a cycle are appended at the end in the same tie-break order.
+ */
+export function topologicalSort(issues: Issue[], edges: Dependency[]): Issue[] {
+  const byId = new Map(issues.map((i) => [i.id, i]))
+  const inDegree = new Map(issues.map((i) => [i.id, 0]))
+  const dependents = new Map<string, string[]>()
+
+  for (const edge of edges) {
+    if (!byId.has(edge.issueId) || !byId.has(edge.dependsOnId) || edge.issueId === edge.dependsOnId) continue
+    inDegree.set(edge.issueId, inDegree.get(edge.issueId)! + 1)
+    const list = dependents.get(edge.dependsOnId) ?? []
+    list.push(edge.issueId)
+    dependents.set(edge.dependsOnId, list)
+  }
+
+  const compare = (a: Issue, b: Issue) =>
+    a.priority - b.priority || a.createdAt.localeCompare(b.createdAt) || a.id.localeCompare(b.id)
+
+  const ready = issues.filter((i) => inDegree.get(i.id) === 0).sort(compare)
+  const ordered: Issue[] = []
+
+  while (ready.length > 0) {
+    const issue = ready.shift()!
+    ordered.push(issue)
+
+    for (const dependentId of dependents.get(issue.id) ?? []) {
+      const remaining = inDegree.get(dependentId)! - 1
+      inDegree.set(dependentId, remaining)
+      if (remaining === 0) {
+        const dependent = byId.get(dependentId)!
+        const index = ready.findIndex((r) => compare(dependent, r) < 0)
+        ready.splice(index === -1 ? ready.length : index, 0, dependent)
+      }
+    }
+  }
+
+  if (ordered.length < issues.length) {
+    const placed = new Set(ordered.map((i) => i.id))
+    ordered.push(...issues.filter((i) => !placed.has(i.id)).sort(compare))
+  }
+
+  return ordered
+}
+
+/**
+ * Build a dependency tree rooted at `rootId` from preloaded edges and issues.
+ *
+ * Depth-first, children ordered by priority then ID. An issue reachable by
+ * more than one path is expanded only the first time and marked `repeated`
+ * on later appearances.
+ */
+export function buildDependencyTree(
+  rootId: string,
+  edges: Dependency[],
+  issues: Map<string, Issue>,
+  options: DependencyTreeOptions = {}
+): DependencyTreeNode | undefined {
+  const direction = options.direction ?? 'down'
+  const maxDepth = options.maxDepth ?? 10
+  const root = issues.get(rootId)
+  if (!root) return undefined
+
+  const outgoing = new Map<string, Dependency[]>()
+  for (const edge of edges) {
+    if (options.types && !options.types.includes(edge.type)) continue
+    const from = direction === 'down' ? edge.issueId : edge.dependsOnId
+    const list = outgoing.get(from) ?? []
+    list.push(edge)
+    outgoing.set(from, list)
+  }
+
+  const seen = new Set<string>()
+
+  const visit = (issue: Issue, type: DependencyTypeValue | null, depth: number): DependencyTreeNode => {
+    const repeated = seen.has(issue.id)
+    seen.add(issue.id)
+
+    const node: DependencyTreeNode = { issue, type, depth, repeated, children: [] }
+    if (repeated || depth >= maxDepth) return node
+
+    const childEdges = (outgoing.get(issue.id) ?? [])
+      .filter((e) => issues.has(edgeTarget(e, direction)))
+      .sort((a, b) => {
+        const ia = issues.get(edgeTarget(a, direction))!
+        const ib = issues.get(edgeTarget(b, direction))!
+        return ia.priority - ib.priority || ia.id.localeCompare(ib.id)
+      })
+
+    for (const edge of childEdges) {
+      node.children.push(visit(issues.get(edgeTarget(edge, direction))!, edge.type, depth + 1))
+    }
+
+    return node
+  }
+
+  return visit(root, null, 0)
+}
+
+/**
+ * Roll up progress below `root` from preloaded `parent-child` edges and
+ * issues.
+ *
+ * An issue under several parents counts once towards each ancestor.
+ * Children are ordered by priority then ID.
+ */
+export function rollupProgress(root: Issue, edges: Dependency[], issues: Map<string, Issue>): EpicProgress {
+  const childrenOf = new Map<string, Issue[]>()
+  for (const edge of edges) {
+    const child = issues.get(edge.issueId)
+    if (edge.type !== 'parent-child' || !child) continue
+    const list = childrenOf.get(edge.dependsOnId) ?? []
+    list.push(child)
+    childrenOf.set(edge.dependsOnId, list)
+  }
+
+  const visit = (issue: Issue, path: Set<string>): [EpicProgress, Map<string, Issue>] => {
+    const children = (childrenOf.get(issue.id) ?? [])
+      .filter((child) => !path.has(child.id))
+      .sort((a, b) => a.priority - b.priority || a.id.localeCompare(b.id))
+
+    const descendants = new Map<string, Issue>()
+    const nested: EpicProgress[] = []
+    for (const child of children) {
+      const [progress, below] = visit(child, new Set([...path, child.id]))
+      nested.push(progress)
+      descendants.set(child.id, child)
+      for (const [id, descendant] of below) descendants.set(id, descendant)
+    }
+
+    const progress: EpicProgress = {
+      issue,
+      byStatus: { open: 0, in_progress: 0, blocked: 0, closed: 0 },
+      total: descendants.size,
+      closed: 0,
+      estimatedMinutes: 0,
+      closedMinutes: 0,
+      percentComplete: 0,
+      children: nested,
+    }
+
+    for (const descendant of descendants.values()) {
+      const minutes = descendant.estimatedMinutes ?? 0
+      progress.byStatus[descendant.status] = (progress.byStatus[descendant.status] ?? 0) + 1
+      progress.estimatedMinutes += minutes
+      if (descendant.status === 'closed') {
+        progress.closed++
+        progress.closedMinutes += minutes
+      }
+    }
+
+    progress.percentComplete = progress.total > 0
+      ? Math.round((progress.closed / progress.total) * 100)
+      : issue.status === 'closed' ? 100 : 0
+
+    return [progress, descendants]
+  }
+
+  return visit(root, new Set([root.id]))[0]
+}
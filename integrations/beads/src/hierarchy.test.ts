@@ -0,0 +1,112 @@
+import { describe, expect, it } from 'vitest'
+import { NotFoundError } from './errors.js'
+import { openTestBeads } from './test-utils.js'
+
+/**
+ * An epic with a feature of two tasks, and a loose task
+ */
+async function epicTree(config: Parameters<typeof openTestBeads>[0] = {}) {
+  const beads = openTestBeads(config)
+  const epic = await beads.createIssue({ title: 'Epic', issueType: 'epic' })
+  const feature = await beads.createIssue({ title: 'Feature', issueType: 'feature', parentId: epic.id, priority: 1 })
+  const first = await beads.createIssue({ title: 'First', parentId: feature.id, estimatedMinutes: 60 })
+  const second = await beads.createIssue({ title: 'Second', parentId: feature.id, estimatedMinutes: 30 })
+  const loose = await beads.createIssue({ title: 'Loose', parentId: epic.id })
+  return { beads, epic, feature, first, second, loose }
+}
+
+describe('hierarchy', () => {
+  it('numbers children under their parent', async () => {
+    const { epic, feature, first, second, loose } = await epicTree()
+
+    expect(feature.id).toBe(`${epic.id}.1`)
+    expect([first.id, second.id]).toEqual([`${feature.id}.1`, `${feature.id}.2`])
+    expect(loose.id).toBe(`${epic.id}.2`)
+  })
+
+  it('lists children, descendants and ancestors', async () => {
+    const { beads, epic, feature, first, second, loose } = await epicTree()
+
+    expect((await beads.listChildren(epic.id)).map((i) => i.id)).toEqual([feature.id, loose.id])
+    expect((await beads.listChildren(epic.id, { recursive: true })).map((i) => i.id))
+      .toEqual([feature.id, loose.id, first.id, second.id])
+    expect((await beads.getAncestors(second.id)).map((i) => i.id)).toEqual([feature.id, epic.id])
+
+    await beads.closeIssue(loose.id)
+    expect((await beads.listChildren(epic.id, { includeClosed: false })).map((i) => i.id)).toEqual([feature.id])
+  })
+
+  it('rolls up progress with estimates', async () => {
+    const { beads, epic, feature, first } = await epicTree()
+    await beads.closeIssue(first.id)
+
+    const progress = await beads.getEpicProgress(epic.id)
+    expect(progress).toMatchObject({
+      total: 4,
+      closed: 1,
+      byStatus: { open: 3, in_progress: 0, blocked: 0, closed: 1 },
+      estimatedMinutes: 90,
+      closedMinutes: 60,
+      percentComplete: 25,
+    })
+    expect(progress.children.map((c) => [c.issue.id, c.percentComplete])).toEqual([
+      [feature.id, 50],
+      [`${epic.id}.2`, 0],
+    ])
+    await expect(beads.getEpicProgress('bd-missing')).rejects.toThrow(NotFoundError)
+  })
+
+  it('counts statuses written by other tools', async () => {
+    const { beads, epic, first } = await epicTree()
+    beads['sqlite'].prepare(`UPDATE issues SET status = 'review' WHERE id = ?`).run(first.id)
+
+    expect((await beads.getEpicProgress(epic.id)).byStatus).toEqual({ open: 3, in_progress: 0, blocked: 0, closed: 0, review: 1 })
+  })
+})
+
+describe('parent policies', () => {
+  it('leave parents alone by default', async () => {
+    const { beads, feature, first, second } = await epicTree()
+    await beads.closeIssue(first.id)
+    await beads.closeIssue(second.id)
+
+    expect((await beads.getIssue(feature.id))?.status).toBe('open')
+  })
+
+  it('close parents once their last child closes, up the tree', async () => {
+    const { beads, epic, feature, first, second, loose } = await epicTree()
+    await beads.updateSettings({ autoCloseParents: true })
+
+    await beads.closeIssue(first.id)
+    expect((await beads.getIssue(feature.id))?.status).toBe('open')
+
+    await beads.closeIssue(second.id)
+    expect(await beads.getIssue(feature.id)).toMatchObject({ status: 'closed', closeReason: 'All children closed' })
+    expect((await beads.getIssue(epic.id))?.status).toBe('open')
+
+    await beads.closeIssue(loose.id)
+    expect((await beads.getIssue(epic.id))?.status).toBe('closed')
+  })
+
+  it('reopen closed parents when a child reopens', async () => {
+    const { beads, epic, feature, first, second, loose } = await epicTree()
+    await beads.updateSettings({ autoCloseParents: true, autoReopenParents: true })
+    for (const issue of [first, second, loose]) await beads.closeIssue(issue.id)
+    expect((await beads.getIssue(epic.id))?.status).toBe('closed')
+
+    await beads.reopenIssue(first.id)
+    expect((await beads.getIssue(feature.id))?.status).toBe('open')
+    expect((await beads.getIssue(epic.id))?.status).toBe('open')
+  })
+
+  it('leave a parent the workflow won\'t close', async () => {
+    const { beads, feature, first, second } = await epicTree({
+      workflow: { transitions: { feature: { open: ['in_progress'], in_progress: ['closed'] } } },
+    })
+    await beads.updateSettings({ autoCloseParents: true })
+
+    await beads.closeIssue(first.id)
+    await beads.closeIssue(second.id)
+    expect((await beads.getIssue(feature.id))?.status).toBe('open')
+  })
+})
@@ -0,0 +1,98 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { ConflictError, ValidationError } from './errors.js'
+import { openTestBeads } from './test-utils.js'
+
+afterEach(() => {
+  vi.useRealTimers()
+})
+
+/**
+ * An issue edited once a day from 2026-03-01: retitled, labelled, closed
+ */
+async function editedIssue() {
+  vi.useFakeTimers({ toFake: ['Date'] })
+  vi.setSystemTime(new Date('2026-03-01T10:00:00Z'))
+  const beads = openTestBeads()
+  const issue = await beads.createIssue({ title: 'Draft', priority: 2 })
+
+  vi.setSystemTime(new Date('2026-03-02T10:00:00Z'))
+  await beads.updateIssue(issue.id, { title: 'Final', priority: 1 })
+
+  vi.setSystemTime(new Date('2026-03-03T10:00:00Z'))
+  await beads.addLabel(issue.id, 'ui')
+
+  vi.setSystemTime(new Date('2026-03-04T10:00:00Z'))
+  await beads.closeIssue(issue.id, 'Shipped')
+
+  return { beads, id: issue.id }
+}
+
+describe('history', () => {
+  it('lists events oldest first, within a time range', async () => {
+    const { beads, id } = await editedIssue()
+
+    expect((await beads.getHistory(id)).map((e) => e.eventType))
+      .toEqual(['created', 'title_changed', 'priority_changed', 'label_added', 'closed'])
+    expect((await beads.getHistory(id, { since: '2026-03-02T10:00:00.000Z', until: '2026-03-03T10:00:00.000Z' }))
+      .map((e) => e.eventType)).toEqual(['label_added'])
+  })
+
+  it('rebuilds the issue at a point in time', async () => {
+    const { beads, id } = await editedIssue()
+
+    expect(await beads.getIssueAt(id, '2026-02-28T00:00:00Z')).toBeUndefined()
+    expect(await beads.getIssueAt(id, '2026-03-01T12:00:00Z')).toMatchObject({
+      title: 'Draft', priority: 2, labels: [], status: 'open', closedAt: null,
+    })
+    expect(await beads.getIssueAt(id, '2026-03-03T12:00:00Z')).toMatchObject({
+      title: 'Final', priority: 1, labels: ['ui'], status: 'open',
+    })
+  })
+
+  it('diffs two points in time', async () => {
+    const { beads, id } = await editedIssue()
+    const changes = await beads.diffIssue(id, '2026-03-01T12:00:00Z', '2026-03-03T12:00:00Z')
+
+    expect(changes).toEqual(expect.arrayContaining([
+      { field: 'title', from: 'Draft', to: 'Final' },
+      { field: 'priority', from: 2, to: 1 },
+      { field: 'labels', from: [], to: ['ui'] },
+    ]))
+    expect(changes.map((c) => c.field)).not.toContain('status')
+  })
+})
+
+describe('revert', () => {
+  it('undoes the latest changes one by one', async () => {
+    const { beads, id } = await editedIssue()
+
+    expect((await beads.undoLast(id))?.issue.status).toBe('open')
+    expect(await beads.getLabels(id)).toEqual(['ui'])
+    await beads.undoLast(id)
+    expect(await beads.getLabels(id)).toEqual([])
+    await beads.undoLast(id)
+    await beads.undoLast(id)
+    expect(await beads.getIssue(id)).toMatchObject({ title: 'Draft', priority: 2 })
+    expect(await beads.undoLast(id)).toBeUndefined()
+
+    const reverts = (await beads.getHistory(id)).filter((e) => e.comment?.startsWith('revert #'))
+    expect(reverts).toHaveLength(4)
+  })
+
+  it('refuses to revert changes overwritten since, unless forced', async () => {
+    const { beads, id } = await editedIssue()
+    const retitle = (await beads.getHistory(id)).find((e) => e.eventType === 'title_changed')!
+    await beads.updateIssue(id, { title: 'Later' })
+
+    await expect(beads.revertEvent(retitle.id)).rejects.toThrow(ConflictError)
+    await beads.revertEvent(retitle.id, { force: true })
+    expect((await beads.getIssue(id))?.title).toBe('Draft')
+  })
+
+  it('rejects events that cannot be reverted', async () => {
+    const { beads, id } = await editedIssue()
+    const [created] = await beads.getHistory(id)
+
+    await expect(beads.revertEvent(created.id)).rejects.toThrow(ValidationError)
+  })
+})
@@ -0,0 +1,250 @@
+/**
+ * Beads History - Rebuild past issue states from the events table
+ *
+ * `updateIssue` records one `<field>_changed` event per field with the old
+ * and new value, and status, label and dependency changes have their own
+ * events. Walking these backwards from the current row reconstructs the
+ * issue at any earlier point in time.
+ *
+ * Imports from JSONL do not record events, so changes that arrived that
+ * way are invisible to history.
+ *
+ * @packageDocumentation
+ */
+
+import type { Issue, Event, DependencyTypeValue } from './schema.js'
+import type { SnapshotContent } from './compaction.js'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * Issue fields tracked by `<field>_changed` events
+ */
+export const TRACKED_FIELDS = [
+  'title',
+  'description',
+  'design',
+  'acceptanceCriteria',
+  'notes',
+  'status',
+  'priority',
+  'issueType',
+  'assignee',
+  'estimatedMinutes',
+  'externalRef',
+] as const
+
+export type TrackedField = (typeof TRACKED_FIELDS)[number]
+
+/**
+ * An issue as it was at some point in time
+ */
+export interface IssueState extends Issue {
+  labels: string[]
+}
+
+export interface IssueFieldChange {
+  field: TrackedField | 'labels' | 'closeReason'
+  from: unknown
+  to: unknown
+}
+
+/**
+ * Event types `revertEvent` knows how to invert
+ */
+export const REVERTIBLE_EVENT_TYPES = [
+  ...TRACKED_FIELDS.map((f) => `${f}_changed`),
+  'closed',
+  'reopened',
+  'label_added',
+  'label_removed',
+  'dependency_added',
+  'dependency_removed',
+]
+
+/**
+ * Comment recorded on events written by `revertEvent`
+ */
+export function revertComment(eventId: number): string {
+  return `revert #${eventId}`
+}
+
+/**
+ * ID of the event a revert event undid, if it is one
+ */
+export function revertedEventId(event: Pick<Event, 'comment'>): number | undefined {
+  const match = event.comment?.match(/^revert #(\d+)$/)
+  return match ? Number(match[1]) : undefined
+}
+
+// =============================================================================
+// Field Values
+// =============================================================================
+
+/**
+ * Parse the string stored in an event back into a field value
+ */
+export function parseFieldValue(field: TrackedField, value: string | null): unknown {
+  switch (field) {
+    case 'priority':
+      return Number(value)
+    case 'estimatedMinutes':
+      return value ? Number(value) : null
+    case 'assignee':
+    case 'externalRef':
+      return value || null
+    default:
+      return value ?? ''
+  }
+}
+
+/**
+ * Format a field value for storage in an event
+ */
+export function formatFieldValue(value: unknown): string {
+  return value === null || value === undefined ? '' : String(value)
+}
+
+/**
+ * Split the `type:id` value of a dependency event
+ */
+export function parseDependencyValue(value: string): { type: DependencyTypeValue; dependsOnId: string } {
+  const separator = value.indexOf(':')
+  return {
+    type: value.slice(0, separator) as DependencyTypeValue,
+    dependsOnId: value.slice(separator + 1),
+  }
+}
+
+/**
+ * Field name of a `<field>_changed` event, if it is one
+ */
+export function changedField(eventType: string): TrackedField | undefined {
+  const field = eventType.endsWith('_changed') ? eventType.slice(0, -'_changed'.length) : undefined
+  return TRACKED_FIELDS.find((f) => f === field)
+}
+
+// =============================================================================
+// Rewinding
+// =============================================================================
+
+/**
+ * Undo `events` (oldest first, all after the wanted point in time) on the
+ * current state of an issue.
+ *
+ * `snapshots` maps compaction levels to their pre-compaction content so
+ * compactions can be undone too; without one the compacted text is kept.
+ */
+export function rewindIssue(
+  current: IssueState,
+  events: Event[],
+  snapshots: Map<number, SnapshotContent> = new Map()
+): IssueState {
+  const state: IssueState = { ...current, labels: [...current.labels] }
+
+  for (const event of [...events].reverse()) {
+    const field = changedField(event.eventType)
+    if (field) {
+      ;(state as unknown as Record<string, unknown>)[field] = parseFieldValue(field, event.oldValue)
+      continue
+    }
+
+    switch (event.eventType) {
+      case 'closed':
+        state.status = (event.oldValue as Issue['status']) || 'open'
+        state.closedAt = null
+        break
+      case 'reopened':
+        state.status = 'closed'
+        break
+      case 'label_added':
+        state.labels = state.labels.filter((l) => l !== event.newValue)
+        break
+      case 'label_removed':
+        if (event.oldValue && !state.labels.includes(event.oldValue)) state.labels.push(event.oldValue)
+        break
+      case 'compacted': {
+        const level = Number(event.comment?.match(/^level (\d+)$/)?.[1])
+        const snapshot = snapshots.get(level)
+        if (snapshot) {
+          state.description = snapshot.description
+          state.design = snapshot.design
+          state.notes = snapshot.notes
+        }
+        state.compactionLevel = Math.max(0, level - 1)
+        break
+      }
+    }
+  }
+
+  state.labels.sort()
+  return state
+}
+
+/**
+ * Fill in the timestamps implied by the events up to a point in time.
+ *
+ * A closed issue's close reason comes from the last `closed` event not
+ * written by a revert (those carry the revert marker as their comment); an
+ * open one has none. Deletion follows
+ * the last `deleted` or `restored` event.
+ */
+export function applyTimestamps(state: IssueState, eventsUpTo: Event[], at: string): IssueState {
+  const last = eventsUpTo[eventsUpTo.length - 1]
+  if (last) state.updatedAt = last.createdAt
+
+  const latestFirst = [...eventsUpTo].reverse()
+  const lastClose = latestFirst.find((e) => e.eventType === 'closed' || e.eventType === 'reopened')
+  if (state.status === 'closed' && lastClose?.eventType === 'closed') {
+    state.closedAt = lastClose.createdAt
+  } else if (state.status !== 'closed') {
+    state.closedAt = null
+  }
+
+  const lastReason = latestFirst.find((e) => e.eventType === 'closed' && revertedEventId(e) === undefined)
+  if (state.status !== 'closed') {
+    state.closeReason = ''
+  } else if (lastReason) {
+    state.closeReason = lastReason.comment ?? ''
+  }
+
+  const lastDeletion = latestFirst.find((e) => e.eventType === 'deleted' || e.eventType === 'restored')
+  if (lastDeletion?.eventType === 'deleted') {
+    state.deletedAt = lastDeletion.createdAt
+    state.deletedBy = lastDeletion.actor
+    state.deleteReason = lastDeletion.comment ?? ''
+  } else if (lastDeletion || (state.deletedAt && state.deletedAt > at)) {
+    state.deletedAt = null
+    state.deletedBy = null
+    state.deleteReason = null
+  }
+
+  return state
+}
+
+/**
+ * List the fields that differ between two states of an issue
+ */
+export function diffStates(from: IssueState | undefined, to: IssueState | undefined): IssueFieldChange[] {
+  const changes: IssueFieldChange[] = []
+
+  for (const field of TRACKED_FIELDS) {
+    const a = from?.[field] ?? null
+    const b = to?.[field] ?? null
+    if (a !== b) changes.push({ field, from: a, to: b })
+  }
+
+  const fromReason = from?.closeReason ?? null
+  const toReason = to?.closeReason ?? null
+  if (fromReason !== toReason) changes.push({ field: 'closeReason', from: fromReason, to: toReason })
+
+  const fromLabels = from?.labels ?? []
+  const toLabels = to?.labels ?? []
+  if (fromLabels.join('\n') !== toLabels.join('\n')) {
+    changes.push({ field: 'labels', from: fromLabels, to: toLabels })
+  }
+
+  return changes
+}
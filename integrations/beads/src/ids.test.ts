@@ -0,0 +1,81 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { openTestBeads } from './test-utils.js'
+
+const random = vi.hoisted(() => ({ fixed: false }))
+
+vi.mock('node:crypto', async (importOriginal) => {
+  const crypto = await importOriginal<typeof import('node:crypto')>()
+  return {
+    ...crypto,
+    randomBytes: (size: number) => (random.fixed ? Buffer.alloc(size) : crypto.randomBytes(size)),
+  }
+})
+
+afterEach(() => {
+  random.fixed = false
+  vi.useRealTimers()
+})
+
+describe('issue IDs', () => {
+  it('start with the configured prefix and a 4-character hash', async () => {
+    const configured = openTestBeads({ issuePrefix: 'proj' })
+    expect((await configured.createIssue({ title: 'A' })).id).toMatch(/^proj-[0-9a-z]{4}$/)
+
+    const stored = openTestBeads({ issuePrefix: undefined })
+    expect((await stored.createIssue({ title: 'A' })).id).toMatch(/^bd-[0-9a-z]{4}$/)
+    await stored.setConfig('issue_prefix', 'web')
+    expect((await stored.createIssue({ title: 'B' })).id).toMatch(/^web-[0-9a-z]{4}$/)
+  })
+
+  it('grow the hash up to 8 characters while IDs collide', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] })
+    vi.setSystemTime(new Date('2026-01-01T00:00:00Z'))
+    random.fixed = true
+    const beads = openTestBeads()
+
+    const ids: string[] = []
+    for (let i = 0; i < 5; i++) ids.push((await beads.createIssue({ title: 'Same' })).id)
+
+    expect(ids.map((id) => id.length - 'bd-'.length)).toEqual([4, 5, 6, 7, 8])
+    expect(ids.every((id) => ids[4].endsWith(id.slice('bd-'.length)))).toBe(true)
+    await expect(beads.createIssue({ title: 'Same' })).rejects.toThrow(/Unable to generate a unique issue ID/)
+  })
+})
+
+describe('child IDs', () => {
+  it('number children under their parent, at any depth', async () => {
+    const beads = openTestBeads()
+    const epic = await beads.createIssue({ title: 'Epic', issueType: 'epic' })
+    const first = await beads.createIssue({ title: 'First', parentId: epic.id })
+    const second = await beads.createIssue({ title: 'Second', parentId: epic.id })
+    const nested = await beads.createIssue({ title: 'Nested', parentId: first.id })
+
+    expect([first.id, second.id, nested.id]).toEqual([`${epic.id}.1`, `${epic.id}.2`, `${epic.id}.1.1`])
+    expect(await beads.getDependencies(nested.id)).toEqual([
+      expect.objectContaining({ dependsOnId: first.id, type: 'parent-child' }),
+    ])
+  })
+
+  it('never hand out the same number twice', async () => {
+    const beads = openTestBeads()
+    const epic = await beads.createIssue({ title: 'Epic', issueType: 'epic' })
+
+    const children = await Promise.all(
+      Array.from({ length: 10 }, (_, i) => beads.createIssue({ title: `Child ${i}`, parentId: epic.id }))
+    )
+
+    expect(children.map((c) => c.id).sort()).toEqual(
+      Array.from({ length: 10 }, (_, i) => `${epic.id}.${i + 1}`).sort()
+    )
+  })
+
+  it('skip numbers already taken', async () => {
+    const beads = openTestBeads()
+    const epic = await beads.createIssue({ title: 'Epic', issueType: 'epic' })
+    beads['sqlite']
+      .prepare(`INSERT INTO issues (id, title, created_at, updated_at) VALUES (?, 'Imported', '2026-01-01', '2026-01-01')`)
+      .run(`${epic.id}.1`)
+
+    expect((await beads.createIssue({ title: 'Next', parentId: epic.id })).id).toBe(`${epic.id}.2`)
+  })
+})
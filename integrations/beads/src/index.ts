@@ -15,9 +15,16 @@
  * ```ts
  * import { createBeadsAdapter } from '@tools.org.ai/beads'
  *
- * // Connect to existing beads database
+ * // Connect to a database made by `bd init`, adding this package's tables
  * const beads = createBeadsAdapter({
  *   dbPath: '.beads/beads.db',
+ *   migrate: true,
+ * })
+ *
+ * // Or start a fresh one, without `bd init`
+ * const scratch = createBeadsAdapter({
+ *   dbPath: '/tmp/sandbox/beads.db',
+ *   createIfMissing: true,
  * })
  *
  * // Create an issue
@@ -31,10 +38,62 @@
  * // Get ready issues (no blockers)
  * const ready = await beads.getReadyIssues()
  *
+ * // Or claim the next one for an agent, with a lease that expires unless
+ * // renewed with beads.heartbeat()
+ * const claim = await beads.claimNextReady({ agent: 'agent-7', leaseMinutes: 15 })
+ *
+ * // Turn an agent's markdown checklist into an epic with tasks
+ * const preview = await beads.importMarkdownPlan(plan, { dryRun: true })
+ *
+ * // Brief an agent on where it left off, in at most 2000 tokens
+ * const { text } = await beads.buildSessionContext({ agent: 'agent-7', tokenBudget: 2000 })
+ *
+ * // Fold a near-duplicate into the older issue
+ * const [pair] = await beads.findDuplicates({ threshold: 0.8 })
+ * if (pair) await beads.mergeIssues([pair.issues[1].id], pair.issues[0].id)
+ *
+ * // Roll up an epic's completion across its children
+ * const { percentComplete, byStatus } = await beads.getEpicProgress(epicId)
+ *
+ * // Filter with the query language
+ * const backlog = await beads.listIssues({
+ *   query: 'status:open,in_progress label:backend -label:wontfix priority<=1',
+ * })
+ *
  * // Close when done
  * beads.close()
  * ```
  *
+ * ## Errors
+ *
+ * Failures are `BeadsError` subclasses with a stable `code`:
+ * `NotFoundError`, `InvalidTransitionError`, `ValidationError`,
+ * `DependencyCycleError` and `ConflictError`. Input is checked against the
+ * exported JSON Schemas (`createIssueSchema`, `updateIssueSchema`,
+ * `queryOptionsSchema`), which HTTP and MCP layers can reuse.
+ *
+ * ```ts
+ * try {
+ *   await beads.reopenIssue(id)
+ * } catch (err) {
+ *   if (err instanceof InvalidTransitionError) console.log(err.from) // e.g. 'open'
+ *   else throw err
+ * }
+ * ```
+ *
+ * ## Workflow
+ *
+ * Pass `workflow` to restrict status transitions per issue type, add
+ * guards such as `requireFields()` and `noOpenChildren()`, and run hooks
+ * around every mutation. Rejected changes throw `InvalidTransitionError`.
+ *
+ * ## Search
+ *
+ * `searchIssues` ranks with an FTS5 index when the database has one, and
+ * falls back to substring matching otherwise. Pass `searchIndex: true` or
+ * call `rebuildSearchIndex()` to add it, but only when every `bd` binary
+ * writing the database has FTS5: the index's triggers fire on every write.
+ *
  * ## Schema Access
  *
  * For advanced queries, import the Drizzle schema directly:
@@ -47,6 +106,12 @@
  * const results = await db.select().from(issues).where(...)
  * ```
  *
+ * ## MCP Server
+ *
+ * Run `beads-mcp --db .beads/beads.db --actor agent` to serve the database
+ * to MCP clients over stdio, or embed it with `createBeadsMcpServer` from
+ * `@tools.org.ai/beads/mcp`.
+ *
  * @packageDocumentation
  */
 
@@ -56,5 +121,53 @@ export * from './schema.js'
 // Re-export adapter
 export * from './adapter.js'
 
+// Re-export JSONL serialization
+export * from './jsonl.js'
+
+// Re-export graph algorithms
+export * from './graph.js'
+
+// Re-export search index helpers
+export * from './search.js'
+
+// Re-export compaction helpers
+export * from './compaction.js'
+
+// Re-export history helpers
+export * from './history.js'
+
+// Re-export errors
+export * from './errors.js'
+
+// Re-export input validation schemas
+export * from './validation.js'
+
+// Re-export query language
+export * from './query.js'
+
+// Re-export schema migrations
+export * from './migrations.js'
+
+// Re-export settings
+export * from './config.js'
+
+// Re-export reports
+export * from './reports.js'
+
+// Re-export forecasting
+export * from './forecast.js'
+
+// Re-export markdown rendering and plan parsing
+export * from './markdown.js'
+
+// Re-export workflow rules and guards
+export * from './workflow.js'
+
+// Re-export session context packing
+export * from './session.js'
+
+// Re-export duplicate detection
+export * from './duplicates.js'
+
 // Default export is the factory function
 export { createBeadsAdapter as default } from './adapter.js'
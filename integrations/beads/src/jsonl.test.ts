@@ -0,0 +1,187 @@
+import { readFileSync, writeFileSync } from 'node:fs'
+import { join } from 'node:path'
+import { describe, expect, it } from 'vitest'
+import { computeContentHash, fromJsonlIssue, parseJsonl, stringifyJsonl, toJsonlIssue } from './jsonl.js'
+import type { JsonlIssue } from './jsonl.js'
+import { openTestBeads, testDir } from './test-utils.js'
+
+function record(fields: Partial<JsonlIssue> & { id: string }): JsonlIssue {
+  return {
+    title: `Issue ${fields.id}`,
+    status: 'open',
+    priority: 2,
+    issue_type: 'task',
+    created_at: '2026-01-01T00:00:00.000Z',
+    updated_at: '2026-01-01T00:00:00.000Z',
+    ...fields,
+  }
+}
+
+function writeRecords(path: string, records: JsonlIssue[]): void {
+  writeFileSync(path, stringifyJsonl(records))
+}
+
+describe('content hash', () => {
+  const comment = { issue_id: 'bd-1', author: 'alice', text: 'Hi', created_at: '2026-01-01T00:00:00.000Z' }
+
+  it('ignores the stored hash and comment IDs', () => {
+    const issue = record({ id: 'bd-1', comments: [{ id: 1, ...comment }] })
+    const same = record({ id: 'bd-1', comments: [{ id: 7, ...comment }], content_hash: 'stale' })
+
+    expect(computeContentHash(issue)).toBe(computeContentHash(same))
+    expect(computeContentHash(issue)).not.toBe(computeContentHash({ ...issue, title: 'Changed' }))
+  })
+
+  it('is stable through fromJsonlIssue and toJsonlIssue', () => {
+    const issue = record({ id: 'bd-1', labels: ['b', 'a'], description: '' })
+    const { issue: row, labels, dependencies, comments } = fromJsonlIssue(issue)
+    const normalized = toJsonlIssue(row, labels, dependencies, comments)
+
+    expect(normalized.labels).toEqual(['a', 'b'])
+    expect(normalized).not.toHaveProperty('description')
+    expect(computeContentHash(toJsonlIssue(...Object.values(fromJsonlIssue(normalized)) as Parameters<typeof toJsonlIssue>)))
+      .toBe(computeContentHash(normalized))
+  })
+})
+
+describe('parseJsonl', () => {
+  it('reads what stringifyJsonl writes', () => {
+    const records = [record({ id: 'bd-1' }), record({ id: 'bd-2', labels: ['x'] })]
+
+    expect(parseJsonl(stringifyJsonl(records))).toEqual(records)
+  })
+})
+
+describe('export and import', () => {
+  it('round-trips issues with labels, dependencies and comments', async () => {
+    const source = openTestBeads()
+    const parent = await source.createIssue({ title: 'Parent', issueType: 'epic', labels: ['backend'] })
+    const child = await source.createIssue({ title: 'Child', parentId: parent.id, description: 'Details' })
+    const blocker = await source.createIssue({ title: 'Blocker', priority: 0 })
+    await source.addDependency(child.id, blocker.id, 'blocks')
+    await source.addComment(child.id, 'First note', 'alice')
+    await source.closeIssue(blocker.id, 'Done')
+
+    const { path } = await source.exportJsonl({ full: true })
+
+    const target = openTestBeads()
+    const result = await target.importJsonl({ path })
+    expect(result).toMatchObject({ created: 3, updated: 0, unchanged: 0, warnings: [] })
+
+    for (const id of [parent.id, child.id, blocker.id]) {
+      const [before, after] = await Promise.all([source.getIssue(id), target.getIssue(id)])
+      expect(after).toMatchObject({ ...before, contentHash: expect.any(String) })
+    }
+    expect(await target.getLabels(parent.id)).toEqual(['backend'])
+    expect((await target.getComments(child.id)).map((c) => c.text)).toEqual(['First note'])
+    expect(await target.getReadyIssues()).toContainEqual(expect.objectContaining({ id: child.id }))
+
+    // A second import finds everything in sync
+    expect(await target.importJsonl({ path })).toMatchObject({ created: 0, updated: 0, unchanged: 3 })
+  })
+
+  it('exports incrementally, keeping lines of issues not imported yet', async () => {
+    const dir = testDir()
+    const beads = openTestBeads({}, dir)
+    const path = join(dir, 'issues.jsonl')
+    const first = await beads.createIssue({ title: 'First' })
+    const second = await beads.createIssue({ title: 'Second' })
+
+    expect(await beads.exportJsonl({ path })).toMatchObject({ exported: 2, unchanged: 0, total: 2 })
+    writeFileSync(path, readFileSync(path, 'utf8') + stringifyJsonl([record({ id: 'bd-remote' })]))
+
+    await beads.updateIssue(second.id, { priority: 0 })
+    expect(await beads.exportJsonl({ path })).toMatchObject({ exported: 1, unchanged: 0, total: 3 })
+
+    const lines = parseJsonl(readFileSync(path, 'utf8'))
+    expect(lines.map((l) => l.id).sort()).toEqual([first.id, second.id, 'bd-remote'].sort())
+    expect(lines.find((l) => l.id === second.id)?.priority).toBe(0)
+  })
+
+  it('re-imports a changed record into a database with the search index', async () => {
+    const dir = testDir()
+    const beads = openTestBeads({ searchIndex: true }, dir)
+    const path = join(dir, 'issues.jsonl')
+
+    writeRecords(path, [record({ id: 'bd-1', title: 'Original title' })])
+    expect(await beads.importJsonl({ path })).toMatchObject({ created: 1 })
+
+    writeRecords(path, [record({ id: 'bd-1', title: 'Renamed title', updated_at: '2026-01-02T00:00:00.000Z' })])
+    expect(await beads.importJsonl({ path })).toMatchObject({ created: 0, updated: 1 })
+
+    expect((await beads.getIssue('bd-1'))?.title).toBe('Renamed title')
+    expect((await beads.searchIssues('renamed')).map((r) => r.issue.id)).toEqual(['bd-1'])
+  })
+
+  it('skips dependencies on missing issues without reporting changes on re-import', async () => {
+    const dir = testDir()
+    const beads = openTestBeads({}, dir)
+    const path = join(dir, 'issues.jsonl')
+    const dependency = {
+      issue_id: 'bd-1',
+      depends_on_id: 'bd-2',
+      type: 'blocks' as const,
+      created_at: '2026-01-01T00:00:00.000Z',
+      created_by: 'alice',
+    }
+
+    writeRecords(path, [record({ id: 'bd-1', dependencies: [dependency] })])
+    const first = await beads.importJsonl({ path })
+    expect(first).toMatchObject({ created: 1 })
+    expect(first.warnings).toEqual([expect.stringContaining('bd-2')])
+
+    const second = await beads.importJsonl({ path })
+    expect(second).toMatchObject({ created: 0, updated: 0, unchanged: 1, warnings: [] })
+
+    // Once the other issue arrives, the edge is stored
+    writeRecords(path, [record({ id: 'bd-1', dependencies: [dependency] }), record({ id: 'bd-2' })])
+    expect(await beads.importJsonl({ path })).toMatchObject({ created: 1, updated: 1, warnings: [] })
+    expect(await beads.getDependencies('bd-1')).toEqual([expect.objectContaining({ dependsOnId: 'bd-2' })])
+    expect(await beads.getBlockedIssues()).toEqual([expect.objectContaining({ id: 'bd-1' })])
+
+    await beads.exportJsonl({ path, full: true })
+    expect(parseJsonl(readFileSync(path, 'utf8'))[0].dependencies).toEqual([dependency])
+    expect(await beads.importJsonl({ path })).toMatchObject({ created: 0, updated: 0, unchanged: 2 })
+  })
+
+  it('reports collisions with unexported local changes', async () => {
+    const dir = testDir()
+    const beads = openTestBeads({}, dir)
+    const path = join(dir, 'issues.jsonl')
+
+    writeRecords(path, [record({ id: 'bd-1', title: 'Shared' })])
+    await beads.importJsonl({ path })
+    await beads.updateIssue('bd-1', { title: 'Local edit' })
+    writeRecords(path, [record({ id: 'bd-1', title: 'Remote edit', updated_at: '2026-01-03T00:00:00.000Z' })])
+
+    const kept = await beads.importJsonl({ path, dryRun: true })
+    expect(kept.collisions).toEqual([expect.objectContaining({ id: 'bd-1', resolution: 'kept-local' })])
+    expect(kept.updated).toBe(0)
+
+    const newer = await beads.importJsonl({ path, onCollision: 'newer' })
+    expect(newer.collisions).toEqual([expect.objectContaining({ id: 'bd-1', resolution: 'kept-local' })])
+    expect((await beads.getIssue('bd-1'))?.title).toBe('Local edit')
+
+    const overwritten = await beads.importJsonl({ path, onCollision: 'overwrite' })
+    expect(overwritten.collisions).toEqual([expect.objectContaining({ id: 'bd-1', resolution: 'took-incoming' })])
+    expect((await beads.getIssue('bd-1'))?.title).toBe('Remote edit')
+  })
+
+  it('deletes issues named by tombstones', async () => {
+    const dir = testDir()
+    const beads = openTestBeads({}, dir)
+    const path = join(dir, 'issues.jsonl')
+
+    writeRecords(path, [record({ id: 'bd-1' }), record({ id: 'bd-2' })])
+    await beads.importJsonl({ path })
+    writeRecords(path, [
+      record({ id: 'bd-1', deleted_at: '2026-01-05T00:00:00.000Z', deleted_by: 'bob', updated_at: '2026-01-05T00:00:00.000Z' }),
+      record({ id: 'bd-3', deleted_at: '2026-01-05T00:00:00.000Z' }),
+    ])
+
+    expect(await beads.importJsonl({ path })).toMatchObject({ created: 0, updated: 1 })
+    expect(await beads.getIssue('bd-1')).toBeUndefined()
+    expect(await beads.getIssue('bd-3')).toBeUndefined()
+    expect(await beads.getIssue('bd-2')).toBeDefined()
+  })
+})
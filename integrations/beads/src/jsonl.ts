@@ -0,0 +1,264 @@
+/**
+ * Beads JSONL - Serialization for the git-synced `issues.jsonl` file
+ *
+ * Each line of `issues.jsonl` is one issue with its labels, dependencies
+ * and comments embedded, using the snake_case field names written by the
+ * `bd` CLI.
+ *
+ * Deleted issues stay in the file as tombstones, with their `deleted_*`
+ * fields set, so the deletion reaches other clones on import.
+ *
+ * @packageDocumentation
+ */
+
+import { createHash } from 'node:crypto'
+import type { Issue, Dependency, Comment, DependencyTypeValue, IssueStatusValue, IssueTypeValue } from './schema.js'
+import { ValidationError } from './errors.js'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface JsonlDependency {
+  issue_id: string
+  depends_on_id: string
+  type: DependencyTypeValue
+  created_at: string
+  created_by: string
+}
+
+export interface JsonlComment {
+  id?: number
+  issue_id: string
+  author: string
+  text: string
+  created_at: string
+}
+
+/**
+ * A single line of `issues.jsonl`
+ */
+export interface JsonlIssue {
+  id: string
+  content_hash?: string
+  title: string
+  description?: string
+  design?: string
+  acceptance_criteria?: string
+  notes?: string
+  status: IssueStatusValue
+  priority: number
+  issue_type: IssueTypeValue
+  assignee?: string
+  estimated_minutes?: number
+  created_at: string
+  updated_at: string
+  closed_at?: string
+  close_reason?: string
+  external_ref?: string
+  source_repo?: string
+  compaction_level?: number
+  compacted_at?: string
+  compacted_at_commit?: string
+  original_size?: number
+  deleted_at?: string
+  deleted_by?: string
+  delete_reason?: string
+  original_type?: IssueTypeValue
+  labels?: string[]
+  dependencies?: JsonlDependency[]
+  comments?: JsonlComment[]
+}
+
+// =============================================================================
+// Serialization
+// =============================================================================
+
+/**
+ * Convert an issue and its relations to a JSONL record.
+ *
+ * Empty optional fields are omitted and relations are sorted so the same
+ * issue always serializes to the same line.
+ */
+export function toJsonlIssue(
+  issue: Issue,
+  labels: string[],
+  dependencies: Dependency[],
+  comments: Comment[]
+): JsonlIssue {
+  const record: JsonlIssue = {
+    id: issue.id,
+    title: issue.title,
+    description: issue.description || undefined,
+    design: issue.design || undefined,
+    acceptance_criteria: issue.acceptanceCriteria || undefined,
+    notes: issue.notes || undefined,
+    status: issue.status,
+    priority: issue.priority,
+    issue_type: issue.issueType,
+    assignee: issue.assignee || undefined,
+    estimated_minutes: issue.estimatedMinutes ?? undefined,
+    created_at: issue.createdAt,
+    updated_at: issue.updatedAt,
+    closed_at: issue.closedAt || undefined,
+    close_reason: issue.closeReason || undefined,
+    external_ref: issue.externalRef || undefined,
+    source_repo: issue.sourceRepo && issue.sourceRepo !== '.' ? issue.sourceRepo : undefined,
+    compaction_level: issue.compactionLevel || undefined,
+    compacted_at: issue.compactedAt || undefined,
+    compacted_at_commit: issue.compactedAtCommit || undefined,
+    original_size: issue.originalSize ?? undefined,
+    deleted_at: issue.deletedAt || undefined,
+    deleted_by: (issue.deletedAt && issue.deletedBy) || undefined,
+    delete_reason: (issue.deletedAt && issue.deleteReason) || undefined,
+    original_type: (issue.deletedAt && (issue.originalType as IssueTypeValue)) || undefined,
+    labels: labels.length > 0 ? [...labels].sort() : undefined,
+    dependencies: dependencies.length > 0
+      ? [...dependencies]
+        .sort((a, b) => a.dependsOnId.localeCompare(b.dependsOnId))
+        .map((d) => ({
+          issue_id: d.issueId,
+          depends_on_id: d.dependsOnId,
+          type: d.type,
+          created_at: d.createdAt,
+          created_by: d.createdBy,
+        }))
+      : undefined,
+    comments: comments.length > 0
+      ? [...comments]
+        .sort((a, b) => a.createdAt.localeCompare(b.createdAt) || a.id - b.id)
+        .map((c) => ({
+          id: c.id,
+          issue_id: c.issueId,
+          author: c.author,
+          text: c.text,
+          created_at: c.createdAt,
+        }))
+      : undefined,
+  }
+
+  return stripUndefined(record)
+}
+
+/**
+ * Compute the content hash of a JSONL record.
+ *
+ * The stored `content_hash` and comment IDs are excluded: comment IDs are
+ * local autoincrement values and differ between databases holding the same
+ * content.
+ */
+export function computeContentHash(record: JsonlIssue): string {
+  const { content_hash: _hash, ...content } = record
+  const normalized = {
+    ...content,
+    comments: content.comments?.map(({ id: _id, ...comment }) => comment),
+  }
+  return createHash('sha256').update(JSON.stringify(stripUndefined(normalized))).digest('hex')
+}
+
+/**
+ * Convert a JSONL record back into row shapes.
+ *
+ * Missing optional fields take the same defaults as the `issues` table, so
+ * `toJsonlIssue(fromJsonlIssue(r))` is a normalized form of `r`.
+ */
+export function fromJsonlIssue(record: JsonlIssue): {
+  issue: Issue
+  labels: string[]
+  dependencies: Dependency[]
+  comments: Comment[]
+} {
+  const issue: Issue = {
+    id: record.id,
+    contentHash: record.content_hash ?? null,
+    title: record.title,
+    description: record.description ?? '',
+    design: record.design ?? '',
+    acceptanceCriteria: record.acceptance_criteria ?? '',
+    notes: record.notes ?? '',
+    status: record.status ?? 'open',
+    priority: record.priority ?? 2,
+    issueType: record.issue_type ?? 'task',
+    assignee: record.assignee || null,
+    createdAt: record.created_at,
+    updatedAt: record.updated_at ?? record.created_at,
+    closedAt: record.closed_at || null,
+    closeReason: record.close_reason ?? '',
+    estimatedMinutes: record.estimated_minutes ?? null,
+    externalRef: record.external_ref || null,
+    sourceRepo: record.source_repo || '.',
+    compactionLevel: record.compaction_level ?? 0,
+    compactedAt: record.compacted_at || null,
+    compactedAtCommit: record.compacted_at_commit || null,
+    originalSize: record.original_size ?? null,
+    deletedAt: record.deleted_at || null,
+    deletedBy: record.deleted_by ?? '',
+    deleteReason: record.delete_reason ?? '',
+    originalType: record.original_type ?? '',
+  }
+
+  return {
+    issue,
+    labels: record.labels ?? [],
+    dependencies: (record.dependencies ?? []).map((d) => ({
+      issueId: record.id,
+      dependsOnId: d.depends_on_id,
+      type: d.type ?? 'blocks',
+      createdAt: d.created_at ?? issue.createdAt,
+      createdBy: d.created_by ?? '',
+    })),
+    comments: (record.comments ?? []).map((c) => ({
+      id: c.id ?? 0,
+      issueId: record.id,
+      author: c.author,
+      text: c.text,
+      createdAt: c.created_at,
+    })),
+  }
+}
+
+/**
+ * Serialize records to JSONL text, one issue per line, ordered by ID
+ */
+export function stringifyJsonl(records: JsonlIssue[]): string {
+  const sorted = [...records].sort((a, b) => a.id.localeCompare(b.id))
+  return sorted.map((r) => JSON.stringify(r)).join('\n') + (sorted.length > 0 ? '\n' : '')
+}
+
+function invalidLine(line: number, problem: string): ValidationError {
+  return new ValidationError([{ path: `line ${line}`, message: problem }], `Invalid JSONL at line ${line}: ${problem}`)
+}
+
+/**
+ * Parse JSONL text into records. Blank lines are ignored.
+ *
+ * @throws ValidationError on a line that isn't an issue record
+ */
+export function parseJsonl(text: string): JsonlIssue[] {
+  const records: JsonlIssue[] = []
+  const lines = text.split('\n')
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i].trim()
+    if (!line) continue
+
+    let record: JsonlIssue
+    try {
+      record = JSON.parse(line)
+    } catch (err) {
+      throw invalidLine(i + 1, (err as Error).message)
+    }
+
+    if (!record || typeof record.id !== 'string' || typeof record.title !== 'string') {
+      throw invalidLine(i + 1, 'missing id or title')
+    }
+
+    records.push(record)
+  }
+
+  return records
+}
+
+function stripUndefined<T extends object>(value: T): T {
+  return Object.fromEntries(Object.entries(value).filter(([, v]) => v !== undefined)) as T
+}
@@ -0,0 +1,93 @@
+import { describe, expect, it } from 'vitest'
+import { ValidationError } from './errors.js'
+import { parseMarkdownPlan, renderIssueMarkdown } from './markdown.js'
+import { openTestBeads } from './test-utils.js'
+
+const PLAN = `# Login rework #auth
+
+Replace the old session cookies.
+
+## Backend
+
+1. [ ] Add token table #db
+2. [x] Write migration
+   Run it on staging first.
+3. [ ] Switch sessions over
+
+- [ ] Update docs
+`
+
+describe('parseMarkdownPlan', () => {
+  it('turns headings into epics and checklist items into tasks', () => {
+    const [epic] = parseMarkdownPlan(PLAN)
+
+    expect(epic).toMatchObject({
+      title: 'Login rework',
+      issueType: 'epic',
+      labels: ['auth'],
+      description: 'Replace the old session cookies.',
+      line: 1,
+    })
+    expect(epic.children.map((c) => c.title)).toEqual(['Backend'])
+
+    const tasks = epic.children[0].children
+    expect(tasks.map((t) => [t.title, t.ordered, t.closed, t.labels])).toEqual([
+      ['Add token table', true, false, ['db']],
+      ['Write migration', true, true, []],
+      ['Switch sessions over', true, false, []],
+      ['Update docs', false, false, []],
+    ])
+    expect(tasks[1].description).toBe('Run it on staging first.')
+  })
+
+  it('reports items without a title with their line', () => {
+    expect(() => parseMarkdownPlan('# Plan\n\n- [ ] #tag-only\n')).toThrow('Checklist item without a title on line 3')
+  })
+})
+
+describe('importMarkdownPlan', () => {
+  it('creates the tree with a blocks chain for numbered items', async () => {
+    const beads = openTestBeads()
+    const { issues } = await beads.importMarkdownPlan(PLAN)
+
+    const byTitle = Object.fromEntries(issues.map((i) => [i.title, i]))
+    expect(byTitle['Write migration'].status).toBe('closed')
+    expect(byTitle['Switch sessions over'].blockedBy).toEqual([byTitle['Write migration'].id])
+    expect(byTitle['Update docs'].blockedBy).toEqual([])
+
+    const epic = await beads.getIssueWithRelations(byTitle['Login rework'].id)
+    expect(renderIssueMarkdown(epic!)).toMatch(new RegExp(`^# ${epic!.id}: Login rework\n`))
+    expect((await beads.listChildren(byTitle.Backend.id)).map((c) => c.title).sort())
+      .toEqual(['Add token table', 'Switch sessions over', 'Update docs', 'Write migration'])
+  })
+
+  it('previews without writing', async () => {
+    const beads = openTestBeads()
+    const preview = await beads.importMarkdownPlan(PLAN, { dryRun: true })
+
+    expect(preview.dryRun).toBe(true)
+    expect(preview.issues.map((i) => i.id)).toEqual(['plan-1', 'plan-2', 'plan-3', 'plan-4', 'plan-5', 'plan-6'])
+    expect(await beads.listIssues()).toEqual([])
+  })
+
+  it.each([false, true])('validates items like createIssue (dry run: %s)', async (dryRun) => {
+    const beads = openTestBeads()
+    const plan = `# Plan\n\n- [ ] ${'x'.repeat(501)}\n`
+
+    const result = beads.importMarkdownPlan(plan, { dryRun })
+    await expect(result).rejects.toThrow(ValidationError)
+    await expect(result).rejects.toThrow(/on line 3$/)
+    expect(await beads.listIssues()).toEqual([])
+  })
+
+  it('needs a parent for plans without a single top heading', async () => {
+    const beads = openTestBeads()
+    const plan = '- [ ] One\n- [ ] Two\n'
+
+    await expect(beads.importMarkdownPlan(plan)).rejects.toThrow(ValidationError)
+
+    const parent = await beads.createIssue({ title: 'Parent', issueType: 'epic' })
+    const { issues } = await beads.importMarkdownPlan(plan, { parentId: parent.id })
+    expect(issues.map((i) => i.parentId)).toEqual([parent.id, parent.id])
+  })
+})
@@ -0,0 +1,250 @@
+/**
+ * Beads Markdown - Render issues as markdown and parse markdown plans
+ *
+ * Issues render as a readable page: a header with status, priority and
+ * labels, then sections for each text field, dependencies and comments.
+ *
+ * Plans go the other way. Headings and checklists become a tree of issues:
+ *
+ * ```md
+ * # Search rewrite #search
+ * Replace LIKE scans with FTS5.
+ *
+ * ## Index
+ * 1. [ ] Add the FTS table #db
+ * 2. [ ] Backfill existing issues
+ *    Run in batches of 500.
+ * - [ ] Benchmark
+ *   - [x] Write fixture generator
+ * ```
+ *
+ * The first heading is the epic; deeper headings are epics under the one
+ * above; checklist items are tasks under the nearest heading or the item
+ * they are indented under. `#tags` become labels, checked items are
+ * created closed, and text below a heading or indented under an item is
+ * its description. Consecutive numbered items run in order, each blocking
+ * the next; bulleted items are independent.
+ *
+ * Parsing is pure; the adapter creates the issues.
+ *
+ * @packageDocumentation
+ */
+
+import type { IssueTypeValue } from './schema.js'
+import { ValidationError } from './errors.js'
+import type { IssueWithRelations } from './adapter.js'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * An issue described by a markdown plan
+ */
+export interface PlanItem {
+  title: string
+  description: string
+  issueType: IssueTypeValue
+  labels: string[]
+  /** Checked checklist item */
+  closed: boolean
+  /** Written as a numbered item; blocked by the numbered sibling before it */
+  ordered: boolean
+  /** 1-based line the item starts on */
+  line: number
+  children: PlanItem[]
+}
+
+// =============================================================================
+// Rendering
+// =============================================================================
+
+const PRIORITY_NAMES = ['critical', 'high', 'normal', 'low']
+
+/**
+ * Render an issue as a markdown page. Empty sections are left out.
+ */
+export function renderIssueMarkdown(issue: IssueWithRelations): string {
+  const facts = [
+    `**Status:** ${issue.status}`,
+    `**Priority:** P${issue.priority} (${PRIORITY_NAMES[issue.priority] ?? 'unknown'})`,
+    `**Type:** ${issue.issueType}`,
+    `**Assignee:** ${issue.assignee || 'unassigned'}`,
+  ]
+  if (issue.labels.length > 0) facts.push(`**Labels:** ${issue.labels.join(', ')}`)
+  if (issue.estimatedMinutes !== null) facts.push(`**Estimate:** ${formatMinutes(issue.estimatedMinutes)}`)
+  if (issue.externalRef) facts.push(`**External:** ${issue.externalRef}`)
+
+  const dates = [`Created ${issue.createdAt}`, `updated ${issue.updatedAt}`]
+  if (issue.closedAt) dates.push(`closed ${issue.closedAt}${issue.closeReason ? `: ${issue.closeReason}` : ''}`)
+
+  const blocks = [
+    `# ${issue.id}: ${issue.title}`,
+    facts.join(' · '),
+    `_${dates.join(', ')}_`,
+  ]
+
+  const sections: Array<[string, string]> = [
+    ['Description', issue.description],
+    ['Design', issue.design],
+    ['Acceptance Criteria', issue.acceptanceCriteria],
+    ['Notes', issue.notes],
+  ]
+  for (const [heading, text] of sections) {
+    if (text.trim()) blocks.push(`## ${heading}\n\n${text.trim()}`)
+  }
+
+  if (issue.dependencies.length > 0) {
+    const lines = issue.dependencies.map((dep) => `- ${dep.type}: ${dep.dependsOnId}`)
+    blocks.push(`## Dependencies\n\n${lines.join('\n')}`)
+  }
+
+  if (issue.comments.length > 0) {
+    const comments = [...issue.comments]
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+      .map((c) => `### ${c.author} · ${c.createdAt}\n\n${c.text.trim()}`)
+    blocks.push(`## Comments\n\n${comments.join('\n\n')}`)
+  }
+
+  return blocks.join('\n\n') + '\n'
+}
+
+function formatMinutes(minutes: number): string {
+  const hours = Math.floor(minutes / 60)
+  const rest = minutes % 60
+  if (hours === 0) return `${rest}m`
+  return rest === 0 ? `${hours}h` : `${hours}h ${rest}m`
+}
+
+// =============================================================================
+// Plan Parsing
+// =============================================================================
+
+const HEADING = /^(#{1,6})\s+(.*?)(?:\s+#+)?\s*$/
+const CHECKLIST_ITEM = /^(\s*)([-*+]|\d+[.)])\s+\[([ xX])\]\s+(.*)$/
+const FENCE = /^\s*(```|~~~)/
+const TAG = /(^|\s)#([A-Za-z0-9][\w.:/-]*)/g
+
+/**
+ * Split `#tags` out of a title
+ */
+function extractLabels(text: string): { title: string; labels: string[] } {
+  const labels = [...text.matchAll(TAG)].map((m) => m[2])
+  const title = text.replace(TAG, '$1').replace(/\s+/g, ' ').trim()
+  return { title, labels: [...new Set(labels)] }
+}
+
+/**
+ * Remove the indentation shared by all non-blank lines, and blank lines at
+ * either end
+ */
+function dedent(lines: string[]): string {
+  const indents = lines.filter((l) => l.trim()).map((l) => l.length - l.trimStart().length)
+  const common = indents.length > 0 ? Math.min(...indents) : 0
+  return lines.map((l) => l.slice(common).trimEnd()).join('\n').trim()
+}
+
+function invalidLine(line: number, problem: string): ValidationError {
+  return new ValidationError([{ path: `line ${line}`, message: problem }], `${problem} on line ${line}`)
+}
+
+/**
+ * Parse a markdown plan into a tree of issues.
+ *
+ * Returns the top-level items: a single epic for a plan with one top
+ * heading, or several items for a plan without one, which only makes
+ * sense imported under an existing parent.
+ *
+ * @throws ValidationError on headings or checklist items without a title
+ */
+export function parseMarkdownPlan(text: string): PlanItem[] {
+  interface Open {
+    item: PlanItem
+    /** Heading level, or indentation of a checklist item's marker */
+    depth: number
+    body: string[]
+  }
+
+  const roots: PlanItem[] = []
+  const headings: Open[] = []
+  let items: Open[] = []
+  const all: Open[] = []
+  let fenced = false
+
+  const lines = text.replace(/\r\n?/g, '\n').split('\n')
+
+  lines.forEach((line, index) => {
+    const lineNumber = index + 1
+    const code = fenced || FENCE.test(line)
+    const heading = code ? null : HEADING.exec(line)
+    const checklist = code || heading ? null : CHECKLIST_ITEM.exec(line)
+
+    if (FENCE.test(line)) fenced = !fenced
+
+    if (heading) {
+      const depth = heading[1].length
+      const { title, labels } = extractLabels(heading[2])
+      if (!title) throw invalidLine(lineNumber, 'Heading without a title')
+
+      while (headings.length > 0 && headings[headings.length - 1].depth >= depth) headings.pop()
+      items = []
+
+      const item: PlanItem = {
+        title,
+        description: '',
+        issueType: 'epic',
+        labels,
+        closed: false,
+        ordered: false,
+        line: lineNumber,
+        children: [],
+      }
+      const parent = headings[headings.length - 1]
+      ;(parent ? parent.item.children : roots).push(item)
+
+      const open: Open = { item, depth, body: [] }
+      headings.push(open)
+      all.push(open)
+      return
+    }
+
+    if (checklist) {
+      const depth = checklist[1].replace(/\t/g, '    ').length
+      const { title, labels } = extractLabels(checklist[4])
+      if (!title) throw invalidLine(lineNumber, 'Checklist item without a title')
+
+      while (items.length > 0 && items[items.length - 1].depth >= depth) items.pop()
+
+      const item: PlanItem = {
+        title,
+        description: '',
+        issueType: 'task',
+        labels,
+        closed: checklist[3] !== ' ',
+        ordered: /\d/.test(checklist[2]),
+        line: lineNumber,
+        children: [],
+      }
+      const parent = items[items.length - 1] ?? headings[headings.length - 1]
+      ;(parent ? parent.item.children : roots).push(item)
+
+      const open: Open = { item, depth, body: [] }
+      items.push(open)
+      all.push(open)
+      return
+    }
+
+    // Body text: indented under the innermost item it is indented past,
+    // otherwise part of the heading
+    const indent = line.replace(/\t/g, '    ').length - line.trimStart().length
+    if (line.trim() && !code) {
+      while (items.length > 0 && indent <= items[items.length - 1].depth) items.pop()
+    }
+    const target = items[items.length - 1] ?? headings[headings.length - 1]
+    target?.body.push(line)
+  })
+
+  for (const open of all) open.item.description = dedent(open.body)
+
+  return roots
+}
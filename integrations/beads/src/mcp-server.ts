@@ -0,0 +1,52 @@
+#!/usr/bin/env node
+/**
+ * beads-mcp - Serve a beads database to MCP clients over stdio
+ *
+ * ```bash
+ * beads-mcp --db .beads/beads.db --actor claude --migrate
+ * ```
+ *
+ * The database defaults to `BEADS_DB`, then the nearest `.beads/beads.db`
+ * above the working directory. The actor defaults to `BEADS_ACTOR`, then
+ * `mcp`. `--migrate` upgrades a database made by `bd init` to the schema
+ * this package needs.
+ *
+ * @packageDocumentation
+ */
+
+import { existsSync } from 'node:fs'
+import { dirname, join, resolve } from 'node:path'
+import { parseArgs } from 'node:util'
+import { startBeadsMcpServer } from './mcp.js'
+
+/**
+ * Find `.beads/beads.db` in `dir` or the nearest parent that has one
+ */
+function findDatabase(dir: string): string | undefined {
+  for (let current = resolve(dir); ; current = dirname(current)) {
+    const candidate = join(current, '.beads', 'beads.db')
+    if (existsSync(candidate)) return candidate
+    if (dirname(current) === current) return undefined
+  }
+}
+
+const { values } = parseArgs({
+  options: {
+    db: { type: 'string' },
+    actor: { type: 'string' },
+    migrate: { type: 'boolean' },
+  },
+})
+
+const dbPath = values.db ?? process.env.BEADS_DB ?? findDatabase(process.cwd())
+
+if (!dbPath) {
+  console.error('beads-mcp: no database found; pass --db or set BEADS_DB')
+  process.exit(1)
+}
+
+await startBeadsMcpServer({
+  dbPath,
+  actor: values.actor ?? process.env.BEADS_ACTOR ?? 'mcp',
+  migrate: values.migrate,
+})
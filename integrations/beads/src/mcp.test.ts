@@ -0,0 +1,77 @@
+import { Client } from '@modelcontextprotocol/sdk/client/index.js'
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js'
+import { describe, expect, it, onTestFinished } from 'vitest'
+import { createBeadsMcpServer } from './mcp.js'
+import { openTestBeads } from './test-utils.js'
+
+/**
+ * An MCP client connected to a server on a new database
+ */
+async function connect() {
+  const beads = openTestBeads()
+  const server = createBeadsMcpServer(beads, { version: '0.0.0-test' })
+  const client = new Client({ name: 'test', version: '0.0.0' })
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair()
+  await Promise.all([server.connect(serverTransport), client.connect(clientTransport)])
+  onTestFinished(() => client.close())
+
+  /** Call a tool, returning its parsed JSON text and error flag */
+  const call = async (name: string, args: Record<string, unknown> = {}) => {
+    const result = await client.callTool({ name, arguments: args })
+    const [content] = result.content as Array<{ type: 'text'; text: string }>
+    return { isError: result.isError === true, value: JSON.parse(content.text) }
+  }
+
+  return { beads, client, call }
+}
+
+describe('MCP server', () => {
+  it('lists tools with their input schemas', async () => {
+    const { client } = await connect()
+
+    const { tools } = await client.listTools()
+    const create = tools.find((t) => t.name === 'create_issue')
+    expect(create?.inputSchema).toMatchObject({ type: 'object', properties: { title: { type: 'string' } } })
+    expect(tools.map((t) => t.name)).toEqual(expect.arrayContaining(['ready_issues', 'add_dependency', 'close_issue']))
+  })
+
+  it('runs adapter operations as tools', async () => {
+    const { beads, call } = await connect()
+
+    const { value: blocker } = await call('create_issue', { title: 'Blocker', priority: 0 })
+    const { value: blocked } = await call('create_issue', { title: 'Blocked' })
+    await call('add_dependency', { from: blocked.id, to: blocker.id })
+
+    expect((await call('ready_issues')).value.map((i: { id: string }) => i.id)).toEqual([blocker.id])
+    await call('close_issue', { id: blocker.id, reason: 'done' })
+    expect((await beads.getIssue(blocker.id))?.closeReason).toBe('done')
+    expect((await call('ready_issues')).value.map((i: { id: string }) => i.id)).toEqual([blocked.id])
+  })
+
+  it('returns invalid arguments and adapter errors as tool errors', async () => {
+    const { call, client } = await connect()
+
+    const invalid = await call('create_issue', { title: '', priority: 9 })
+    expect(invalid.isError).toBe(true)
+    expect(invalid.value.error).toMatchObject({ code: 'validation', issues: [{ path: 'title' }, { path: 'priority' }] })
+
+    const missing = await call('close_issue', { id: 'bd-missing' })
+    expect(missing).toMatchObject({ isError: true, value: { error: { name: 'NotFoundError', code: 'not_found' } } })
+
+    await expect(client.callTool({ name: 'no_such_tool', arguments: {} })).rejects.toThrow(/Unknown tool/)
+  })
+
+  it('lists open issues as resources and reads any issue', async () => {
+    const { beads, client } = await connect()
+    const open = await beads.createIssue({ title: 'Open', labels: ['api'] })
+    const closed = await beads.createIssue({ title: 'Closed' })
+    await beads.closeIssue(closed.id)
+
+    const { resources } = await client.listResources()
+    expect(resources.map((r) => r.uri)).toEqual([`beads://issue/${open.id}`])
+
+    const [content] = (await client.readResource({ uri: `beads://issue/${closed.id}` })).contents as Array<{ text: string }>
+    expect(JSON.parse(content.text)).toMatchObject({ id: closed.id, status: 'closed' })
+    await expect(client.readResource({ uri: 'beads://issue/bd-missing' })).rejects.toThrow(/Resource not found/)
+  })
+})
@@ -0,0 +1,341 @@
+/**
+ * Beads MCP - Expose the adapter over the Model Context Protocol
+ *
+ * Adapter operations are MCP tools with JSON Schema inputs, and issues are
+ * MCP resources at `beads://issue/{id}`. Use `createBeadsMcpServer` to embed
+ * the server, or run the `beads-mcp` binary for a stdio server.
+ *
+ * @packageDocumentation
+ */
+
+import { createRequire } from 'node:module'
+import { Server } from '@modelcontextprotocol/sdk/server/index.js'
+import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js'
+import {
+  CallToolRequestSchema,
+  ErrorCode,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  ListToolsRequestSchema,
+  McpError,
+  ReadResourceRequestSchema,
+} from '@modelcontextprotocol/sdk/types.js'
+import { BeadsAdapter } from './adapter.js'
+import type { BeadsConfig, CreateIssueOptions, IssueFilterOptions, UpdateIssueOptions } from './adapter.js'
+import { BeadsError, NotFoundError } from './errors.js'
+import { createIssueSchema, issueFilterSchema, updateIssueSchema, validate } from './validation.js'
+import type { JsonSchema } from './validation.js'
+import { DependencyType } from './schema.js'
+import type { DependencyTypeValue } from './schema.js'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface BeadsMcpOptions {
+  /** Server name reported to clients (default: `beads`) */
+  name?: string
+  /** Server version reported to clients (default: the package version) */
+  version?: string
+}
+
+/**
+ * JSON Schema of a tool's arguments
+ */
+interface ToolInputSchema extends JsonSchema {
+  type: 'object'
+  properties: Record<string, JsonSchema>
+}
+
+interface ToolDefinition<Args> {
+  name: string
+  description: string
+  inputSchema: ToolInputSchema
+  run: (beads: BeadsAdapter, args: Args) => Promise<unknown>
+}
+
+type FilterArgs = IssueFilterOptions & { limit?: number }
+
+// =============================================================================
+// Schemas
+// =============================================================================
+
+// Issue fields and filters share the adapter's validation schemas
+const id: JsonSchema = { type: 'string', minLength: 1, description: 'Issue ID, e.g. bd-a1b2' }
+const dependencyType: JsonSchema = { type: 'string', enum: Object.values(DependencyType) }
+const limit: JsonSchema = { type: 'integer', minimum: 1 }
+const nonEmpty: JsonSchema = { type: 'string', minLength: 1 }
+
+const { status, priority, issueType, assignee, labels } = issueFilterSchema.properties!
+
+const filterFields = { priority, issueType, assignee, labels, limit }
+
+// =============================================================================
+// Tools
+// =============================================================================
+
+/**
+ * Declare a tool whose arguments match its input schema
+ */
+function defineTool<Args>(definition: ToolDefinition<Args>): ToolDefinition<never> {
+  return definition
+}
+
+/**
+ * Pick the issue filters out of tool arguments
+ */
+function filters(args: FilterArgs): FilterArgs {
+  return {
+    status: args.status,
+    priority: args.priority,
+    issueType: args.issueType,
+    assignee: args.assignee,
+    labels: args.labels,
+    limit: args.limit,
+  }
+}
+
+/**
+ * Fail with a not-found error when an operation returns nothing
+ */
+function found<T>(value: T | undefined, id: string): T {
+  if (value === undefined) throw new NotFoundError('issue', id)
+  return value
+}
+
+const tools: Array<ToolDefinition<never>> = [
+  defineTool<CreateIssueOptions>({
+    name: 'create_issue',
+    description: 'Create an issue. Pass parentId to create a child issue of an epic.',
+    inputSchema: { ...createIssueSchema, type: 'object', properties: createIssueSchema.properties! },
+    run: (beads, args) => beads.createIssue(args),
+  }),
+  defineTool<UpdateIssueOptions & { id: string }>({
+    name: 'update_issue',
+    description: 'Update fields of an issue. Only the given fields change.',
+    inputSchema: {
+      type: 'object',
+      properties: { id, ...updateIssueSchema.properties },
+      required: ['id'],
+    },
+    run: (beads, { id, ...fields }) => beads.updateIssue(id, fields),
+  }),
+  defineTool<{ id: string; reason?: string }>({
+    name: 'close_issue',
+    description: 'Close an issue.',
+    inputSchema: {
+      type: 'object',
+      properties: { id, reason: { type: 'string', description: 'Why it was closed' } },
+      required: ['id'],
+    },
+    run: (beads, args) => beads.closeIssue(args.id, args.reason),
+  }),
+  defineTool<{ id: string }>({
+    name: 'reopen_issue',
+    description: 'Reopen a closed issue.',
+    inputSchema: { type: 'object', properties: { id }, required: ['id'] },
+    run: (beads, args) => beads.reopenIssue(args.id),
+  }),
+  defineTool<{ id: string }>({
+    name: 'show_issue',
+    description: 'Show an issue with its labels, dependencies and comments.',
+    inputSchema: { type: 'object', properties: { id }, required: ['id'] },
+    run: async (beads, args) => found(await beads.getIssueWithRelations(args.id), args.id),
+  }),
+  defineTool<FilterArgs & { query?: string; cursor?: string }>({
+    name: 'list_issues',
+    description: 'List issues, newest first. Pass the returned nextCursor to get the next page.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        status,
+        ...filterFields,
+        query: {
+          type: 'string',
+          description: 'Filter query, e.g. "status:open,in_progress label:backend -label:wontfix priority<=1 updated>7d assignee:none"',
+        },
+        cursor: { type: 'string', description: 'nextCursor from the previous page' },
+      },
+    },
+    run: (beads, args) => beads.listIssuesPage({ ...filters(args), query: args.query, cursor: args.cursor }),
+  }),
+  defineTool<FilterArgs & { query: string; cursor?: string }>({
+    name: 'search_issues',
+    description: 'Search issue text, best matches first. Pass the returned nextCursor to get the next page.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        query: nonEmpty,
+        status,
+        ...filterFields,
+        cursor: { type: 'string', description: 'nextCursor from the previous page' },
+      },
+      required: ['query'],
+    },
+    run: (beads, { query, cursor, ...args }) => beads.searchIssuesPage(query, { ...filters(args), cursor }),
+  }),
+  defineTool<FilterArgs>({
+    name: 'ready_issues',
+    description: 'List open issues with no open blockers, in priority order. Use this to pick the next task.',
+    inputSchema: { type: 'object', properties: filterFields },
+    run: (beads, args) => beads.getReadyIssues(filters(args)),
+  }),
+  defineTool<FilterArgs>({
+    name: 'blocked_issues',
+    description: 'List issues waiting on open blockers, with the number of blockers.',
+    inputSchema: { type: 'object', properties: filterFields },
+    run: (beads, args) => beads.getBlockedIssues(filters(args)),
+  }),
+  defineTool<{ from: string; to: string; type?: DependencyTypeValue }>({
+    name: 'add_dependency',
+    description: 'Record that an issue depends on another. The default type "blocks" keeps it out of ready work until the other is closed.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        from: { ...id, description: 'The dependent issue' },
+        to: { ...id, description: 'The issue it depends on' },
+        type: dependencyType,
+      },
+      required: ['from', 'to'],
+    },
+    run: (beads, args) => beads.addDependency(args.from, args.to, args.type),
+  }),
+  defineTool<{ from: string; to: string }>({
+    name: 'remove_dependency',
+    description: 'Remove the dependency of one issue on another.',
+    inputSchema: {
+      type: 'object',
+      properties: { from: id, to: id },
+      required: ['from', 'to'],
+    },
+    run: async (beads, args) => ({ removed: await beads.removeDependency(args.from, args.to) }),
+  }),
+  defineTool<{ id: string; label: string }>({
+    name: 'add_label',
+    description: 'Add a label to an issue.',
+    inputSchema: { type: 'object', properties: { id, label: nonEmpty }, required: ['id', 'label'] },
+    run: async (beads, args) => {
+      await beads.addLabel(args.id, args.label)
+      return { labels: await beads.getLabels(args.id) }
+    },
+  }),
+  defineTool<{ id: string; label: string }>({
+    name: 'remove_label',
+    description: 'Remove a label from an issue.',
+    inputSchema: { type: 'object', properties: { id, label: nonEmpty }, required: ['id', 'label'] },
+    run: async (beads, args) => {
+      await beads.removeLabel(args.id, args.label)
+      return { labels: await beads.getLabels(args.id) }
+    },
+  }),
+  defineTool<{ id: string; text: string }>({
+    name: 'add_comment',
+    description: 'Comment on an issue.',
+    inputSchema: { type: 'object', properties: { id, text: nonEmpty }, required: ['id', 'text'] },
+    run: (beads, args) => beads.addComment(args.id, args.text),
+  }),
+  defineTool<{ id: string }>({
+    name: 'list_comments',
+    description: 'List the comments on an issue, oldest first.',
+    inputSchema: { type: 'object', properties: { id }, required: ['id'] },
+    run: (beads, args) => beads.getComments(args.id),
+  }),
+  defineTool<Record<string, never>>({
+    name: 'stats',
+    description: 'Count issues by status, plus ready issues.',
+    inputSchema: { type: 'object', properties: {} },
+    run: (beads) => beads.getStats(),
+  }),
+]
+
+// =============================================================================
+// Server
+// =============================================================================
+
+const ISSUE_URI_PREFIX = 'beads://issue/'
+
+const { version: packageVersion } = createRequire(import.meta.url)('../package.json') as { version: string }
+
+/**
+ * Create an MCP server backed by an adapter. Connect it to a transport to
+ * start serving; the caller owns the adapter and closes it.
+ */
+export function createBeadsMcpServer(beads: BeadsAdapter, options: BeadsMcpOptions = {}): Server {
+  const server = new Server(
+    { name: options.name ?? 'beads', version: options.version ?? packageVersion },
+    { capabilities: { tools: {}, resources: {} } }
+  )
+
+  server.setRequestHandler(ListToolsRequestSchema, async () => ({
+    tools: tools.map(({ name, description, inputSchema }) => ({ name, description, inputSchema })),
+  }))
+
+  server.setRequestHandler(CallToolRequestSchema, async (request) => {
+    const tool = tools.find((t) => t.name === request.params.name)
+    if (!tool) {
+      throw new McpError(ErrorCode.MethodNotFound, `Unknown tool: ${request.params.name}`)
+    }
+
+    try {
+      const args = validate(tool.inputSchema, request.params.arguments ?? {}, `arguments to ${tool.name}`)
+      const result = await tool.run(beads, args as never)
+      return { content: [{ type: 'text', text: JSON.stringify(result ?? null, null, 2) }] }
+    } catch (err) {
+      // Failures are reported to the model as tool results so it can react;
+      // adapter errors carry a code and details to recover with
+      const text = err instanceof BeadsError
+        ? JSON.stringify({ error: err.toJSON() }, null, 2)
+        : err instanceof Error ? err.message : String(err)
+      return { content: [{ type: 'text', text }], isError: true }
+    }
+  })
+
+  server.setRequestHandler(ListResourcesRequestSchema, async () => {
+    const issues = await beads.listIssues({ status: ['open', 'in_progress', 'blocked'] })
+    return {
+      resources: issues.map((issue) => ({
+        uri: `${ISSUE_URI_PREFIX}${issue.id}`,
+        name: `${issue.id}: ${issue.title}`,
+        mimeType: 'application/json',
+      })),
+    }
+  })
+
+  server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => ({
+    resourceTemplates: [
+      {
+        uriTemplate: `${ISSUE_URI_PREFIX}{id}`,
+        name: 'Issue',
+        description: 'An issue with its labels, dependencies and comments',
+        mimeType: 'application/json',
+      },
+    ],
+  }))
+
+  server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+    const { uri } = request.params
+    const issueId = uri.startsWith(ISSUE_URI_PREFIX) ? decodeURIComponent(uri.slice(ISSUE_URI_PREFIX.length)) : undefined
+    const issue = issueId ? await beads.getIssueWithRelations(issueId) : undefined
+
+    if (!issue) {
+      throw new McpError(ErrorCode.InvalidParams, `Resource not found: ${uri}`)
+    }
+
+    return { contents: [{ uri, mimeType: 'application/json', text: JSON.stringify(issue, null, 2) }] }
+  })
+
+  return server
+}
+
+/**
+ * Open a database and serve it over stdio until the client disconnects
+ */
+export async function startBeadsMcpServer(config: BeadsConfig, options: BeadsMcpOptions = {}): Promise<Server> {
+  const beads = new BeadsAdapter(config)
+  const server = createBeadsMcpServer(beads, options)
+
+  server.onclose = () => beads.close()
+  await server.connect(new StdioServerTransport())
+
+  return server
+}
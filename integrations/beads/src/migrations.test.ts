@@ -0,0 +1,137 @@
+import Database from 'better-sqlite3'
+import { join } from 'node:path'
+import { describe, expect, it } from 'vitest'
+import { SchemaVersionError } from './errors.js'
+import { MIGRATIONS, SCHEMA_VERSION, SCHEMA_VERSION_KEY, getSchemaVersion, migrateDatabase } from './migrations.js'
+import { openTestBeads, testDir } from './test-utils.js'
+
+/**
+ * A database as made by `bd init`, in a new directory
+ */
+function bdDatabase(): { dir: string; sqlite: Database.Database } {
+  const dir = testDir()
+  const sqlite = new Database(join(dir, 'beads.db'))
+  MIGRATIONS[0].up(sqlite)
+  sqlite.prepare(`INSERT INTO metadata (key, value) VALUES ('schema_version', '7'), ('bd_version', '0.9.0')`).run()
+  return { dir, sqlite }
+}
+
+/**
+ * A database at schema version 1, as left by an older version of this package
+ */
+function olderDatabase(): { dir: string; sqlite: Database.Database } {
+  const database = bdDatabase()
+  database.sqlite.prepare(`INSERT INTO metadata (key, value) VALUES (?, '1')`).run(SCHEMA_VERSION_KEY)
+  return database
+}
+
+function metadata(sqlite: Database.Database): Record<string, string> {
+  const rows = sqlite.prepare(`SELECT key, value FROM metadata`).all() as Array<{ key: string; value: string }>
+  return Object.fromEntries(rows.map((r) => [r.key, r.value]))
+}
+
+describe('migrateDatabase', () => {
+  it('creates the full schema in an empty database', () => {
+    const sqlite = new Database(':memory:')
+
+    expect(migrateDatabase(sqlite)).toBe(0)
+    expect(getSchemaVersion(sqlite)).toBe(SCHEMA_VERSION)
+    expect(migrateDatabase(sqlite)).toBe(SCHEMA_VERSION)
+    sqlite.close()
+  })
+
+  it('upgrades an older schema, unless told not to', () => {
+    const { sqlite } = olderDatabase()
+
+    expect(() => migrateDatabase(sqlite, { migrate: false })).toThrow(/older than .*\(bd 0\.9\.0\)/)
+    expect(getSchemaVersion(sqlite)).toBe(1)
+
+    expect(migrateDatabase(sqlite)).toBe(1)
+    expect(getSchemaVersion(sqlite)).toBe(SCHEMA_VERSION)
+    const leases = sqlite.prepare(`SELECT name FROM sqlite_master WHERE name = 'issue_leases'`).get()
+    expect(leases).toBeDefined()
+    sqlite.close()
+  })
+
+  it('upgrades a database made by bd only when asked, under its own key', () => {
+    const { sqlite } = bdDatabase()
+
+    expect(() => migrateDatabase(sqlite)).toThrow(/made by bd alone; open it with migrate: true/)
+    expect(() => migrateDatabase(sqlite, { migrate: false })).toThrow(SchemaVersionError)
+    expect(metadata(sqlite)).toEqual({ schema_version: '7', bd_version: '0.9.0' })
+
+    expect(migrateDatabase(sqlite, { migrate: true })).toBe(0)
+    expect(metadata(sqlite)).toEqual({ schema_version: '7', bd_version: '0.9.0', [SCHEMA_VERSION_KEY]: String(SCHEMA_VERSION) })
+    sqlite.close()
+  })
+
+  it('never writes to a read-only database', () => {
+    const { dir, sqlite } = olderDatabase()
+    sqlite.close()
+    const readonly = new Database(join(dir, 'beads.db'), { readonly: true })
+
+    expect(() => migrateDatabase(readonly, { migrate: true })).toThrow(/read-only/)
+    expect(getSchemaVersion(readonly)).toBe(1)
+    readonly.close()
+  })
+
+  it('refuses a newer schema and leaves it alone', () => {
+    const { sqlite } = olderDatabase()
+    sqlite.prepare(`UPDATE metadata SET value = ? WHERE key = ?`).run(String(SCHEMA_VERSION + 1), SCHEMA_VERSION_KEY)
+
+    const err = (() => {
+      try {
+        migrateDatabase(sqlite)
+      } catch (err) {
+        return err
+      }
+    })()
+    expect(err).toBeInstanceOf(SchemaVersionError)
+    expect(err).toMatchObject({ version: SCHEMA_VERSION + 1, code: 'schema_version' })
+    expect(getSchemaVersion(sqlite)).toBe(SCHEMA_VERSION + 1)
+    sqlite.close()
+  })
+
+  it('rejects required columns it does not know, rolling back', () => {
+    const { sqlite } = olderDatabase()
+    sqlite.exec(`ALTER TABLE issues ADD COLUMN tenant TEXT NOT NULL DEFAULT 'x'`)
+    expect(migrateDatabase(sqlite)).toBe(1)
+
+    const { sqlite: other } = olderDatabase()
+    other.exec(`DROP TABLE labels`)
+    other.exec(`CREATE TABLE labels (issue_id TEXT NOT NULL, label TEXT NOT NULL, tenant TEXT NOT NULL, PRIMARY KEY (issue_id, label))`)
+    expect(() => migrateDatabase(other)).toThrow(/labels requires tenant/)
+    expect(getSchemaVersion(other)).toBe(1)
+
+    sqlite.close()
+    other.close()
+  })
+})
+
+describe('opening a database', () => {
+  it('migrates an existing bd database on open when asked', async () => {
+    const { dir, sqlite } = bdDatabase()
+    sqlite.close()
+
+    expect(() => openTestBeads({ createIfMissing: false }, dir)).toThrow(SchemaVersionError)
+    const beads = openTestBeads({ createIfMissing: false, migrate: true }, dir)
+    const issue = await beads.createIssue({ title: 'After upgrade', estimatedMinutes: 30 })
+    expect((await beads.getIssue(issue.id))?.estimatedMinutes).toBe(30)
+  })
+
+  it('opens an up-to-date database read-only', async () => {
+    const dir = testDir()
+    await openTestBeads({}, dir).createIssue({ title: 'Existing' })
+
+    const readonly = openTestBeads({ createIfMissing: false, readonly: true }, dir)
+    expect((await readonly.listIssues()).map((i) => i.title)).toEqual(['Existing'])
+    await expect(readonly.createIssue({ title: 'New' })).rejects.toThrow(/readonly/)
+  })
+
+  it('fails on a missing file unless asked to create it', () => {
+    const dir = testDir()
+
+    expect(() => openTestBeads({ createIfMissing: false }, dir)).toThrow()
+    expect(() => openTestBeads({ migrate: false }, dir)).not.toThrow()
+  })
+})
@@ -0,0 +1,397 @@
+/**
+ * Beads Migrations - Create and upgrade the database schema
+ *
+ * The schema version is kept under `tools_org_ai.schema_version` in the
+ * `metadata` table, next to `bd`'s own keys. Opening a database applies
+ * the migrations above its version in order, inside one transaction, so a
+ * fresh file gets the full schema. A database made by `bd init` (version
+ * 0) belongs to `bd`: it is only upgraded in place when the caller asks.
+ *
+ * Every migration is written to be safe on databases that already have
+ * some of its tables, since `bd` creates most of them itself.
+ *
+ * @packageDocumentation
+ */
+
+import type Database from 'better-sqlite3'
+import { getTableConfig } from 'drizzle-orm/sqlite-core'
+import type { SQLiteTable } from 'drizzle-orm/sqlite-core'
+import * as schema from './schema.js'
+import { SNAPSHOT_TABLE_DDL } from './compaction.js'
+import { SchemaVersionError } from './errors.js'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface Migration {
+  version: number
+  description: string
+  up(sqlite: Database.Database): void
+}
+
+export interface MigrateOptions {
+  /**
+   * Apply pending migrations. By default only databases this package
+   * created or migrated before are upgraded; `true` also upgrades one made
+   * by `bd` alone, `false` none. An outdated schema left alone is an error.
+   */
+  migrate?: boolean
+}
+
+// =============================================================================
+// Migrations
+// =============================================================================
+
+/**
+ * DDL for the tables and indexes written by `bd init`
+ */
+const BASE_SCHEMA_DDL = `
+  CREATE TABLE IF NOT EXISTS issues (
+    id TEXT PRIMARY KEY,
+    content_hash TEXT,
+    title TEXT NOT NULL,
+    description TEXT NOT NULL DEFAULT '',
+    design TEXT NOT NULL DEFAULT '',
+    acceptance_criteria TEXT NOT NULL DEFAULT '',
+    notes TEXT NOT NULL DEFAULT '',
+    status TEXT NOT NULL DEFAULT 'open',
+    priority INTEGER NOT NULL DEFAULT 2,
+    issue_type TEXT NOT NULL DEFAULT 'task',
+    assignee TEXT,
+    created_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL,
+    closed_at TEXT,
+    close_reason TEXT DEFAULT '',
+    estimated_minutes INTEGER,
+    external_ref TEXT,
+    source_repo TEXT DEFAULT '.',
+    compaction_level INTEGER DEFAULT 0,
+    compacted_at TEXT,
+    compacted_at_commit TEXT,
+    original_size INTEGER,
+    deleted_at TEXT,
+    deleted_by TEXT DEFAULT '',
+    delete_reason TEXT DEFAULT '',
+    original_type TEXT DEFAULT ''
+  );
+  CREATE INDEX IF NOT EXISTS idx_issues_status ON issues(status);
+  CREATE INDEX IF NOT EXISTS idx_issues_priority ON issues(priority);
+  CREATE INDEX IF NOT EXISTS idx_issues_assignee ON issues(assignee);
+  CREATE INDEX IF NOT EXISTS idx_issues_created_at ON issues(created_at);
+
+  CREATE TABLE IF NOT EXISTS dependencies (
+    issue_id TEXT NOT NULL REFERENCES issues(id) ON DELETE CASCADE,
+    depends_on_id TEXT NOT NULL REFERENCES issues(id) ON DELETE CASCADE,
+    type TEXT NOT NULL DEFAULT 'blocks',
+    created_at TEXT NOT NULL,
+    created_by TEXT NOT NULL,
+    PRIMARY KEY (issue_id, depends_on_id)
+  );
+  CREATE INDEX IF NOT EXISTS idx_dependencies_issue ON dependencies(issue_id);
+  CREATE INDEX IF NOT EXISTS idx_dependencies_depends_on ON dependencies(depends_on_id);
+  CREATE INDEX IF NOT EXISTS idx_dependencies_depends_on_type ON dependencies(depends_on_id, type);
+
+  CREATE TABLE IF NOT EXISTS labels (
+    issue_id TEXT NOT NULL REFERENCES issues(id) ON DELETE CASCADE,
+    label TEXT NOT NULL,
+    PRIMARY KEY (issue_id, label)
+  );
+  CREATE INDEX IF NOT EXISTS idx_labels_label ON labels(label);
+
+  CREATE TABLE IF NOT EXISTS comments (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    issue_id TEXT NOT NULL REFERENCES issues(id) ON DELETE CASCADE,
+    author TEXT NOT NULL,
+    text TEXT NOT NULL,
+    created_at TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS idx_comments_issue ON comments(issue_id);
+  CREATE INDEX IF NOT EXISTS idx_comments_created_at ON comments(created_at);
+
+  CREATE TABLE IF NOT EXISTS events (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    issue_id TEXT NOT NULL REFERENCES issues(id) ON DELETE CASCADE,
+    event_type TEXT NOT NULL,
+    actor TEXT NOT NULL,
+    old_value TEXT,
+    new_value TEXT,
+    comment TEXT,
+    created_at TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS idx_events_issue ON events(issue_id);
+  CREATE INDEX IF NOT EXISTS idx_events_created_at ON events(created_at);
+
+  CREATE TABLE IF NOT EXISTS config (
+    key TEXT PRIMARY KEY,
+    value TEXT NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS metadata (
+    key TEXT PRIMARY KEY,
+    value TEXT NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS dirty_issues (
+    issue_id TEXT PRIMARY KEY REFERENCES issues(id) ON DELETE CASCADE,
+    marked_at TEXT NOT NULL,
+    content_hash TEXT
+  );
+  CREATE INDEX IF NOT EXISTS idx_dirty_issues_marked_at ON dirty_issues(marked_at);
+
+  CREATE TABLE IF NOT EXISTS export_hashes (
+    issue_id TEXT PRIMARY KEY REFERENCES issues(id) ON DELETE CASCADE,
+    content_hash TEXT NOT NULL,
+    exported_at TEXT NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS child_counters (
+    parent_id TEXT PRIMARY KEY REFERENCES issues(id) ON DELETE CASCADE,
+    last_child INTEGER NOT NULL DEFAULT 0
+  );
+
+  CREATE TABLE IF NOT EXISTS blocked_issues_cache (
+    issue_id TEXT PRIMARY KEY REFERENCES issues(id) ON DELETE CASCADE
+  );
+`
+
+/**
+ * Columns added by later `bd` versions, with their definitions
+ */
+const ADDED_COLUMNS: Array<[table: string, column: string, definition: string]> = [
+  ['issues', 'content_hash', 'TEXT'],
+  ['issues', 'close_reason', "TEXT DEFAULT ''"],
+  ['issues', 'estimated_minutes', 'INTEGER'],
+  ['issues', 'external_ref', 'TEXT'],
+  ['issues', 'source_repo', "TEXT DEFAULT '.'"],
+  ['issues', 'compaction_level', 'INTEGER DEFAULT 0'],
+  ['issues', 'compacted_at', 'TEXT'],
+  ['issues', 'compacted_at_commit', 'TEXT'],
+  ['issues', 'original_size', 'INTEGER'],
+  ['issues', 'deleted_at', 'TEXT'],
+  ['issues', 'deleted_by', "TEXT DEFAULT ''"],
+  ['issues', 'delete_reason', "TEXT DEFAULT ''"],
+  ['issues', 'original_type', "TEXT DEFAULT ''"],
+  ['dirty_issues', 'content_hash', 'TEXT'],
+]
+
+/**
+ * Columns of a table (empty if it doesn't exist)
+ */
+function tableColumns(sqlite: Database.Database, table: string): Array<{ name: string; notnull: number; dflt_value: unknown }> {
+  return sqlite.prepare(`SELECT name, "notnull", dflt_value FROM pragma_table_info(?)`).all(table) as Array<{
+    name: string
+    notnull: number
+    dflt_value: unknown
+  }>
+}
+
+/**
+ * Schema migrations, in order. The schema version of a database is the
+ * version of the last migration applied to it.
+ */
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: 'Create the bd tables and indexes',
+    up: (sqlite) => sqlite.exec(BASE_SCHEMA_DDL),
+  },
+  {
+    version: 2,
+    description: 'Add columns missing from databases made by older bd versions',
+    up: (sqlite) => {
+      for (const [table, column, definition] of ADDED_COLUMNS) {
+        if (!tableColumns(sqlite, table).some((c) => c.name === column)) {
+          sqlite.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`)
+        }
+      }
+      sqlite.exec(`
+        CREATE INDEX IF NOT EXISTS idx_issues_external_ref ON issues(external_ref);
+        CREATE INDEX IF NOT EXISTS idx_issues_source_repo ON issues(source_repo);
+      `)
+    },
+  },
+  {
+    version: 3,
+    description: 'Create issue_snapshots for compaction',
+    up: (sqlite) => sqlite.exec(SNAPSHOT_TABLE_DDL),
+  },
+  {
+    version: 4,
+    description: 'Create issue_leases for claiming work',
+    up: (sqlite) => sqlite.exec(`
+      CREATE TABLE IF NOT EXISTS issue_leases (
+        issue_id TEXT PRIMARY KEY REFERENCES issues(id) ON DELETE CASCADE,
+        agent TEXT NOT NULL,
+        claimed_at TEXT NOT NULL,
+        heartbeat_at TEXT NOT NULL,
+        expires_at TEXT NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS idx_issue_leases_expires_at ON issue_leases(expires_at);
+    `),
+  },
+]
+
+/**
+ * Schema version this package reads and writes
+ */
+export const SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version
+
+/**
+ * `metadata` key of the schema version, namespaced apart from `bd`'s keys
+ */
+export const SCHEMA_VERSION_KEY = 'tools_org_ai.schema_version'
+
+// =============================================================================
+// Running Migrations
+// =============================================================================
+
+/**
+ * Schema version of a database; 0 for empty files and databases this
+ * package hasn't migrated
+ */
+export function getSchemaVersion(sqlite: Database.Database): number {
+  const hasMetadata = sqlite
+    .prepare(`SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = 'metadata'`)
+    .get()
+  if (!hasMetadata) return 0
+
+  const row = sqlite.prepare(`SELECT value FROM metadata WHERE key = ?`).get(SCHEMA_VERSION_KEY) as
+    | { value: string }
+    | undefined
+  return row ? Number(row.value) : 0
+}
+
+/**
+ * `bd` version recorded in the database, for error messages
+ */
+function bdVersion(sqlite: Database.Database): string {
+  if (tableColumns(sqlite, 'metadata').length === 0) return ''
+  const row = sqlite.prepare(`SELECT value FROM metadata WHERE key = 'bd_version'`).get() as
+    | { value: string }
+    | undefined
+  return row ? ` (bd ${row.value})` : ''
+}
+
+/**
+ * Check that every table has the columns the schema expects, and no
+ * required columns it doesn't know how to fill
+ *
+ * @throws SchemaVersionError naming the offending columns
+ */
+function checkColumns(sqlite: Database.Database): void {
+  const tables: SQLiteTable[] = [
+    schema.issues,
+    schema.dependencies,
+    schema.labels,
+    schema.comments,
+    schema.events,
+    schema.config,
+    schema.metadata,
+    schema.dirtyIssues,
+    schema.exportHashes,
+    schema.childCounters,
+    schema.blockedIssuesCache,
+    schema.issueSnapshots,
+    schema.issueLeases,
+  ]
+
+  for (const table of tables) {
+    const { name, columns } = getTableConfig(table)
+    const expected = new Set(columns.map((c) => c.name))
+    const actual = tableColumns(sqlite, name)
+
+    const missing = [...expected].filter((column) => !actual.some((c) => c.name === column))
+    if (missing.length > 0) {
+      throw new SchemaVersionError(
+        `Table ${name} is missing ${missing.join(', ')}; the database was changed outside of a migration`,
+        getSchemaVersion(sqlite)
+      )
+    }
+
+    const unknown = actual.filter((c) => !expected.has(c.name) && c.notnull && c.dflt_value === null)
+    if (unknown.length > 0) {
+      throw new SchemaVersionError(
+        `Table ${name} requires ${unknown.map((c) => c.name).join(', ')}, which this version of ` +
+          `@tools.org.ai/beads does not know; the database was written by a newer bd${bdVersion(sqlite)}`,
+        getSchemaVersion(sqlite)
+      )
+    }
+  }
+}
+
+/**
+ * Bring a database up to `SCHEMA_VERSION` and check it is usable.
+ *
+ * Pending migrations run in one `BEGIN IMMEDIATE` transaction, so
+ * concurrent openers wait for each other, and a failed migration or an
+ * unusable result leaves the database as it was.
+ *
+ * A database without any tables, e.g. a file just created, always gets
+ * the full schema: there is nothing in it to migrate. Read-only
+ * connections are never written to.
+ *
+ * @returns The schema version before migrating
+ * @throws SchemaVersionError if the database is newer than this package,
+ *   or older and not to be migrated (see `migrate`) or read-only
+ */
+export function migrateDatabase(sqlite: Database.Database, options: MigrateOptions = {}): number {
+  const initial = getSchemaVersion(sqlite)
+  const empty = initial === 0 && !sqlite.prepare(`SELECT 1 FROM sqlite_master WHERE type = 'table'`).get()
+
+  if (initial > SCHEMA_VERSION) {
+    throw new SchemaVersionError(
+      `Database schema version ${initial} is newer than ${SCHEMA_VERSION}, the latest this version of ` +
+        `@tools.org.ai/beads supports${bdVersion(sqlite)}; upgrade the package`,
+      initial
+    )
+  }
+
+  if (initial < SCHEMA_VERSION) {
+    if (sqlite.readonly) {
+      throw new SchemaVersionError(
+        `Database schema version ${initial} is older than ${SCHEMA_VERSION}${bdVersion(sqlite)}; ` +
+          'it is open read-only, so it can\'t be upgraded',
+        initial
+      )
+    }
+    if (options.migrate === false && !empty) {
+      throw new SchemaVersionError(
+        `Database schema version ${initial} is older than ${SCHEMA_VERSION}${bdVersion(sqlite)}; ` +
+          'open it with migrate enabled to upgrade it',
+        initial
+      )
+    }
+    if (options.migrate === undefined && initial === 0 && !empty) {
+      throw new SchemaVersionError(
+        `Database has no @tools.org.ai/beads schema version${bdVersion(sqlite)}, so it was made by bd ` +
+          'alone; open it with migrate: true to add the tables and columns this package needs',
+        initial
+      )
+    }
+
+    sqlite.exec('BEGIN IMMEDIATE')
+    try {
+      // Another process may have migrated while we waited for the lock
+      const current = getSchemaVersion(sqlite)
+      if (current < SCHEMA_VERSION) {
+        for (const migration of MIGRATIONS.filter((m) => m.version > current)) {
+          migration.up(sqlite)
+        }
+        sqlite
+          .prepare(`INSERT INTO metadata (key, value) VALUES (?, ?)
+            ON CONFLICT(key) DO UPDATE SET value = excluded.value`)
+          .run(SCHEMA_VERSION_KEY, String(SCHEMA_VERSION))
+      }
+      checkColumns(sqlite)
+      sqlite.exec('COMMIT')
+    } catch (err) {
+      sqlite.exec('ROLLBACK')
+      throw err
+    }
+  } else {
+    checkColumns(sqlite)
+  }
+
+  return initial
+}
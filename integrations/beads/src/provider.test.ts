@@ -0,0 +1,127 @@
+import { join } from 'node:path'
+import { describe, expect, it, onTestFinished } from 'vitest'
+import { ValidationError } from './errors.js'
+import {
+  beadsTaskProvider,
+  createBeadsProjectProvider,
+  createBeadsTaskProvider,
+  fromTaskPriority,
+  parsePriority,
+  priorityName,
+  toTaskPriority,
+} from './provider.js'
+import { openTestBeads, testDir } from './test-utils.js'
+
+/**
+ * A database with an epic, and the path providers open it by
+ */
+async function database() {
+  const dir = testDir()
+  const beads = openTestBeads({ actor: 'alice' }, dir)
+  const epic = await beads.createIssue({ title: 'Launch', issueType: 'epic' })
+  return { beads, epic, dbPath: join(dir, 'beads.db') }
+}
+
+describe('priority mapping', () => {
+  it('maps beads priorities onto task priorities and back', () => {
+    expect([0, 1, 2, 3].map(toTaskPriority)).toEqual([4, 3, 2, 1])
+    expect([4, 3, 2, 1].map(fromTaskPriority)).toEqual([0, 1, 2, 3])
+    expect([toTaskPriority(-1), toTaskPriority(9), fromTaskPriority(0), fromTaskPriority(7)]).toEqual([4, 1, 3, 0])
+  })
+
+  it('parses priority names and numbers', () => {
+    expect(['urgent', 'Critical', 'high', 'medium', 'normal', 'LOW', 'P1', '3'].map(parsePriority))
+      .toEqual([0, 0, 1, 2, 2, 3, 1, 3])
+    expect(['P4', 'soon', '1.5'].map(parsePriority)).toEqual([undefined, undefined, undefined])
+    expect([0, 3, 9].map(priorityName)).toEqual(['critical', 'low', '9'])
+  })
+})
+
+describe('task provider', () => {
+  async function taskProvider() {
+    const { beads, epic, dbPath } = await database()
+    const tasks = await beadsTaskProvider.factory({})
+    await tasks.initialize({ dbPath })
+    onTestFinished(() => tasks.dispose())
+    return { beads, epic, tasks }
+  }
+
+  it('must be initialized with a database path', async () => {
+    const tasks = createBeadsTaskProvider({})
+
+    await expect(tasks.getTask('bd-1')).rejects.toThrow(/not initialized/)
+    await expect(tasks.initialize({})).rejects.toThrow(/dbPath/)
+  })
+
+  it('maps epics to projects and parents to parent tasks', async () => {
+    const { beads, epic, tasks } = await taskProvider()
+
+    const parent = await tasks.createTask({ content: 'Write docs', projectId: epic.id, priority: 4, labels: ['docs'] })
+    const child = await tasks.createTask({ content: 'API reference', parentId: parent.id })
+
+    expect(parent).toMatchObject({ projectId: epic.id, priority: 4, completed: false, labels: ['docs'] })
+    expect(parent).not.toHaveProperty('parentId')
+    expect(child).toMatchObject({ projectId: epic.id, parentId: parent.id, priority: 2 })
+    expect((await beads.getIssue(parent.id))?.priority).toBe(0)
+    expect(await tasks.listProjects!()).toEqual([{ id: epic.id, name: 'Launch' }])
+  })
+
+  it('completes, updates and lists tasks', async () => {
+    const { epic, tasks } = await taskProvider()
+    const inProject = await tasks.createTask({ content: 'Ship it', projectId: epic.id })
+    const loose = await tasks.createTask({ content: 'Tidy up' })
+
+    expect(await tasks.completeTask(inProject.id)).toBe(true)
+    expect(await tasks.getTask(inProject.id)).toMatchObject({ completed: true, completedAt: expect.any(Date) })
+    expect(await tasks.updateTask(loose.id, { projectId: epic.id, labels: ['chore'] }))
+      .toMatchObject({ projectId: epic.id, labels: ['chore'] })
+
+    const open = await tasks.listTasks({ projectId: epic.id, completed: false })
+    expect(open).toMatchObject({ total: 1, hasMore: false })
+    expect(open.items.map((t) => t.id)).toEqual([loose.id])
+    expect((await tasks.listTasks({ limit: 1 })).hasMore).toBe(true)
+    expect(await tasks.getTask('bd-missing')).toBeNull()
+  })
+
+  it('reports its health', async () => {
+    const { tasks } = await taskProvider()
+
+    expect(await tasks.healthCheck()).toMatchObject({ healthy: true, message: '1 issues' })
+  })
+})
+
+describe('project management provider', () => {
+  async function projectProvider() {
+    const { beads, epic, dbPath } = await database()
+    const projects = createBeadsProjectProvider({})
+    await projects.initialize({ dbPath, actor: 'bob' })
+    onTestFinished(() => projects.dispose())
+    return { beads, epic, projects }
+  }
+
+  it('creates issues in epics with named priorities and estimates', async () => {
+    const { beads, epic, projects } = await projectProvider()
+
+    expect((await projects.listProjects()).items).toEqual([{ id: epic.id, key: epic.id, name: 'Launch', description: '' }])
+    const issue = await projects.createIssue(epic.id, { title: 'Crash on start', type: 'bug', priority: 'urgent', estimate: 90 })
+
+    expect(issue).toMatchObject({ key: issue.id, type: 'bug', status: 'open', priority: 'critical', reporterId: 'bob' })
+    expect(await beads.getIssue(issue.id)).toMatchObject({ priority: 0, estimatedMinutes: 90 })
+    expect((await projects.listIssues(epic.id, { type: ['bug'] })).items.map((i) => i.id)).toEqual([issue.id])
+    expect((await projects.listIssues(epic.id, { type: ['task'] })).items).toEqual([])
+  })
+
+  it('transitions issues between beads statuses', async () => {
+    const { beads, epic, projects } = await projectProvider()
+    const issue = await projects.createIssue(epic.id, { title: 'Fix it', type: 'task' })
+
+    await projects.transition!(issue.id, 'closed')
+    expect((await beads.getIssue(issue.id))?.status).toBe('closed')
+    await projects.transition!(issue.id, 'in_progress')
+    expect(await beads.getIssue(issue.id)).toMatchObject({ status: 'in_progress', closedAt: null })
+
+    await expect(projects.transition!(issue.id, 'done')).rejects.toThrow(ValidationError)
+    expect(await projects.assign!(issue.id, 'carol')).toBe(true)
+    expect(await projects.assign!('bd-missing', 'carol')).toBe(false)
+  })
+})
@@ -0,0 +1,583 @@
+/**
+ * Beads Providers - digital-tools Task and Project Management providers
+ *
+ * Maps beads onto the abstract provider interfaces so code written against
+ * `TaskProvider` or `ProjectManagementProvider` can use a beads database:
+ *
+ * - Epics are projects; an issue belongs to its nearest epic ancestor
+ * - `parent-child` dependencies give parents
+ * - Priorities map 0 (critical) to 3 (low) onto task priorities 4 (urgent)
+ *   to 1, and onto the names critical, high, normal and low
+ *
+ * `digital-tools` (2.4 or later) is an optional peer dependency: install it
+ * alongside to use this entry point. The rest of the package works without
+ * it.
+ *
+ * @packageDocumentation
+ */
+
+import { defineProvider } from 'digital-tools'
+import type {
+  CommentData,
+  CreateIssueOptions as PMCreateIssueOptions,
+  CreateTaskOptions,
+  IssueCommentData,
+  IssueData,
+  IssueListOptions,
+  PaginatedResult,
+  PaginationOptions,
+  PMProjectData,
+  ProjectData,
+  ProjectManagementProvider,
+  ProviderConfig,
+  ProviderHealth,
+  ProviderInfo,
+  TaskData,
+  TaskListOptions,
+  TaskProvider,
+} from 'digital-tools/types'
+import { BeadsAdapter } from './adapter.js'
+import type { UpdateIssueOptions } from './adapter.js'
+import { NotFoundError, ValidationError } from './errors.js'
+import { IssueStatus, IssueType, Priority } from './schema.js'
+import type { Comment, Issue, IssueStatusValue, IssueTypeValue, PriorityValue } from './schema.js'
+
+/**
+ * Beads task provider info
+ */
+export const beadsTaskInfo: ProviderInfo = {
+  id: 'tasks.beads',
+  name: 'Beads',
+  description: 'Beads issue tracker (local SQLite database)',
+  category: 'tasks',
+  website: 'https://github.com/steveyegge/beads',
+  requiredConfig: ['dbPath'],
+  optionalConfig: ['actor', 'issuePrefix', 'migrate'],
+}
+
+/**
+ * Beads project management provider info
+ */
+export const beadsProjectInfo: ProviderInfo = {
+  ...beadsTaskInfo,
+  id: 'project-management.beads',
+  category: 'project-management',
+}
+
+// =============================================================================
+// Mapping
+// =============================================================================
+
+const PRIORITY_NAMES = Object.keys(Priority) as Array<keyof typeof Priority>
+
+/** Search results considered when a listing is filtered by text */
+const MAX_SEARCH_RESULTS = 1000
+
+/**
+ * Beads priority (0 = critical) to task priority (4 = urgent)
+ */
+export function toTaskPriority(priority: number): 1 | 2 | 3 | 4 {
+  return (4 - Math.min(Math.max(priority, 0), 3)) as 1 | 2 | 3 | 4
+}
+
+/**
+ * Task priority (4 = urgent) to beads priority (0 = critical)
+ */
+export function fromTaskPriority(priority: number): PriorityValue {
+  return (4 - Math.min(Math.max(priority, 1), 4)) as PriorityValue
+}
+
+/**
+ * Parse a priority name (`critical`, `urgent`, `high`, `medium`, `normal`,
+ * `low`) or number (`1`, `P1`) into a beads priority
+ */
+export function parsePriority(priority: string): PriorityValue | undefined {
+  const name = priority.toLowerCase()
+  if (name === 'urgent') return Priority.critical
+  if (name === 'medium') return Priority.normal
+  if (name in Priority) return Priority[name as keyof typeof Priority]
+
+  const level = Number(name.replace(/^p/, ''))
+  return Number.isInteger(level) && level >= 0 && level <= 3 ? (level as PriorityValue) : undefined
+}
+
+/**
+ * Name of a beads priority
+ */
+export function priorityName(priority: number): string {
+  return PRIORITY_NAMES[priority] ?? String(priority)
+}
+
+function toIssueType(type: string | undefined): IssueTypeValue {
+  const values: string[] = Object.values(IssueType)
+  return type && values.includes(type) ? (type as IssueTypeValue) : IssueType.task
+}
+
+/**
+ * Page through an in-memory list
+ */
+function paginate<T>(items: T[], options: PaginationOptions = {}): PaginatedResult<T> {
+  const limit = options.limit || 50
+  const offset = options.offset || 0
+
+  return {
+    items: items.slice(offset, offset + limit),
+    total: items.length,
+    hasMore: offset + limit < items.length,
+  }
+}
+
+/**
+ * Load an issue or fail
+ */
+async function requireIssue(beads: BeadsAdapter, id: string, noun = 'Issue'): Promise<Issue> {
+  const issue = await beads.getIssue(id)
+  if (!issue) throw new NotFoundError(noun.toLowerCase(), id)
+  return issue
+}
+
+/**
+ * Replace the labels of an issue
+ */
+async function setLabels(beads: BeadsAdapter, id: string, labels: string[]): Promise<void> {
+  const current = await beads.getLabels(id)
+  for (const label of current.filter((l) => !labels.includes(l))) await beads.removeLabel(id, label)
+  for (const label of labels.filter((l) => !current.includes(l))) await beads.addLabel(id, label)
+}
+
+/**
+ * Make `parentId` the only parent of an issue
+ */
+async function setParent(beads: BeadsAdapter, id: string, parentId: string | undefined): Promise<void> {
+  const current = (await beads.getDependencies(id)).find((d) => d.type === 'parent-child')
+  if (current?.dependsOnId === parentId) return
+
+  if (current) await beads.removeDependency(id, current.dependsOnId)
+  if (parentId) await beads.addDependency(id, parentId, 'parent-child')
+}
+
+/**
+ * Direct parent of an issue and its nearest epic ancestor
+ */
+async function findParents(beads: BeadsAdapter, id: string): Promise<{ parent?: Issue; epic?: Issue }> {
+  const ancestors = await beads.getAncestors(id)
+  return { parent: ancestors[0], epic: ancestors.find((a) => a.issueType === 'epic') }
+}
+
+/**
+ * Issues under an epic, at any depth
+ */
+async function descendants(beads: BeadsAdapter, epicId: string): Promise<Issue[]> {
+  return beads.listChildren(epicId, { recursive: true })
+}
+
+async function toTaskData(beads: BeadsAdapter, issue: Issue): Promise<TaskData> {
+  const { parent, epic } = await findParents(beads, issue.id)
+
+  return {
+    id: issue.id,
+    content: issue.title,
+    description: issue.description,
+    ...(epic && { projectId: epic.id }),
+    ...(parent && parent.id !== epic?.id && { parentId: parent.id }),
+    priority: toTaskPriority(issue.priority),
+    completed: issue.status === 'closed',
+    labels: await beads.getLabels(issue.id),
+    createdAt: new Date(issue.createdAt),
+    ...(issue.closedAt && { completedAt: new Date(issue.closedAt) }),
+  }
+}
+
+async function toIssueData(beads: BeadsAdapter, issue: Issue): Promise<IssueData> {
+  const [created] = await beads.getHistory(issue.id)
+
+  return {
+    id: issue.id,
+    key: issue.id,
+    title: issue.title,
+    description: issue.description,
+    type: issue.issueType,
+    status: issue.status,
+    priority: priorityName(issue.priority),
+    labels: await beads.getLabels(issue.id),
+    ...(issue.assignee && { assigneeId: issue.assignee }),
+    ...(created?.eventType === 'created' && { reporterId: created.actor }),
+    createdAt: new Date(issue.createdAt),
+    updatedAt: new Date(issue.updatedAt),
+  }
+}
+
+function toProjectData(epic: Issue, parent?: Issue): ProjectData {
+  return {
+    id: epic.id,
+    name: epic.title,
+    ...(parent && { parentId: parent.id }),
+  }
+}
+
+function toPMProjectData(epic: Issue): PMProjectData {
+  return {
+    id: epic.id,
+    key: epic.id,
+    name: epic.title,
+    description: epic.description,
+    ...(epic.assignee && { lead: epic.assignee }),
+  }
+}
+
+function toCommentData(comment: Comment): CommentData {
+  return {
+    id: String(comment.id),
+    taskId: comment.issueId,
+    content: comment.text,
+    authorId: comment.author,
+    createdAt: new Date(comment.createdAt),
+  }
+}
+
+// =============================================================================
+// Shared Lifecycle
+// =============================================================================
+
+/**
+ * Lazily opened adapter shared by the methods of one provider instance
+ */
+function connection(info: ProviderInfo) {
+  let beads: BeadsAdapter | undefined
+
+  return {
+    get(): BeadsAdapter {
+      if (!beads) throw new Error(`Provider '${info.id}' is not initialized`)
+      return beads
+    },
+
+    async initialize(cfg: ProviderConfig): Promise<void> {
+      const dbPath = cfg.dbPath as string | undefined
+      if (!dbPath) {
+        throw new Error('Beads database path (dbPath) is required')
+      }
+
+      beads = new BeadsAdapter({
+        dbPath,
+        actor: cfg.actor as string | undefined,
+        issuePrefix: cfg.issuePrefix as string | undefined,
+        migrate: cfg.migrate as boolean | undefined,
+      })
+    },
+
+    async healthCheck(): Promise<ProviderHealth> {
+      const start = Date.now()
+      try {
+        const stats = await this.get().getStats()
+        return {
+          healthy: true,
+          latencyMs: Date.now() - start,
+          message: `${stats.total} issues`,
+          checkedAt: new Date(),
+        }
+      } catch (error) {
+        return {
+          healthy: false,
+          latencyMs: Date.now() - start,
+          message: error instanceof Error ? error.message : 'Unknown error',
+          checkedAt: new Date(),
+        }
+      }
+    },
+
+    async dispose(): Promise<void> {
+      beads?.close()
+      beads = undefined
+    },
+  }
+}
+
+// =============================================================================
+// Task Provider
+// =============================================================================
+
+/**
+ * Create a beads task provider. Call `initialize` with `dbPath` before use.
+ *
+ * `listTasks` treats `filter` as a full-text search.
+ */
+export function createBeadsTaskProvider(_config: ProviderConfig): TaskProvider {
+  const db = connection(beadsTaskInfo)
+
+  return {
+    info: beadsTaskInfo,
+    initialize: (cfg) => db.initialize(cfg),
+    healthCheck: () => db.healthCheck(),
+    dispose: () => db.dispose(),
+
+    async listProjects(): Promise<ProjectData[]> {
+      const beads = db.get()
+      const epics = await beads.listIssues({ issueType: 'epic', orderBy: 'createdAt', orderDir: 'asc' })
+
+      return Promise.all(epics.map(async (epic) => toProjectData(epic, (await findParents(beads, epic.id)).epic)))
+    },
+
+    async createTask(task: CreateTaskOptions): Promise<TaskData> {
+      const beads = db.get()
+      const issue = await beads.createIssue({
+        title: task.content,
+        description: task.description,
+        ...(task.priority !== undefined && { priority: fromTaskPriority(task.priority) }),
+        assignee: task.assigneeId,
+        labels: task.labels,
+        parentId: task.parentId ?? task.projectId,
+      })
+
+      return toTaskData(beads, issue)
+    },
+
+    async getTask(taskId: string): Promise<TaskData | null> {
+      const issue = await db.get().getIssue(taskId)
+      return issue ? toTaskData(db.get(), issue) : null
+    },
+
+    async updateTask(taskId: string, updates: Partial<CreateTaskOptions>): Promise<TaskData> {
+      const beads = db.get()
+
+      await beads.transaction(async (tx) => {
+        await requireIssue(tx, taskId, 'Task')
+
+        await tx.updateIssue(taskId, {
+          title: updates.content,
+          description: updates.description,
+          ...(updates.priority !== undefined && { priority: fromTaskPriority(updates.priority) }),
+          assignee: updates.assigneeId,
+        })
+
+        if (updates.labels !== undefined) await setLabels(tx, taskId, updates.labels)
+        if (updates.parentId !== undefined || updates.projectId !== undefined) {
+          await setParent(tx, taskId, updates.parentId ?? updates.projectId)
+        }
+      })
+
+      return toTaskData(beads, await requireIssue(beads, taskId, 'Task'))
+    },
+
+    async deleteTask(taskId: string): Promise<boolean> {
+      return db.get().deleteIssue(taskId)
+    },
+
+    async completeTask(taskId: string): Promise<boolean> {
+      return (await db.get().closeIssue(taskId)) !== undefined
+    },
+
+    async reopenTask(taskId: string): Promise<boolean> {
+      return (await db.get().reopenIssue(taskId)) !== undefined
+    },
+
+    async listTasks(options: TaskListOptions = {}): Promise<PaginatedResult<TaskData>> {
+      const beads = db.get()
+
+      let issues = options.filter
+        ? (await beads.searchIssues(options.filter, { limit: MAX_SEARCH_RESULTS })).map((r) => r.issue)
+        : await beads.listIssues({ orderBy: 'priority', orderDir: 'asc' })
+
+      if (options.projectId) {
+        const inProject = new Set((await descendants(beads, options.projectId)).map((i) => i.id))
+        issues = issues.filter((i) => inProject.has(i.id))
+      }
+
+      if (options.completed !== undefined) {
+        issues = issues.filter((i) => (i.status === 'closed') === options.completed)
+      }
+
+      const page = paginate(issues, options)
+      return { ...page, items: await Promise.all(page.items.map((i) => toTaskData(beads, i))) }
+    },
+
+    async addComment(taskId: string, content: string): Promise<CommentData> {
+      await requireIssue(db.get(), taskId, 'Task')
+      return toCommentData(await db.get().addComment(taskId, content))
+    },
+  }
+}
+
+/**
+ * Beads task provider definition
+ */
+export const beadsTaskProvider = defineProvider(beadsTaskInfo, async (config) =>
+  createBeadsTaskProvider(config)
+)
+
+// =============================================================================
+// Project Management Provider
+// =============================================================================
+
+/**
+ * Create a beads project management provider. Call `initialize` with
+ * `dbPath` before use.
+ *
+ * Issue `estimate` maps to `estimatedMinutes`, and `transition` takes a
+ * beads status as the status ID.
+ */
+export function createBeadsProjectProvider(_config: ProviderConfig): ProjectManagementProvider {
+  const db = connection(beadsProjectInfo)
+
+  function toUpdate(options: Partial<PMCreateIssueOptions>): UpdateIssueOptions {
+    const priority = options.priority !== undefined ? parsePriority(options.priority) : undefined
+
+    return {
+      title: options.title,
+      description: options.description,
+      ...(options.type !== undefined && { issueType: toIssueType(options.type) }),
+      ...(priority !== undefined && { priority }),
+      assignee: options.assigneeId,
+      estimatedMinutes: options.estimate,
+    }
+  }
+
+  async function setStatus(issueId: string, status: IssueStatusValue): Promise<void> {
+    const beads = db.get()
+    const issue = await requireIssue(beads, issueId)
+
+    if (status === 'closed') {
+      if (issue.status !== 'closed') await beads.closeIssue(issueId)
+    } else {
+      if (issue.status === 'closed') await beads.reopenIssue(issueId)
+      await beads.updateIssue(issueId, { status })
+    }
+  }
+
+  return {
+    info: beadsProjectInfo,
+    initialize: (cfg) => db.initialize(cfg),
+    healthCheck: () => db.healthCheck(),
+    dispose: () => db.dispose(),
+
+    async listProjects(options?: PaginationOptions): Promise<PaginatedResult<PMProjectData>> {
+      const epics = await db.get().listIssues({ issueType: 'epic', orderBy: 'createdAt', orderDir: 'asc' })
+      const page = paginate(epics, options)
+      return { ...page, items: page.items.map(toPMProjectData) }
+    },
+
+    async getProject(projectId: string): Promise<PMProjectData | null> {
+      const issue = await db.get().getIssue(projectId)
+      return issue?.issueType === 'epic' ? toPMProjectData(issue) : null
+    },
+
+    async createIssue(projectId: string, options: PMCreateIssueOptions): Promise<IssueData> {
+      const beads = db.get()
+      const priority = options.priority !== undefined ? parsePriority(options.priority) : undefined
+
+      const issue = await beads.createIssue({
+        title: options.title,
+        description: options.description,
+        issueType: toIssueType(options.type),
+        ...(priority !== undefined && { priority }),
+        assignee: options.assigneeId,
+        labels: options.labels,
+        estimatedMinutes: options.estimate,
+        parentId: options.parentId ?? projectId,
+      })
+
+      return toIssueData(beads, issue)
+    },
+
+    async getIssue(issueId: string): Promise<IssueData | null> {
+      const issue = await db.get().getIssue(issueId)
+      return issue ? toIssueData(db.get(), issue) : null
+    },
+
+    async updateIssue(issueId: string, updates: Partial<PMCreateIssueOptions>): Promise<IssueData> {
+      const beads = db.get()
+
+      await beads.transaction(async (tx) => {
+        await requireIssue(db.get(), issueId)
+        await tx.updateIssue(issueId, toUpdate(updates))
+
+        if (updates.labels !== undefined) await setLabels(tx, issueId, updates.labels)
+        if (updates.parentId !== undefined) await setParent(tx, issueId, updates.parentId)
+      })
+
+      return toIssueData(beads, await requireIssue(db.get(), issueId))
+    },
+
+    async deleteIssue(issueId: string): Promise<boolean> {
+      return db.get().deleteIssue(issueId)
+    },
+
+    async listIssues(projectId: string, options: IssueListOptions = {}): Promise<PaginatedResult<IssueData>> {
+      const beads = db.get()
+
+      const issues = (await descendants(beads, projectId)).filter((issue) =>
+        (!options.status || options.status.includes(issue.status)) &&
+        (!options.type || options.type.includes(issue.issueType)) &&
+        (!options.assignee || issue.assignee === options.assignee)
+      )
+
+      const labelled = options.labels?.length
+        ? (await Promise.all(issues.map(async (issue) => {
+            const labels = await beads.getLabels(issue.id)
+            return options.labels!.every((l) => labels.includes(l)) ? issue : undefined
+          }))).filter((issue): issue is Issue => issue !== undefined)
+        : issues
+
+      const page = paginate(labelled, options)
+      return { ...page, items: await Promise.all(page.items.map((i) => toIssueData(beads, i))) }
+    },
+
+    async searchIssues(query: string, options: IssueListOptions = {}): Promise<PaginatedResult<IssueData>> {
+      const beads = db.get()
+      const statuses: string[] = Object.values(IssueStatus)
+
+      const results = await beads.searchIssues(query, {
+        status: options.status?.filter((s) => statuses.includes(s)) as IssueStatusValue[] | undefined,
+        issueType: options.type?.map(toIssueType),
+        assignee: options.assignee,
+        labels: options.labels,
+        limit: MAX_SEARCH_RESULTS,
+      })
+
+      const page = paginate(results.map((r) => r.issue), options)
+      return { ...page, items: await Promise.all(page.items.map((i) => toIssueData(beads, i))) }
+    },
+
+    async addComment(issueId: string, body: string): Promise<IssueCommentData> {
+      await requireIssue(db.get(), issueId)
+      const comment = await db.get().addComment(issueId, body)
+
+      return {
+        id: String(comment.id),
+        issueId,
+        body: comment.text,
+        authorId: comment.author,
+        createdAt: new Date(comment.createdAt),
+      }
+    },
+
+    async transition(issueId: string, statusId: string): Promise<boolean> {
+      const statuses: string[] = Object.values(IssueStatus)
+      if (!statuses.includes(statusId)) {
+        throw new ValidationError(
+          [{ path: 'statusId', message: `expected one of ${statuses.join(', ')}` }],
+          `Unknown status: ${statusId}. Expected one of: ${statuses.join(', ')}`
+        )
+      }
+
+      await setStatus(issueId, statusId as IssueStatusValue)
+      return true
+    },
+
+    async assign(issueId: string, userId: string): Promise<boolean> {
+      try {
+        await db.get().updateIssue(issueId, { assignee: userId })
+        return true
+      } catch (err) {
+        if (err instanceof NotFoundError) return false
+        throw err
+      }
+    },
+  }
+}
+
+/**
+ * Beads project management provider definition
+ */
+export const beadsProjectProvider = defineProvider(beadsProjectInfo, async (config) =>
+  createBeadsProjectProvider(config)
+)
@@ -0,0 +1,148 @@
+import { describe, expect, it } from 'vitest'
+import { QuerySyntaxError, ValidationError } from './errors.js'
+import { decodeCursor, encodeCursor, parseQuery } from './query.js'
+import { openTestBeads } from './test-utils.js'
+
+const NOW = new Date('2026-09-15T12:00:00.000Z')
+
+describe('parseQuery', () => {
+  it('parses fields, alternatives, negation and groups', () => {
+    expect(parseQuery('status:open,in_progress -label:wontfix (p<=1 OR assignee:none)', NOW)).toEqual({
+      kind: 'and',
+      children: [
+        { kind: 'field', field: 'status', op: ':', values: ['open', 'in_progress'] },
+        { kind: 'not', child: { kind: 'field', field: 'label', op: ':', values: ['wontfix'] } },
+        {
+          kind: 'or',
+          children: [
+            { kind: 'field', field: 'priority', op: '<=', values: [1] },
+            { kind: 'field', field: 'assignee', op: ':', values: [null] },
+          ],
+        },
+      ],
+    })
+  })
+
+  it('resolves relative dates and quoted values', () => {
+    expect(parseQuery('updated>7d', NOW)).toEqual({
+      kind: 'field', field: 'updated', op: '>', values: ['2026-09-08T12:00:00.000Z'],
+    })
+    expect(parseQuery('title:"login page" crash', NOW)).toEqual({
+      kind: 'and',
+      children: [
+        { kind: 'field', field: 'title', op: ':', values: ['login page'] },
+        { kind: 'field', field: 'text', op: ':', values: ['crash'] },
+      ],
+    })
+  })
+
+  it.each([
+    ['nosuch:value', 'Unknown field "nosuch"', 0],
+    ['status:done', 'Unknown status "done"', 0],
+    ['status:open label:', 'Missing value for "label"', 12],
+    ['title>b', 'Field "title" does not support >', 0],
+    ['(status:open', 'Missing closing parenthesis', 0],
+    ['status:open)', 'Unexpected closing parenthesis', 11],
+    ['title:"open', 'Unterminated quote', 0],
+  ])('rejects %s', (query, message, position) => {
+    const error = (() => {
+      try {
+        parseQuery(query, NOW)
+      } catch (err) {
+        return err
+      }
+    })()
+
+    expect(error).toBeInstanceOf(QuerySyntaxError)
+    expect(error).toMatchObject({ position })
+    expect((error as Error).message).toContain(message)
+  })
+})
+
+describe('cursors', () => {
+  it('round-trip and reject garbage', () => {
+    const cursor = { orderBy: 'priority', orderDir: 'asc' as const, value: 1, id: 'bd-1' }
+
+    expect(decodeCursor(encodeCursor(cursor))).toEqual(cursor)
+    expect(() => decodeCursor('not a cursor')).toThrow(QuerySyntaxError)
+  })
+})
+
+describe('listIssues with a query', () => {
+  async function seed() {
+    const beads = openTestBeads()
+    const alice = await beads.createIssue({ title: 'Alice bug', issueType: 'bug', assignee: 'alice', priority: 0, labels: ['backend'] })
+    const bob = await beads.createIssue({ title: 'Bob task', assignee: 'bob', priority: 2, labels: ['backend', 'wontfix'] })
+    const nobody = await beads.createIssue({ title: 'Unassigned chore', assignee: null, priority: 3, estimatedMinutes: 30 })
+    return { beads, alice: alice.id, bob: bob.id, nobody: nobody.id }
+  }
+
+  const ids = async (beads: Awaited<ReturnType<typeof seed>>['beads'], query: string) =>
+    (await beads.listIssues({ query, orderBy: 'priority', orderDir: 'asc' })).map((i) => i.id)
+
+  it('filters on fields, labels and text', async () => {
+    const { beads, alice, bob, nobody } = await seed()
+
+    expect(await ids(beads, 'label:backend -label:wontfix')).toEqual([alice])
+    expect(await ids(beads, 'priority<=2 type:task')).toEqual([bob])
+    expect(await ids(beads, 'assignee:none')).toEqual([nobody])
+    expect(await ids(beads, 'chore OR assignee:alice')).toEqual([alice, nobody])
+    expect(await ids(beads, 'title:*task')).toEqual([bob])
+  })
+
+  it('keeps issues with unset fields when negating', async () => {
+    const { beads, bob, nobody } = await seed()
+
+    expect(await ids(beads, '-assignee:alice')).toEqual([bob, nobody])
+    expect(await ids(beads, 'assignee!=alice')).toEqual([bob, nobody])
+    expect(await ids(beads, 'NOT (assignee:alice OR assignee:bob)')).toEqual([nobody])
+    expect(await ids(beads, '-external:JIRA-1')).toHaveLength(3)
+    expect(await ids(beads, '-estimate<60')).not.toContain(nobody)
+    expect(await ids(beads, '-estimate<60')).toHaveLength(2)
+    expect(await ids(beads, '-(-assignee:alice)')).toHaveLength(1)
+  })
+
+  it('pages with stable cursors', async () => {
+    const beads = openTestBeads()
+    for (let i = 0; i < 5; i++) await beads.createIssue({ title: `Issue ${i}`, priority: 1 })
+
+    const first = await beads.listIssuesPage({ limit: 2, orderBy: 'priority', orderDir: 'asc' })
+    // A new issue sorting first doesn't shift later pages
+    await beads.createIssue({ title: 'Latecomer', priority: 0 })
+    const second = await beads.listIssuesPage({ limit: 2, orderBy: 'priority', orderDir: 'asc', cursor: first.nextCursor })
+    const third = await beads.listIssuesPage({ limit: 2, orderBy: 'priority', orderDir: 'asc', cursor: second.nextCursor })
+
+    const seen = [...first.issues, ...second.issues, ...third.issues].map((i) => i.title)
+    expect(seen.sort()).toEqual(['Issue 0', 'Issue 1', 'Issue 2', 'Issue 3', 'Issue 4'])
+    expect(third.nextCursor).toBeUndefined()
+
+    await expect(beads.listIssues({ cursor: first.nextCursor, orderBy: 'title' })).rejects.toThrow(QuerySyntaxError)
+  })
+
+  it('no longer accepts offset', async () => {
+    const beads = openTestBeads()
+
+    await expect(beads.listIssues({ offset: 1 } as never)).rejects.toThrow(ValidationError)
+  })
+})
+
+describe('searchIssuesPage', () => {
+  it.each([false, true])('pages through results (search index: %s)', async (searchIndex) => {
+    const beads = openTestBeads({ searchIndex })
+    for (let i = 0; i < 5; i++) await beads.createIssue({ title: `Crash ${i}`, description: i % 2 ? 'crash again' : '' })
+
+    const seen: string[] = []
+    let cursor: string | undefined
+    do {
+      const page = await beads.searchIssuesPage('crash', { limit: 2, cursor })
+      seen.push(...page.results.map((r) => r.issue.title))
+      cursor = page.nextCursor
+    } while (cursor)
+
+    expect(seen).toHaveLength(5)
+    expect(new Set(seen).size).toBe(5)
+
+    const listCursor = (await beads.listIssuesPage({ limit: 1 })).nextCursor
+    await expect(beads.searchIssues('crash', { cursor: listCursor })).rejects.toThrow(QuerySyntaxError)
+  })
+})
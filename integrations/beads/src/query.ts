@@ -0,0 +1,507 @@
+/**
+ * Beads Query - Filter language for issues
+ *
+ * The same filters typed into the `bd` CLI:
+ *
+ * ```
+ * status:open,in_progress label:backend -label:wontfix priority<=1 updated>2026-09-01 assignee:none
+ * ```
+ *
+ * Terms are `field:value` (or `field=value`), with `<`, `<=`, `>` and `>=`
+ * for numbers and dates and `!=` to exclude. Commas give alternatives.
+ * Terms are combined with AND unless joined by `OR`; `-term` or `NOT term`
+ * negates, and parentheses group. Words without a field search the text.
+ * Values may be quoted (`title:"login page"`), may use `*` as a wildcard
+ * on text fields, and dates may be relative (`updated>7d` means within the
+ * last 7 days).
+ *
+ * Strings parse to a typed AST, which compiles to SQL over `issues`.
+ *
+ * @packageDocumentation
+ */
+
+import { and, or, sql } from 'drizzle-orm'
+import type { SQL, SQLWrapper } from 'drizzle-orm'
+import * as schema from './schema.js'
+import { DependencyType, IssueStatus, IssueType } from './schema.js'
+import { QuerySyntaxError } from './errors.js'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * Fields that can be filtered on, with their value types
+ */
+export const QUERY_FIELDS = {
+  id: 'string',
+  status: 'status',
+  priority: 'number',
+  type: 'type',
+  assignee: 'string',
+  label: 'string',
+  title: 'text',
+  description: 'text',
+  design: 'text',
+  acceptance: 'text',
+  notes: 'text',
+  text: 'text',
+  external: 'string',
+  repo: 'string',
+  dep: 'dependency',
+  created: 'date',
+  updated: 'date',
+  closed: 'date',
+  estimate: 'number',
+} as const
+
+export type QueryField = keyof typeof QUERY_FIELDS
+
+/**
+ * Other names accepted for fields
+ */
+const FIELD_ALIASES: Record<string, QueryField> = {
+  p: 'priority',
+  issue_type: 'type',
+  issuetype: 'type',
+  labels: 'label',
+  external_ref: 'external',
+  externalref: 'external',
+  source_repo: 'repo',
+  sourcerepo: 'repo',
+  has: 'dep',
+  acceptance_criteria: 'acceptance',
+  created_at: 'created',
+  updated_at: 'updated',
+  closed_at: 'closed',
+  estimated_minutes: 'estimate',
+}
+
+export type QueryOperator = ':' | '!=' | '<' | '<=' | '>' | '>='
+
+/**
+ * A field value: strings, numbers, ISO timestamps for dates, or null for
+ * `none` (unset)
+ */
+export type QueryValue = string | number | null
+
+export type QueryNode =
+  | { kind: 'and'; children: QueryNode[] }
+  | { kind: 'or'; children: QueryNode[] }
+  | { kind: 'not'; child: QueryNode }
+  | { kind: 'field'; field: QueryField; op: QueryOperator; values: QueryValue[] }
+
+// =============================================================================
+// Field Nodes
+// =============================================================================
+
+const RELATIVE_DATE = /^(\d+)([hdw])$/
+const UNIT_MS = { h: 3_600_000, d: 86_400_000, w: 604_800_000 }
+
+/**
+ * Resolve a date value to an ISO timestamp
+ */
+function parseDate(value: string, now: Date): string | undefined {
+  const relative = value.match(RELATIVE_DATE)
+  if (relative) {
+    const unit = relative[2] as keyof typeof UNIT_MS
+    return new Date(now.getTime() - Number(relative[1]) * UNIT_MS[unit]).toISOString()
+  }
+
+  const date = new Date(value)
+  return Number.isNaN(date.getTime()) ? undefined : date.toISOString()
+}
+
+/**
+ * Build a field node, validating and normalizing its values.
+ *
+ * @throws QuerySyntaxError for unknown values or operators the field does not support
+ */
+export function fieldNode(
+  field: QueryField,
+  op: QueryOperator,
+  values: Array<string | number | null>,
+  now: Date = new Date()
+): QueryNode {
+  const type = QUERY_FIELDS[field]
+  const ordered = op !== ':' && op !== '!='
+
+  if (ordered && type !== 'number' && type !== 'date') {
+    throw new QuerySyntaxError(`Field "${field}" does not support ${op}`)
+  }
+
+  if (ordered && values.length !== 1) {
+    throw new QuerySyntaxError(`Field "${field}" takes a single value with ${op}`)
+  }
+
+  const normalized = values.map((value): QueryValue => {
+    if (value === null || value === 'none') {
+      if (ordered) throw new QuerySyntaxError(`Field "${field}" cannot compare with none`)
+      return null
+    }
+
+    const text = String(value)
+
+    switch (type) {
+      case 'status':
+      case 'type':
+      case 'dependency': {
+        const allowed: string[] = Object.values(type === 'status' ? IssueStatus : type === 'type' ? IssueType : DependencyType)
+        if (!allowed.includes(text)) {
+          throw new QuerySyntaxError(`Unknown ${field} "${text}", expected one of: ${allowed.join(', ')}`)
+        }
+        return text
+      }
+      case 'number': {
+        const number = Number(field === 'priority' ? text.replace(/^p/i, '') : text)
+        if (!Number.isInteger(number)) throw new QuerySyntaxError(`Field "${field}" expects a whole number, got "${text}"`)
+        return number
+      }
+      case 'date': {
+        const date = parseDate(text, now)
+        if (!date) throw new QuerySyntaxError(`Field "${field}" expects a date, got "${text}"`)
+        return date
+      }
+      default:
+        return text
+    }
+  })
+
+  return { kind: 'field', field, op, values: normalized }
+}
+
+// =============================================================================
+// Parser
+// =============================================================================
+
+type Token =
+  | { kind: 'open' | 'close' | 'or' | 'not'; position: number }
+  | { kind: 'term'; text: string; negated: boolean; position: number }
+
+/**
+ * Split a query into parentheses, keywords and terms. Quoted sections keep
+ * their spaces and parentheses.
+ */
+function tokenize(input: string): Token[] {
+  const tokens: Token[] = []
+  let i = 0
+
+  while (i < input.length) {
+    const char = input[i]
+
+    if (/\s/.test(char)) {
+      i++
+    } else if (char === '(' || char === ')') {
+      tokens.push({ kind: char === '(' ? 'open' : 'close', position: i })
+      i++
+    } else if (char === '-' && input[i + 1] === '(') {
+      tokens.push({ kind: 'not', position: i })
+      i++
+    } else {
+      const start = i
+      let quoted = false
+
+      while (i < input.length && (quoted || !/[\s)]/.test(input[i]))) {
+        if (input[i] === '"') quoted = !quoted
+        i++
+      }
+
+      if (quoted) throw new QuerySyntaxError('Unterminated quote', start)
+
+      const text = input.slice(start, i)
+      if (text === 'OR') tokens.push({ kind: 'or', position: start })
+      else if (text === 'NOT') tokens.push({ kind: 'not', position: start })
+      else if (text === 'AND') continue
+      else if (text.startsWith('-') && text.length > 1) tokens.push({ kind: 'term', text: text.slice(1), negated: true, position: start })
+      else tokens.push({ kind: 'term', text, negated: false, position: start })
+    }
+  }
+
+  return tokens
+}
+
+/**
+ * Split a value list on commas outside quotes and strip the quotes
+ */
+function splitValues(text: string): string[] {
+  const values: string[] = []
+  let current = ''
+  let quoted = false
+
+  for (const char of text) {
+    if (char === '"') quoted = !quoted
+    else if (char === ',' && !quoted) {
+      values.push(current)
+      current = ''
+    } else current += char
+  }
+
+  values.push(current)
+  return values
+}
+
+const TERM = /^([A-Za-z_]+)(:|!=|<=|>=|<|>|=)(.*)$/s
+
+/**
+ * Parse one term into a field node, or a text search for bare words
+ */
+function parseTerm(token: Extract<Token, { kind: 'term' }>, now: Date): QueryNode {
+  const match = token.text.match(TERM)
+  let node: QueryNode
+
+  if (match) {
+    const name = match[1].toLowerCase()
+    const field = name in QUERY_FIELDS ? (name as QueryField) : FIELD_ALIASES[name]
+    if (!field) throw new QuerySyntaxError(`Unknown field "${match[1]}"`, token.position)
+
+    const values = splitValues(match[3])
+    if (values.some((v) => v === '')) {
+      throw new QuerySyntaxError(`Missing value for "${match[1]}"`, token.position)
+    }
+
+    const op = match[2] === '=' ? ':' : (match[2] as QueryOperator)
+
+    try {
+      node = fieldNode(field, op, values, now)
+    } catch (err) {
+      if (err instanceof QuerySyntaxError) throw new QuerySyntaxError(err.message, token.position)
+      throw err
+    }
+  } else {
+    node = { kind: 'field', field: 'text', op: ':', values: [splitValues(token.text).join(',')] }
+  }
+
+  return token.negated ? { kind: 'not', child: node } : node
+}
+
+/**
+ * Parse a query string into an AST. An empty query gives an empty `and`
+ * node, which matches everything.
+ *
+ * @throws QuerySyntaxError with the position of the problem
+ */
+export function parseQuery(input: string, now: Date = new Date()): QueryNode {
+  const tokens = tokenize(input)
+  let index = 0
+
+  const peek = () => tokens[index]
+
+  const parseOr = (): QueryNode => {
+    const children = [parseAnd()]
+    while (peek()?.kind === 'or') {
+      index++
+      children.push(parseAnd())
+    }
+    return children.length === 1 ? children[0] : { kind: 'or', children }
+  }
+
+  const parseAnd = (): QueryNode => {
+    const children: QueryNode[] = []
+    while (peek() && peek().kind !== 'or' && peek().kind !== 'close') {
+      children.push(parseUnary())
+    }
+
+    if (children.length === 0) {
+      const token = peek()
+      throw new QuerySyntaxError(token ? 'Expected a term' : 'Unexpected end of query', token?.position ?? input.length)
+    }
+
+    return children.length === 1 ? children[0] : { kind: 'and', children }
+  }
+
+  const parseUnary = (): QueryNode => {
+    const token = tokens[index++]
+
+    switch (token.kind) {
+      case 'not':
+        if (!peek()) throw new QuerySyntaxError('Expected a term after NOT', token.position)
+        return { kind: 'not', child: parseUnary() }
+      case 'open': {
+        const node = parseOr()
+        if (peek()?.kind !== 'close') throw new QuerySyntaxError('Missing closing parenthesis', token.position)
+        index++
+        return node
+      }
+      case 'term':
+        return parseTerm(token, now)
+      default:
+        throw new QuerySyntaxError('Unexpected token', token.position)
+    }
+  }
+
+  if (tokens.length === 0) return { kind: 'and', children: [] }
+
+  const node = parseOr()
+  if (index < tokens.length) {
+    throw new QuerySyntaxError('Unexpected closing parenthesis', tokens[index].position)
+  }
+
+  return node
+}
+
+// =============================================================================
+// Compiler
+// =============================================================================
+
+const TEXT_COLUMNS = {
+  title: [schema.issues.title],
+  description: [schema.issues.description],
+  design: [schema.issues.design],
+  acceptance: [schema.issues.acceptanceCriteria],
+  notes: [schema.issues.notes],
+  text: [
+    schema.issues.title,
+    schema.issues.description,
+    schema.issues.design,
+    schema.issues.acceptanceCriteria,
+    schema.issues.notes,
+  ],
+}
+
+const COLUMNS = {
+  id: schema.issues.id,
+  status: schema.issues.status,
+  priority: schema.issues.priority,
+  type: schema.issues.issueType,
+  assignee: schema.issues.assignee,
+  external: schema.issues.externalRef,
+  repo: schema.issues.sourceRepo,
+  created: schema.issues.createdAt,
+  updated: schema.issues.updatedAt,
+  closed: schema.issues.closedAt,
+  estimate: schema.issues.estimatedMinutes,
+}
+
+/**
+ * Escape LIKE wildcards, then turn `*` into `%`
+ */
+function likePattern(value: string, contains: boolean): string {
+  const escaped = value.replace(/[\\%_]/g, (c) => `\\${c}`).replace(/\*/g, '%')
+  return contains ? `%${escaped}%` : escaped
+}
+
+/**
+ * Match one value against a column: null matches unset, `*` is a wildcard
+ */
+function matchValue(column: SQLWrapper, value: QueryValue): SQL {
+  if (value === null) return sql`(${column} is null or ${column} = '')`
+  if (typeof value === 'string' && value.includes('*')) return sql`${column} like ${likePattern(value, false)} escape '\\'`
+  return sql`${column} = ${value}`
+}
+
+/**
+ * Condition for one field node with a positive operator
+ */
+function compileField(node: Extract<QueryNode, { kind: 'field' }>): SQL {
+  const { field, op, values } = node
+
+  if (op !== ':' && op !== '!=') {
+    const column = COLUMNS[field as keyof typeof COLUMNS]
+    return sql`${column} ${sql.raw(op)} ${values[0]}`
+  }
+
+  let condition: SQL
+
+  if (field in TEXT_COLUMNS) {
+    const columns = TEXT_COLUMNS[field as keyof typeof TEXT_COLUMNS]
+    condition = or(...values.flatMap((value) => columns.map((column) =>
+      value === null
+        ? sql`${column} = ''`
+        : sql`${column} like ${likePattern(String(value), true)} escape '\\'`
+    )))!
+  } else if (field === 'label') {
+    const labelled = (value: QueryValue) => value === null
+      ? sql`not exists (select 1 from labels where labels.issue_id = ${schema.issues.id})`
+      : sql`exists (select 1 from labels where labels.issue_id = ${schema.issues.id} and ${matchValue(sql`labels.label`, value)})`
+    condition = or(...values.map(labelled))!
+  } else if (field === 'dep') {
+    const dependency = (value: QueryValue) => value === null
+      ? sql`not exists (select 1 from dependencies where dependencies.issue_id = ${schema.issues.id})`
+      : sql`exists (select 1 from dependencies where dependencies.issue_id = ${schema.issues.id} and dependencies.type = ${value})`
+    condition = or(...values.map(dependency))!
+  } else if (QUERY_FIELDS[field] === 'date') {
+    // A date without a time matches the whole day
+    const column = COLUMNS[field as keyof typeof COLUMNS]
+    condition = or(...values.map((value) => {
+      if (value === null) return sql`${column} is null`
+      const end = new Date(new Date(value).getTime() + 86_400_000).toISOString()
+      return sql`(${column} >= ${value} and ${column} < ${end})`
+    }))!
+  } else {
+    const column = COLUMNS[field as keyof typeof COLUMNS]
+    condition = or(...values.map((value) => matchValue(column, value)))!
+  }
+
+  return op === '!=' ? negate(condition) : condition
+}
+
+/**
+ * Negate a condition, counting an unknown (NULL) result as false first,
+ * so `-assignee:alice` keeps unassigned issues. A plain NOT of NULL is
+ * NULL, which would drop them.
+ */
+function negate(condition: SQL): SQL {
+  return sql`not coalesce(${condition}, 0)`
+}
+
+/**
+ * Compile an AST into a SQL condition over the `issues` table
+ */
+export function compileQuery(node: QueryNode): SQL {
+  switch (node.kind) {
+    case 'and':
+      return node.children.length === 0 ? sql`1 = 1` : and(...node.children.map(compileQuery))!
+    case 'or':
+      return or(...node.children.map(compileQuery))!
+    case 'not':
+      return negate(compileQuery(node.child))
+    case 'field':
+      return compileField(node)
+  }
+}
+
+// =============================================================================
+// Cursors
+// =============================================================================
+
+/**
+ * Position after the last issue of a page: the ordering it was read with,
+ * and that issue's sort value and ID (which breaks ties)
+ */
+export interface QueryCursor {
+  orderBy: string
+  orderDir: 'asc' | 'desc'
+  value: string | number
+  id: string
+}
+
+/**
+ * Encode a cursor as an opaque URL-safe string
+ */
+export function encodeCursor(cursor: QueryCursor): string {
+  const { orderBy, orderDir, value, id } = cursor
+  return Buffer.from(JSON.stringify([orderBy, orderDir, value, id])).toString('base64url')
+}
+
+/**
+ * Decode a cursor made by `encodeCursor`
+ *
+ * @throws QuerySyntaxError for malformed cursors
+ */
+export function decodeCursor(text: string): QueryCursor {
+  try {
+    const [orderBy, orderDir, value, id] = JSON.parse(Buffer.from(text, 'base64url').toString('utf8'))
+    if (
+      typeof orderBy === 'string' &&
+      (orderDir === 'asc' || orderDir === 'desc') &&
+      (typeof value === 'string' || typeof value === 'number') &&
+      typeof id === 'string'
+    ) {
+      return { orderBy, orderDir, value, id }
+    }
+  } catch {
+    // Fall through
+  }
+
+  throw new QuerySyntaxError('Invalid cursor')
+}
@@ -0,0 +1,215 @@
+import { join } from 'node:path'
+import { writeFileSync } from 'node:fs'
+import { describe, expect, it } from 'vitest'
+import { stringifyJsonl } from './jsonl.js'
+import {
+  assigneeLoadReport,
+  burndownReport,
+  issueTiming,
+  leadCycleReport,
+  statusIntervals,
+  summarizeDurations,
+  throughputReport,
+  timeInStatus,
+  toCsv,
+} from './reports.js'
+import type { Event, Issue } from './schema.js'
+import { openTestBeads, testDir } from './test-utils.js'
+
+function issue(id: string, fields: Partial<Issue> = {}): Issue {
+  return {
+    id,
+    contentHash: null,
+    title: id,
+    description: '',
+    design: '',
+    acceptanceCriteria: '',
+    notes: '',
+    status: 'open',
+    priority: 2,
+    issueType: 'task',
+    assignee: null,
+    createdAt: '2026-01-01T00:00:00.000Z',
+    updatedAt: '2026-01-01T00:00:00.000Z',
+    closedAt: null,
+    closeReason: '',
+    estimatedMinutes: null,
+    externalRef: null,
+    sourceRepo: '.',
+    compactionLevel: 0,
+    compactedAt: null,
+    compactedAtCommit: null,
+    originalSize: null,
+    deletedAt: null,
+    deletedBy: '',
+    deleteReason: '',
+    originalType: '',
+    ...fields,
+  }
+}
+
+let nextEventId = 1
+
+function event(issueId: string, eventType: string, oldValue: string | null, newValue: string | null, createdAt: string): Event {
+  return { id: nextEventId++, issueId, eventType, actor: 'alice', oldValue, newValue, comment: null, createdAt }
+}
+
+const CLOSED = issue('bd-1', { status: 'closed', closedAt: '2026-01-10T00:00:00.000Z' })
+
+const WORKED = issue('bd-2', { status: 'closed', closedAt: '2026-01-05T00:00:00.000Z', issueType: 'bug' })
+const WORKED_EVENTS = [
+  event('bd-2', 'status_changed', 'open', 'in_progress', '2026-01-02T00:00:00.000Z'),
+  event('bd-2', 'status_changed', 'in_progress', 'blocked', '2026-01-03T00:00:00.000Z'),
+  event('bd-2', 'closed', 'blocked', 'closed', '2026-01-05T00:00:00.000Z'),
+]
+
+describe('statusIntervals', () => {
+  it('rebuilds the statuses from events', () => {
+    expect(statusIntervals(WORKED, WORKED_EVENTS)).toEqual([
+      { status: 'open', start: '2026-01-01T00:00:00.000Z', end: '2026-01-02T00:00:00.000Z' },
+      { status: 'in_progress', start: '2026-01-02T00:00:00.000Z', end: '2026-01-03T00:00:00.000Z' },
+      { status: 'blocked', start: '2026-01-03T00:00:00.000Z', end: '2026-01-05T00:00:00.000Z' },
+      { status: 'closed', start: '2026-01-05T00:00:00.000Z', end: null },
+    ])
+  })
+
+  it('takes an issue without events to be open until closedAt', () => {
+    expect(statusIntervals(CLOSED, [])).toEqual([
+      { status: 'open', start: '2026-01-01T00:00:00.000Z', end: '2026-01-10T00:00:00.000Z' },
+      { status: 'closed', start: '2026-01-10T00:00:00.000Z', end: null },
+    ])
+    expect(statusIntervals(issue('bd-3', { status: 'in_progress' }), [])).toEqual([
+      { status: 'in_progress', start: '2026-01-01T00:00:00.000Z', end: null },
+    ])
+  })
+
+  it('closes at closedAt when the events stop short of the close', () => {
+    const reopened = [
+      event('bd-1', 'closed', 'open', 'closed', '2026-01-03T00:00:00.000Z'),
+      event('bd-1', 'reopened', 'closed', 'open', '2026-01-04T00:00:00.000Z'),
+    ]
+
+    expect(statusIntervals(CLOSED, reopened).slice(-2)).toEqual([
+      { status: 'open', start: '2026-01-04T00:00:00.000Z', end: '2026-01-10T00:00:00.000Z' },
+      { status: 'closed', start: '2026-01-10T00:00:00.000Z', end: null },
+    ])
+  })
+})
+
+describe('lead and cycle time', () => {
+  it('measures from creation and first start to close', () => {
+    expect(issueTiming(WORKED, statusIntervals(WORKED, WORKED_EVENTS))).toMatchObject({
+      startedAt: '2026-01-02T00:00:00.000Z',
+      closedAt: '2026-01-05T00:00:00.000Z',
+      leadTimeHours: 96,
+      cycleTimeHours: 72,
+    })
+  })
+
+  it('falls back to closedAt for issues without events', () => {
+    expect(issueTiming(CLOSED, statusIntervals(CLOSED, []))).toMatchObject({
+      closedAt: '2026-01-10T00:00:00.000Z',
+      leadTimeHours: 216,
+      cycleTimeHours: null,
+    })
+    expect(issueTiming(CLOSED, [{ status: 'open', start: CLOSED.createdAt, end: null }]).leadTimeHours).toBe(216)
+  })
+
+  it('summarizes per type', () => {
+    expect(summarizeDurations([])).toEqual({ count: 0, mean: null, median: null, p85: null })
+    expect(summarizeDurations([4, 1, 3, 2])).toEqual({ count: 4, mean: 2.5, median: 2.5, p85: 4 })
+
+    const timings = [issueTiming(CLOSED, statusIntervals(CLOSED, [])), issueTiming(WORKED, statusIntervals(WORKED, WORKED_EVENTS))]
+    expect(leadCycleReport(timings).byType.map((s) => [s.issueType, s.lead.count, s.cycle.count])).toEqual([
+      ['all', 2, 1],
+      ['bug', 1, 1],
+      ['task', 1, 0],
+    ])
+  })
+})
+
+describe('throughput, burndown and time in status', () => {
+  const timelines = [
+    { issue: CLOSED, intervals: statusIntervals(CLOSED, []) },
+    { issue: WORKED, intervals: statusIntervals(WORKED, WORKED_EVENTS) },
+  ]
+
+  it('counts creates and closes per week', () => {
+    const timings = timelines.map((t) => issueTiming(t.issue, t.intervals))
+
+    expect(throughputReport(timings, 2, new Date('2026-01-10T00:00:00.000Z'))).toEqual([
+      { weekStart: '2025-12-29', created: 2, closed: 0 },
+      { weekStart: '2026-01-05', created: 0, closed: 2 },
+    ])
+  })
+
+  it('counts open and closed issues at the end of each day', () => {
+    const points = burndownReport(timelines, new Date('2026-01-04T00:00:00.000Z'), new Date('2026-01-10T12:00:00.000Z'))
+
+    expect(points.map((p) => [p.date, p.open, p.closed])).toEqual([
+      ['2026-01-04', 2, 0],
+      ['2026-01-05', 1, 1],
+      ['2026-01-06', 1, 1],
+      ['2026-01-07', 1, 1],
+      ['2026-01-08', 1, 1],
+      ['2026-01-09', 1, 1],
+      ['2026-01-10', 0, 2],
+    ])
+  })
+
+  it('adds up hours per status', () => {
+    expect(timeInStatus(WORKED, timelines[1].intervals, new Date('2026-01-06T00:00:00.000Z'))).toEqual({
+      id: 'bd-2', title: 'bd-2', open: 24, inProgress: 24, blocked: 48, closed: 24,
+    })
+  })
+})
+
+describe('assignee load', () => {
+  it('groups by assignee with unassigned last', () => {
+    const issues = [
+      issue('bd-1', { assignee: 'bob', estimatedMinutes: 60 }),
+      issue('bd-2', { assignee: 'alice', status: 'in_progress', estimatedMinutes: 30 }),
+      issue('bd-3', { assignee: 'alice' }),
+      issue('bd-4', { assignee: 'alice', status: 'closed', closedAt: '2026-01-10T00:00:00.000Z' }),
+      issue('bd-5'),
+    ]
+
+    expect(assigneeLoadReport(issues, new Set(['bd-3']), new Date('2026-01-05T00:00:00.000Z'))).toEqual([
+      { assignee: 'alice', open: 0, inProgress: 1, blocked: 1, closedRecently: 1, remainingMinutes: 30 },
+      { assignee: 'bob', open: 1, inProgress: 0, blocked: 0, closedRecently: 0, remainingMinutes: 60 },
+      { assignee: null, open: 1, inProgress: 0, blocked: 0, closedRecently: 0, remainingMinutes: 0 },
+    ])
+  })
+})
+
+describe('toCsv', () => {
+  it('quotes cells and writes nested values as JSON', () => {
+    expect(toCsv([{ a: 'x,y', b: null }, { a: 'say "hi"', c: [1, 2] }])).toBe(
+      'a,b,c\r\n"x,y",,\r\n"say ""hi""",,"[1,2]"\r\n'
+    )
+  })
+})
+
+describe('reports on imported issues', () => {
+  it('uses the imported close time', async () => {
+    const dir = testDir()
+    const beads = openTestBeads({}, dir)
+    const path = join(dir, 'issues.jsonl')
+    writeFileSync(path, stringifyJsonl([{
+      id: 'bd-1',
+      title: 'Imported',
+      status: 'closed',
+      priority: 2,
+      issue_type: 'task',
+      created_at: '2026-01-01T00:00:00.000Z',
+      updated_at: '2026-01-10T00:00:00.000Z',
+      closed_at: '2026-01-10T00:00:00.000Z',
+    }]))
+    await beads.importJsonl({ path })
+
+    const report = await beads.getLeadCycleReport()
+    expect(report.issues).toEqual([expect.objectContaining({ id: 'bd-1', leadTimeHours: 216 })])
+    expect(await beads.getTimeInStatus({ until: '2026-01-11T00:00:00.000Z' }))
+      .toEqual([expect.objectContaining({ open: 216, closed: 24 })])
+  })
+})
@@ -0,0 +1,405 @@
+/**
+ * Beads Reports - Flow metrics computed from the events table
+ *
+ * Every status change is recorded as an event (`status_changed`, `closed`
+ * or `reopened`), so the time an issue spent in each status can be
+ * rebuilt. The functions here turn issues and their status events into
+ * lead and cycle times, weekly throughput, epic burndown, time in status
+ * and per-assignee load.
+ *
+ * Reports are plain data: flat rows that `JSON.stringify` or `toCsv`
+ * render directly. Durations are in hours, rounded to two decimals.
+ *
+ * @packageDocumentation
+ */
+
+import type { Issue, Event, IssueStatusValue } from './schema.js'
+import { IssueStatus } from './schema.js'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * Event types that change an issue's status
+ */
+export const STATUS_EVENT_TYPES = ['status_changed', 'closed', 'reopened']
+
+/**
+ * A span of time an issue spent in one status; `end` is null while it
+ * still is
+ */
+export interface StatusInterval {
+  status: IssueStatusValue
+  start: string
+  end: string | null
+}
+
+export interface IssueTiming {
+  id: string
+  title: string
+  issueType: string
+  assignee: string | null
+  createdAt: string
+  /** First time the issue went in progress */
+  startedAt: string | null
+  closedAt: string | null
+  /** Hours from creation to close */
+  leadTimeHours: number | null
+  /** Hours from first going in progress to close */
+  cycleTimeHours: number | null
+}
+
+/**
+ * Summary of a set of durations, in hours
+ */
+export interface DurationSummary {
+  count: number
+  mean: number | null
+  median: number | null
+  p85: number | null
+}
+
+export interface LeadCycleSummary {
+  /** Issue type, or `all` for every issue */
+  issueType: string
+  lead: DurationSummary
+  cycle: DurationSummary
+}
+
+export interface LeadCycleReport {
+  issues: IssueTiming[]
+  byType: LeadCycleSummary[]
+}
+
+export interface ThroughputWeek {
+  /** Monday (UTC) the week starts on, as `YYYY-MM-DD` */
+  weekStart: string
+  created: number
+  closed: number
+}
+
+export interface BurndownPoint {
+  /** End of the day (UTC), as `YYYY-MM-DD` */
+  date: string
+  total: number
+  open: number
+  closed: number
+}
+
+export interface TimeInStatusRow {
+  id: string
+  title: string
+  open: number
+  inProgress: number
+  blocked: number
+  closed: number
+}
+
+export interface AssigneeLoad {
+  /** null for unassigned issues */
+  assignee: string | null
+  open: number
+  inProgress: number
+  blocked: number
+  /** Issues closed since the start of the report window */
+  closedRecently: number
+  /** Sum of estimates of issues not closed */
+  remainingMinutes: number
+}
+
+// =============================================================================
+// Status Timelines
+// =============================================================================
+
+const HOUR_MS = 3_600_000
+const DAY_MS = 86_400_000
+
+function hoursBetween(start: string, end: string): number {
+  return Math.round(((Date.parse(end) - Date.parse(start)) / HOUR_MS) * 100) / 100
+}
+
+/**
+ * The status an event moved an issue to, if it changed the status
+ */
+function statusAfter(event: Event): IssueStatusValue | undefined {
+  switch (event.eventType) {
+    case 'status_changed':
+      return (event.newValue as IssueStatusValue) || undefined
+    case 'closed':
+      return 'closed'
+    case 'reopened':
+      return (event.newValue as IssueStatusValue) || 'open'
+  }
+}
+
+/**
+ * Rebuild the statuses an issue went through from its status events
+ * (oldest first). Imports record no events, so a closed issue whose events
+ * don't end in its close is taken to have closed at `closedAt`, after
+ * being open since its creation if it has no events at all. Other issues
+ * without events spent their whole life in their current status.
+ */
+export function statusIntervals(issue: Issue, events: Event[]): StatusInterval[] {
+  const changes = events.filter((e) => statusAfter(e) !== undefined)
+  const intervals: StatusInterval[] = []
+  const closedAt = issue.status === 'closed' ? issue.closedAt : null
+
+  let status: IssueStatusValue = changes.length > 0
+    ? ((changes[0].oldValue as IssueStatusValue) || 'open')
+    : closedAt ? 'open' : issue.status
+  let start = issue.createdAt
+
+  for (const change of changes) {
+    const next = statusAfter(change)!
+    if (next === status) continue
+
+    intervals.push({ status, start, end: change.createdAt })
+    status = next
+    start = change.createdAt
+  }
+
+  if (closedAt && status !== 'closed') {
+    const end = closedAt > start ? closedAt : start
+    if (end > start) intervals.push({ status, start, end })
+    status = 'closed'
+    start = end
+  }
+
+  intervals.push({ status, start, end: null })
+  return intervals
+}
+
+/**
+ * Status of an issue at a point in time, or undefined before it existed
+ */
+export function statusAt(intervals: StatusInterval[], at: string): IssueStatusValue | undefined {
+  return intervals.find((i) => i.start <= at && (i.end === null || i.end > at))?.status
+}
+
+// =============================================================================
+// Lead and Cycle Time
+// =============================================================================
+
+/**
+ * Lead and cycle time of one issue. Both are null unless it is closed.
+ * The close time comes from the intervals, or the issue's `closedAt` when
+ * they don't end closed.
+ */
+export function issueTiming(issue: Issue, intervals: StatusInterval[]): IssueTiming {
+  const last = intervals[intervals.length - 1]
+  const closedAt = last?.status === 'closed' ? last.start : issue.status === 'closed' ? issue.closedAt : null
+  const startedAt = intervals.find((i) => i.status === 'in_progress')?.start ?? null
+
+  return {
+    id: issue.id,
+    title: issue.title,
+    issueType: issue.issueType,
+    assignee: issue.assignee,
+    createdAt: issue.createdAt,
+    startedAt,
+    closedAt,
+    leadTimeHours: closedAt ? hoursBetween(issue.createdAt, closedAt) : null,
+    cycleTimeHours: closedAt && startedAt ? hoursBetween(startedAt, closedAt) : null,
+  }
+}
+
+/**
+ * Count, mean, median and 85th percentile of durations
+ */
+export function summarizeDurations(hours: number[]): DurationSummary {
+  if (hours.length === 0) return { count: 0, mean: null, median: null, p85: null }
+
+  const sorted = [...hours].sort((a, b) => a - b)
+  const percentile = (p: number) => sorted[Math.min(sorted.length - 1, Math.ceil(p * sorted.length) - 1)]
+  const round = (value: number) => Math.round(value * 100) / 100
+
+  return {
+    count: sorted.length,
+    mean: round(sorted.reduce((sum, h) => sum + h, 0) / sorted.length),
+    median: round(sorted.length % 2 === 1
+      ? sorted[(sorted.length - 1) / 2]
+      : (sorted[sorted.length / 2 - 1] + sorted[sorted.length / 2]) / 2),
+    p85: round(percentile(0.85)),
+  }
+}
+
+/**
+ * Lead and cycle times per issue, summarized overall and per issue type
+ */
+export function leadCycleReport(timings: IssueTiming[]): LeadCycleReport {
+  const summarize = (issueType: string, group: IssueTiming[]): LeadCycleSummary => ({
+    issueType,
+    lead: summarizeDurations(group.flatMap((t) => (t.leadTimeHours === null ? [] : [t.leadTimeHours]))),
+    cycle: summarizeDurations(group.flatMap((t) => (t.cycleTimeHours === null ? [] : [t.cycleTimeHours]))),
+  })
+
+  const types = [...new Set(timings.map((t) => t.issueType))].sort()
+
+  return {
+    issues: timings,
+    byType: [
+      summarize('all', timings),
+      ...types.map((type) => summarize(type, timings.filter((t) => t.issueType === type))),
+    ],
+  }
+}
+
+// =============================================================================
+// Throughput and Burndown
+// =============================================================================
+
+/**
+ * Monday 00:00 UTC of the week containing a time
+ */
+function weekStart(time: number): number {
+  const day = new Date(time)
+  day.setUTCHours(0, 0, 0, 0)
+  return day.getTime() - ((day.getUTCDay() + 6) % 7) * DAY_MS
+}
+
+/**
+ * Issues created and closed per week, for the `weeks` weeks up to and
+ * including the one containing `until`. Issues count as closed in the
+ * week they were last closed.
+ */
+export function throughputReport(timings: IssueTiming[], weeks: number, until: Date): ThroughputWeek[] {
+  const last = weekStart(until.getTime())
+  const result: ThroughputWeek[] = []
+
+  for (let i = weeks - 1; i >= 0; i--) {
+    const start = last - i * 7 * DAY_MS
+    const from = new Date(start).toISOString()
+    const to = new Date(start + 7 * DAY_MS).toISOString()
+
+    result.push({
+      weekStart: from.slice(0, 10),
+      created: timings.filter((t) => t.createdAt >= from && t.createdAt < to).length,
+      closed: timings.filter((t) => t.closedAt !== null && t.closedAt >= from && t.closedAt < to).length,
+    })
+  }
+
+  return result
+}
+
+/**
+ * Open and closed issue counts at the end of each day from `from` to `to`
+ */
+export function burndownReport(
+  timelines: Array<{ issue: Issue; intervals: StatusInterval[] }>,
+  from: Date,
+  to: Date
+): BurndownPoint[] {
+  const points: BurndownPoint[] = []
+  const first = new Date(from)
+  first.setUTCHours(0, 0, 0, 0)
+
+  for (let day = first.getTime(); day <= to.getTime(); day += DAY_MS) {
+    const endOfDay = new Date(Math.min(day + DAY_MS, to.getTime() + 1) - 1).toISOString()
+    let total = 0
+    let closed = 0
+
+    for (const { intervals } of timelines) {
+      const status = statusAt(intervals, endOfDay)
+      if (status === undefined) continue
+      total++
+      if (status === 'closed') closed++
+    }
+
+    points.push({ date: new Date(day).toISOString().slice(0, 10), total, open: total - closed, closed })
+  }
+
+  return points
+}
+
+// =============================================================================
+// Time in Status and Load
+// =============================================================================
+
+/**
+ * Hours an issue spent in each status, up to `until`
+ */
+export function timeInStatus(issue: Issue, intervals: StatusInterval[], until: Date): TimeInStatusRow {
+  const hours: Record<IssueStatusValue, number> = { open: 0, in_progress: 0, blocked: 0, closed: 0 }
+  const end = until.toISOString()
+
+  for (const interval of intervals) {
+    if (interval.start >= end) continue
+    const stop = interval.end === null || interval.end > end ? end : interval.end
+    hours[interval.status] += hoursBetween(interval.start, stop)
+  }
+
+  const round = (value: number) => Math.round(value * 100) / 100
+
+  return {
+    id: issue.id,
+    title: issue.title,
+    open: round(hours[IssueStatus.open]),
+    inProgress: round(hours[IssueStatus.inProgress]),
+    blocked: round(hours[IssueStatus.blocked]),
+    closed: round(hours[IssueStatus.closed]),
+  }
+}
+
+/**
+ * Work per assignee: issues by status, recent closes and remaining
+ * estimates. `blockedIds` are issues blocked by dependencies, counted as
+ * blocked whatever their status.
+ */
+export function assigneeLoadReport(issues: Issue[], blockedIds: Set<string>, since: Date): AssigneeLoad[] {
+  const loads = new Map<string | null, AssigneeLoad>()
+  const from = since.toISOString()
+
+  for (const issue of issues) {
+    const assignee = issue.assignee || null
+    let load = loads.get(assignee)
+    if (!load) {
+      load = { assignee, open: 0, inProgress: 0, blocked: 0, closedRecently: 0, remainingMinutes: 0 }
+      loads.set(assignee, load)
+    }
+
+    if (issue.status === 'closed') {
+      if (issue.closedAt && issue.closedAt >= from) load.closedRecently++
+      continue
+    }
+
+    if (issue.status === 'blocked' || blockedIds.has(issue.id)) load.blocked++
+    else if (issue.status === 'in_progress') load.inProgress++
+    else load.open++
+
+    load.remainingMinutes += issue.estimatedMinutes ?? 0
+  }
+
+  return [...loads.values()].sort((a, b) =>
+    a.assignee === null ? 1 : b.assignee === null ? -1 : a.assignee.localeCompare(b.assignee))
+}
+
+// =============================================================================
+// Rendering
+// =============================================================================
+
+/**
+ * Render rows as CSV (RFC 4180), with a header of every key in order of
+ * first appearance. Nested values are written as JSON.
+ */
+export function toCsv(rows: object[]): string {
+  const columns: string[] = []
+  for (const row of rows) {
+    for (const key of Object.keys(row)) {
+      if (!columns.includes(key)) columns.push(key)
+    }
+  }
+
+  const cell = (value: unknown): string => {
+    if (value === null || value === undefined) return ''
+    const text = typeof value === 'object' ? JSON.stringify(value) : String(value)
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+  }
+
+  const lines = [
+    columns.map(cell).join(','),
+    ...rows.map((row) => columns.map((column) => cell((row as Record<string, unknown>)[column])).join(',')),
+  ]
+
+  return lines.join('\r\n') + '\r\n'
+}
@@ -189,6 +189,36 @@ export const blockedIssuesCache = sqliteTable('blocked_issues_cache', {
   issueId: text('issue_id').primaryKey().references(() => issues.id, { onDelete: 'cascade' }),
 })
 
+/**
+ * Issue snapshots - pre-compaction content of compacted issues
+ */
+export const issueSnapshots = sqliteTable('issue_snapshots', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  issueId: text('issue_id').notNull().references(() => issues.id, { onDelete: 'cascade' }),
+  snapshotTime: text('snapshot_time').notNull(),
+  compactionLevel: integer('compaction_level').notNull(),
+  originalSize: integer('original_size').notNull(),
+  compressedSize: integer('compressed_size').notNull(),
+  originalContent: text('original_content').notNull(),
+  archivedEvents: text('archived_events'),
+}, (table) => ({
+  issueIdx: index('idx_snapshots_issue').on(table.issueId),
+  levelIdx: index('idx_snapshots_level').on(table.compactionLevel),
+}))
+
+/**
+ * Issue leases - which agent is working a claimed issue, and until when
+ */
+export const issueLeases = sqliteTable('issue_leases', {
+  issueId: text('issue_id').primaryKey().references(() => issues.id, { onDelete: 'cascade' }),
+  agent: text('agent').notNull(),
+  claimedAt: text('claimed_at').notNull(),
+  heartbeatAt: text('heartbeat_at').notNull(),
+  expiresAt: text('expires_at').notNull(),
+}, (table) => ({
+  expiresAtIdx: index('idx_issue_leases_expires_at').on(table.expiresAt),
+}))
+
 // =============================================================================
 // Relations
 // =============================================================================
@@ -259,6 +289,11 @@ export type NewComment = typeof comments.$inferInsert
 export type Event = typeof events.$inferSelect
 export type NewEvent = typeof events.$inferInsert
 
+export type IssueSnapshot = typeof issueSnapshots.$inferSelect
+export type NewIssueSnapshot = typeof issueSnapshots.$inferInsert
+
+export type IssueLease = typeof issueLeases.$inferSelect
+
 // Dependency type enum
 export const DependencyType = {
   blocks: 'blocks',
@@ -0,0 +1,101 @@
+import { describe, expect, it } from 'vitest'
+import { QuerySyntaxError, ValidationError } from './errors.js'
+import { highlightTerms, toFtsQuery } from './search.js'
+import { openTestBeads, testDir } from './test-utils.js'
+
+describe('toFtsQuery', () => {
+  it('quotes terms so operators match literally', () => {
+    expect(toFtsQuery('login OR "crash"')).toBe('"login" "OR" "crash"')
+    expect(toFtsQuery('login crash', 'any')).toBe('"login" OR "crash"')
+    expect(toFtsQuery('  ')).toBe('')
+  })
+})
+
+describe('highlightTerms', () => {
+  it('marks every term, ignoring case', () => {
+    expect(highlightTerms('Login fails after login', ['login'], ['[', ']'])).toBe('[Login] fails after [login]')
+  })
+
+  it('cuts long text around the first match', () => {
+    const text = `${'a '.repeat(100)}needle${' b'.repeat(100)}`
+    const excerpt = highlightTerms(text, ['needle'], ['*', '*'], 40)
+
+    expect(excerpt).toMatch(/^….*\*needle\*.*…$/)
+    expect(excerpt.length).toBeLessThan(50)
+  })
+})
+
+describe('searchIssues', () => {
+  async function seed(beads: ReturnType<typeof openTestBeads>) {
+    const login = await beads.createIssue({ title: 'Login page crashes', description: 'Stack trace attached' })
+    const docs = await beads.createIssue({ title: 'Write docs', description: 'Explain the login flow' })
+    await beads.createIssue({ title: 'Unrelated', notes: 'nothing here' })
+    await beads.addComment(docs.id, 'Mention the crash reporter too')
+    return { login, docs }
+  }
+
+  it('ranks title matches first with the index', async () => {
+    const beads = openTestBeads({ searchIndex: true })
+    const { login, docs } = await seed(beads)
+
+    const results = await beads.searchIssues('login')
+    expect(results.map((r) => r.issue.id)).toEqual([login.id, docs.id])
+    expect(results[0].snippet).toContain('**Login**')
+
+    // Comments are indexed
+    expect((await beads.searchIssues('reporter')).map((r) => r.issue.id)).toEqual([docs.id])
+  })
+
+  it('keeps the index in sync with edits and deletions', async () => {
+    const beads = openTestBeads({ searchIndex: true })
+    const { login, docs } = await seed(beads)
+
+    await beads.updateIssue(login.id, { title: 'Sign-in page crashes' })
+    await beads.deleteIssue(docs.id)
+
+    expect(await beads.searchIssues('login')).toEqual([])
+    expect((await beads.searchIssues('sign')).map((r) => r.issue.id)).toEqual([login.id])
+  })
+
+  it('rejects malformed raw queries with QuerySyntaxError', async () => {
+    const beads = openTestBeads({ searchIndex: true })
+    await seed(beads)
+
+    expect((await beads.searchIssues('title:login', { raw: true }))).toHaveLength(1)
+    await expect(beads.searchIssues('login AND (', { raw: true })).rejects.toThrow(QuerySyntaxError)
+    await expect(beads.searchIssues('nosuchcolumn:login', { raw: true })).rejects.toThrow(QuerySyntaxError)
+  })
+
+  it('falls back to substring matching without the index', async () => {
+    const beads = openTestBeads()
+    const { login, docs } = await seed(beads)
+
+    const results = await beads.searchIssues('login')
+    expect(results.map((r) => r.issue.id)).toEqual([login.id, docs.id])
+    expect(results[0].snippet).toBe('**Login** page crashes')
+    expect(results[1].snippet).toBe('Explain the **login** flow')
+
+    expect(await beads.searchIssues('login stack', { match: 'all' })).toHaveLength(1)
+    expect(await beads.searchIssues('login stack', { match: 'any' })).toHaveLength(2)
+    await expect(beads.searchIssues('login', { raw: true })).rejects.toThrow(ValidationError)
+  })
+
+  it('leaves the index out of new databases unless asked for', async () => {
+    const dir = testDir()
+    const beads = openTestBeads({}, dir)
+    await seed(beads)
+
+    const triggers = () => beads['sqlite']
+      .prepare(`SELECT name FROM sqlite_master WHERE type = 'trigger' AND name LIKE '%fts%'`)
+      .all()
+    expect(triggers()).toEqual([])
+
+    await beads.rebuildSearchIndex()
+    expect(triggers()).toHaveLength(6)
+    expect(await beads.searchIssues('reporter')).toHaveLength(1)
+
+    await beads.dropSearchIndex()
+    expect(triggers()).toEqual([])
+    expect(await beads.searchIssues('reporter')).toEqual([])
+  })
+})
@@ -0,0 +1,160 @@
+/**
+ * Beads Search - SQLite FTS5 index over issues and comments
+ *
+ * The index is an FTS5 table kept in sync by triggers on `issues` and
+ * `comments`, so writes from the `bd` CLI are indexed too. FTS rows are
+ * keyed through `issues_fts_ids`, which gives every issue a stable integer
+ * rowid (the implicit rowid of `issues` can change on VACUUM).
+ *
+ * The index is opt-in: adapters create it when opened with `searchIndex`,
+ * or on `rebuildSearchIndex()`; migrations never do. Its triggers run
+ * inside every write to the database, including writes by `bd`, and a
+ * SQLite built without FTS5 fails them: a `bd` binary without FTS5 can't
+ * write to a database with the index. Enable it only where every writer
+ * has FTS5.
+ *
+ * Without the index, search falls short of FTS5 search in three ways:
+ * comment text is not searched, results are ranked by which fields
+ * contain each term instead of by bm25, and terms match as plain
+ * substrings, without FTS5's tokenizing and prefix queries.
+ *
+ * @packageDocumentation
+ */
+
+/**
+ * Columns of the FTS table, in order, with their bm25 weights
+ */
+export const SEARCH_COLUMNS = [
+  { column: 'title', weight: 10 },
+  { column: 'description', weight: 4 },
+  { column: 'design', weight: 2 },
+  { column: 'acceptance_criteria', weight: 2 },
+  { column: 'notes', weight: 1 },
+  { column: 'comments', weight: 1 },
+] as const
+
+/**
+ * Triggers keeping the index in sync
+ */
+const SEARCH_TRIGGERS = [
+  'issues_fts_insert',
+  'issues_fts_update',
+  'issues_fts_delete',
+  'comments_fts_insert',
+  'comments_fts_update',
+  'comments_fts_delete',
+]
+
+/**
+ * Statements that refresh the FTS row of one issue.
+ *
+ * The ID row is inserted only when missing rather than with `OR IGNORE`:
+ * a conflict clause in a trigger gives way to the one of the statement
+ * firing it, so an upsert on `issues` would fail on the existing ID.
+ */
+function refreshRow(issueIdExpr: string): string {
+  return `
+    INSERT INTO issues_fts_ids (issue_id)
+    SELECT ${issueIdExpr} WHERE NOT EXISTS (SELECT 1 FROM issues_fts_ids WHERE issue_id = ${issueIdExpr});
+    DELETE FROM issues_fts WHERE rowid = (SELECT id FROM issues_fts_ids WHERE issue_id = ${issueIdExpr});
+    INSERT INTO issues_fts (rowid, title, description, design, acceptance_criteria, notes, comments)
+    SELECT m.id, i.title, i.description, i.design, i.acceptance_criteria, i.notes,
+      coalesce((SELECT group_concat(c.text, char(10)) FROM comments c WHERE c.issue_id = i.id), '')
+    FROM issues i INNER JOIN issues_fts_ids m ON m.issue_id = i.id
+    WHERE i.id = ${issueIdExpr};`
+}
+
+/**
+ * DDL for the search index, its triggers and the initial population.
+ * Triggers are recreated, so running them again also updates triggers
+ * made by older versions.
+ */
+export function searchIndexStatements(): string[] {
+  return [
+    ...SEARCH_TRIGGERS.map((trigger) => `DROP TRIGGER IF EXISTS ${trigger}`),
+    `CREATE TABLE IF NOT EXISTS issues_fts_ids (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      issue_id TEXT NOT NULL UNIQUE
+    )`,
+    `CREATE VIRTUAL TABLE IF NOT EXISTS issues_fts USING fts5(
+      ${SEARCH_COLUMNS.map((c) => c.column).join(', ')},
+      tokenize = 'porter unicode61'
+    )`,
+    `CREATE TRIGGER IF NOT EXISTS issues_fts_insert AFTER INSERT ON issues BEGIN
+      ${refreshRow('new.id')}
+    END`,
+    `CREATE TRIGGER IF NOT EXISTS issues_fts_update
+    AFTER UPDATE OF title, description, design, acceptance_criteria, notes ON issues BEGIN
+      ${refreshRow('new.id')}
+    END`,
+    `CREATE TRIGGER IF NOT EXISTS issues_fts_delete AFTER DELETE ON issues BEGIN
+      DELETE FROM issues_fts WHERE rowid = (SELECT id FROM issues_fts_ids WHERE issue_id = old.id);
+      DELETE FROM issues_fts_ids WHERE issue_id = old.id;
+    END`,
+    `CREATE TRIGGER IF NOT EXISTS comments_fts_insert AFTER INSERT ON comments BEGIN
+      ${refreshRow('new.issue_id')}
+    END`,
+    `CREATE TRIGGER IF NOT EXISTS comments_fts_update AFTER UPDATE ON comments BEGIN
+      ${refreshRow('old.issue_id')}
+      ${refreshRow('new.issue_id')}
+    END`,
+    `CREATE TRIGGER IF NOT EXISTS comments_fts_delete AFTER DELETE ON comments BEGIN
+      ${refreshRow('old.issue_id')}
+    END`,
+    `INSERT OR IGNORE INTO issues_fts_ids (issue_id) SELECT id FROM issues`,
+    `DELETE FROM issues_fts`,
+    `INSERT INTO issues_fts (rowid, title, description, design, acceptance_criteria, notes, comments)
+    SELECT m.id, i.title, i.description, i.design, i.acceptance_criteria, i.notes,
+      coalesce((SELECT group_concat(c.text, char(10)) FROM comments c WHERE c.issue_id = i.id), '')
+    FROM issues i INNER JOIN issues_fts_ids m ON m.issue_id = i.id`,
+  ]
+}
+
+/**
+ * DDL removing the search index and its triggers
+ */
+export function dropSearchIndexStatements(): string[] {
+  return [
+    ...SEARCH_TRIGGERS.map((trigger) => `DROP TRIGGER IF EXISTS ${trigger}`),
+    'DROP TABLE IF EXISTS issues_fts',
+    'DROP TABLE IF EXISTS issues_fts_ids',
+  ]
+}
+
+/**
+ * Split free text into search terms, without quotes
+ */
+export function searchTerms(text: string): string[] {
+  return text
+    .split(/\s+/)
+    .map((t) => t.replace(/"/g, ''))
+    .filter((t) => t.length > 0)
+}
+
+/**
+ * Convert free text into an FTS5 query.
+ *
+ * Each whitespace-separated term is quoted, so punctuation and FTS operators
+ * in user input are matched literally. Terms are combined with AND (`all`)
+ * or OR (`any`).
+ */
+export function toFtsQuery(text: string, match: 'all' | 'any' = 'all'): string {
+  const terms = searchTerms(text).map((t) => `"${t}"`)
+
+  return terms.join(match === 'any' ? ' OR ' : ' ')
+}
+
+/**
+ * Excerpt of about `width` characters around the first of the terms in
+ * `text`, with every term marked; for search without the index
+ */
+export function highlightTerms(text: string, terms: string[], [open, close]: [string, string], width = 80): string {
+  const pattern = new RegExp(terms.map((t) => t.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')).join('|'), 'gi')
+  const first = terms.length > 0 ? text.search(pattern) : -1
+
+  const start = Math.max(0, (first < 0 ? 0 : first) - width / 4)
+  let excerpt = text.slice(start, start + width).replace(/\s+/g, ' ')
+  if (terms.length > 0) excerpt = excerpt.replace(pattern, (match) => `${open}${match}${close}`)
+
+  return `${start > 0 ? '…' : ''}${excerpt}${start + width < text.length ? '…' : ''}`
+}
@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest'
+import { estimateTokens } from './session.js'
+import { openTestBeads } from './test-utils.js'
+
+/**
+ * An agent working one issue, blocked by another, with two ready issues
+ */
+async function agentAtWork() {
+  const beads = openTestBeads()
+  const agent = beads.as('agent-7')
+  const working = await beads.createIssue({ title: 'Wire up login', notes: 'Handoff: token refresh left to do' })
+  const blocker = await beads.createIssue({ title: 'Fix session store', priority: 0 })
+  const readyA = await beads.createIssue({ title: 'Write docs', priority: 1, description: 'd'.repeat(2000) })
+  const readyB = await beads.createIssue({ title: 'Tidy CSS', priority: 3 })
+  await beads.addDependency(working.id, blocker.id)
+  await agent.updateIssue(working.id, { status: 'in_progress', assignee: 'agent-7' })
+  await agent.addComment(working.id, 'Refresh tokens expire early')
+  return { beads, working, blocker, readyA, readyB }
+}
+
+describe('buildSessionContext', () => {
+  it('lists work in progress, blockers, ready work and recent activity', async () => {
+    const { beads, working, blocker, readyA } = await agentAtWork()
+    const { text, truncated, omitted } = await beads.buildSessionContext({ agent: 'agent-7' })
+
+    expect(truncated).toBe(false)
+    expect(omitted).toEqual({ inProgress: 0, blockers: 0, ready: 0, comments: 0, events: 0 })
+    for (const expected of [working.id, 'token refresh left to do', blocker.id, readyA.id, 'Refresh tokens expire early']) {
+      expect(text).toContain(expected)
+    }
+    expect(text.indexOf(working.id)).toBeLessThan(text.indexOf(readyA.id))
+  })
+
+  it('stays within the token budget, dropping later entries first', async () => {
+    const { beads, working } = await agentAtWork()
+    const full = await beads.buildSessionContext({ agent: 'agent-7' })
+    const packed = await beads.buildSessionContext({ agent: 'agent-7', tokenBudget: Math.floor(full.tokens / 2) })
+
+    expect(packed.tokens).toBeLessThanOrEqual(Math.floor(full.tokens / 2))
+    expect(packed.truncated).toBe(true)
+    expect(packed.text).toContain(working.id)
+    expect(packed.tokens).toBe(estimateTokens(packed.text))
+
+    // Deterministic
+    expect(await beads.buildSessionContext({ agent: 'agent-7', tokenBudget: Math.floor(full.tokens / 2) })).toEqual(packed)
+  })
+
+  it('renders JSON with a custom token counter', async () => {
+    const { beads, working } = await agentAtWork()
+    const words = (text: string) => text.split(/\s+/).length
+
+    const context = await beads.buildSessionContext({ agent: 'agent-7', format: 'json', countTokens: words })
+    expect(context.format).toBe('json')
+    expect(context.tokens).toBe(words(context.text))
+    expect(JSON.stringify(JSON.parse(context.text))).toContain(working.id)
+  })
+
+  it('is just a header for an agent with nothing to do', async () => {
+    const beads = openTestBeads()
+    const context = await beads.buildSessionContext({ agent: 'idle', tokenBudget: 1 })
+
+    expect(context.text).toContain('idle')
+    expect(context.truncated).toBe(false)
+  })
+})
@@ -0,0 +1,270 @@
+/**
+ * Beads Session - Context packs for agents resuming work
+ *
+ * An agent starting a session needs to know what it was doing, what stands
+ * in its way and what to pick up next. `packSessionContext` turns that into
+ * compact markdown or JSON within a token budget:
+ *
+ * 1. Issues in progress, with their notes (the session handoff field)
+ * 2. Open issues blocking them
+ * 3. Ready issues to pick up next
+ * 4. Recent comments on the issues the agent touched
+ * 5. Recent events on those issues
+ *
+ * Truncation is deterministic. Sections are filled in that order and
+ * entries in the order given; each entry goes in whole if it fits, else in
+ * a shorter form (in-progress issues without their text, comments cut
+ * short), else it is left out and counted in a footer. Later, smaller
+ * entries may still fit after a large one is left out.
+ *
+ * Token counts are estimated at four characters per token unless a
+ * `countTokens` function is passed.
+ *
+ * @packageDocumentation
+ */
+
+import type { Comment, Event, Issue } from './schema.js'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type SessionContextFormat = 'markdown' | 'json'
+
+export type SessionSection = 'inProgress' | 'blockers' | 'ready' | 'comments' | 'events'
+
+/**
+ * What a context pack is built from, each list in the order to include it
+ */
+export interface SessionContextInput {
+  agent: string
+  inProgress: Issue[]
+  /** Open issues blocking work in progress, with the IDs they block */
+  blockers: Array<{ issue: Issue; blocks: string[] }>
+  ready: Issue[]
+  comments: Comment[]
+  events: Event[]
+}
+
+export interface PackSessionOptions {
+  /** Maximum size of the result, in tokens */
+  tokenBudget: number
+  /** Output format (default: `markdown`) */
+  format?: SessionContextFormat
+  /** Token counter (default: four characters per token) */
+  countTokens?: (text: string) => number
+}
+
+export interface SessionContext {
+  format: SessionContextFormat
+  text: string
+  /** Size of `text` in tokens */
+  tokens: number
+  /** True when entries were shortened or left out to fit the budget */
+  truncated: boolean
+  /** Entries left out of each section */
+  omitted: Record<SessionSection, number>
+}
+
+/**
+ * An entry rendered both ways
+ */
+interface Rendered {
+  markdown: string
+  json: Record<string, unknown>
+}
+
+interface Entry {
+  full: Rendered
+  /** Shorter form, tried when the full one doesn't fit */
+  brief?: Rendered
+}
+
+// =============================================================================
+// Rendering
+// =============================================================================
+
+const SECTIONS: SessionSection[] = ['inProgress', 'blockers', 'ready', 'comments', 'events']
+
+const HEADINGS: Record<SessionSection, string> = {
+  inProgress: 'In progress',
+  blockers: 'Blocking current work',
+  ready: 'Ready',
+  comments: 'Recent comments',
+  events: 'Recent activity',
+}
+
+/**
+ * Estimate tokens at four characters per token
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4)
+}
+
+/**
+ * Shorten text to `max` characters, marking the cut
+ */
+function clip(text: string, max: number): string {
+  const trimmed = text.trim()
+  return trimmed.length <= max ? trimmed : `${trimmed.slice(0, max - 1).trimEnd()}…`
+}
+
+/**
+ * Collapse text onto one line and shorten it
+ */
+function oneLine(text: string, max: number): string {
+  return clip(text.replace(/\s+/g, ' '), max)
+}
+
+function inProgressEntry(issue: Issue): Entry {
+  const heading = `### ${issue.id}: ${issue.title}\nP${issue.priority} ${issue.issueType}`
+  const summary = { id: issue.id, title: issue.title, priority: issue.priority, issueType: issue.issueType }
+
+  const fields: Array<[string, keyof Issue & string, string, number]> = [
+    ['Notes', 'notes', issue.notes, 1500],
+    ['Acceptance criteria', 'acceptanceCriteria', issue.acceptanceCriteria, 500],
+    ['Description', 'description', issue.description, 300],
+  ]
+  const present = fields.filter(([, , text]) => text.trim())
+
+  return {
+    full: {
+      markdown: [heading, ...present.map(([label, , text, max]) => `**${label}:** ${clip(text, max)}`)].join('\n\n'),
+      json: { ...summary, ...Object.fromEntries(present.map(([, key, text, max]) => [key, clip(text, max)])) },
+    },
+    brief: present.length > 0 ? { markdown: heading, json: summary } : undefined,
+  }
+}
+
+function blockerEntry({ issue, blocks }: SessionContextInput['blockers'][number]): Entry {
+  return {
+    full: {
+      markdown: `- ${issue.id}: ${issue.title} (${issue.status}, P${issue.priority}) blocks ${blocks.join(', ')}`,
+      json: { id: issue.id, title: issue.title, status: issue.status, priority: issue.priority, blocks },
+    },
+  }
+}
+
+function readyEntry(issue: Issue): Entry {
+  return {
+    full: {
+      markdown: `- ${issue.id}: ${issue.title} (P${issue.priority} ${issue.issueType})`,
+      json: { id: issue.id, title: issue.title, priority: issue.priority, issueType: issue.issueType },
+    },
+  }
+}
+
+function commentEntry(comment: Comment): Entry {
+  const form = (max: number): Rendered => ({
+    markdown: `- ${comment.issueId} · ${comment.author} · ${comment.createdAt}: ${oneLine(comment.text, max)}`,
+    json: { issueId: comment.issueId, author: comment.author, createdAt: comment.createdAt, text: oneLine(comment.text, max) },
+  })
+
+  return { full: form(300), brief: comment.text.length > 80 ? form(80) : undefined }
+}
+
+function eventEntry(event: Event): Entry {
+  const change = event.oldValue || event.newValue
+    ? `: ${oneLine(event.oldValue ?? '', 60) || '∅'} → ${oneLine(event.newValue ?? '', 60) || '∅'}`
+    : ''
+
+  return {
+    full: {
+      markdown: `- ${event.createdAt} ${event.issueId} ${event.eventType}${change} (${event.actor})`,
+      json: {
+        issueId: event.issueId,
+        eventType: event.eventType,
+        actor: event.actor,
+        oldValue: event.oldValue,
+        newValue: event.newValue,
+        createdAt: event.createdAt,
+      },
+    },
+  }
+}
+
+function render(
+  format: SessionContextFormat,
+  agent: string,
+  chosen: Record<SessionSection, Rendered[]>,
+  omitted: Record<SessionSection, number>
+): string {
+  const left = SECTIONS.filter((s) => omitted[s] > 0)
+
+  if (format === 'json') {
+    const body: Record<string, unknown> = { agent }
+    for (const section of SECTIONS) body[section] = chosen[section].map((r) => r.json)
+    if (left.length > 0) body.omitted = Object.fromEntries(left.map((s) => [s, omitted[s]]))
+    return JSON.stringify(body)
+  }
+
+  const blocks = [`# Session context: ${agent}`]
+  for (const section of SECTIONS) {
+    if (chosen[section].length === 0) continue
+    const separator = section === 'inProgress' ? '\n\n' : '\n'
+    blocks.push(`## ${HEADINGS[section]}\n\n${chosen[section].map((r) => r.markdown).join(separator)}`)
+  }
+  if (left.length > 0) {
+    blocks.push(`_Left out to fit the budget: ${left.map((s) => `${omitted[s]} ${HEADINGS[s].toLowerCase()}`).join(', ')}_`)
+  }
+
+  return blocks.join('\n\n') + '\n'
+}
+
+// =============================================================================
+// Packing
+// =============================================================================
+
+/**
+ * Pack session context into a token budget.
+ *
+ * The header is always included, even when it alone exceeds the budget.
+ */
+export function packSessionContext(input: SessionContextInput, options: PackSessionOptions): SessionContext {
+  const format = options.format ?? 'markdown'
+  const countTokens = options.countTokens ?? estimateTokens
+
+  const entries: Record<SessionSection, Entry[]> = {
+    inProgress: input.inProgress.map(inProgressEntry),
+    blockers: input.blockers.map(blockerEntry),
+    ready: input.ready.map(readyEntry),
+    comments: input.comments.map(commentEntry),
+    events: input.events.map(eventEntry),
+  }
+
+  const chosen: Record<SessionSection, Rendered[]> = { inProgress: [], blockers: [], ready: [], comments: [], events: [] }
+  // Entries not (yet) included count as left out, so the footer of each
+  // trial is at least as long as the final one
+  const omitted = Object.fromEntries(SECTIONS.map((s) => [s, entries[s].length])) as Record<SessionSection, number>
+  let text = render(format, input.agent, chosen, omitted)
+  let shortened = false
+
+  for (const section of SECTIONS) {
+    for (const entry of entries[section]) {
+      omitted[section]--
+
+      const fits = [entry.full, entry.brief].find((form) => {
+        if (!form) return false
+        chosen[section].push(form)
+        const candidate = render(format, input.agent, chosen, omitted)
+        if (countTokens(candidate) <= options.tokenBudget) {
+          text = candidate
+          return true
+        }
+        chosen[section].pop()
+        return false
+      })
+
+      if (!fits) omitted[section]++
+      else if (fits !== entry.full) shortened = true
+    }
+  }
+
+  return {
+    format,
+    text,
+    tokens: countTokens(text),
+    truncated: shortened || SECTIONS.some((s) => omitted[s] > 0),
+    omitted,
+  }
+}
@@ -0,0 +1,31 @@
+/**
+ * Beads Test Utilities - Throwaway databases for tests
+ *
+ * @packageDocumentation
+ */
+
+import { mkdtempSync, rmSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { onTestFinished } from 'vitest'
+import { createBeadsAdapter } from './adapter.js'
+import type { BeadsAdapter, BeadsConfig } from './adapter.js'
+
+/**
+ * Create a temporary directory, removed when the current test finishes
+ */
+export function testDir(): string {
+  const dir = mkdtempSync(join(tmpdir(), 'beads-test-'))
+  onTestFinished(() => rmSync(dir, { recursive: true, force: true }))
+  return dir
+}
+
+/**
+ * Open an adapter on a new database (`beads.db` in `dir`, or a temporary
+ * directory), closed when the current test finishes
+ */
+export function openTestBeads(config: Partial<BeadsConfig> = {}, dir = testDir()): BeadsAdapter {
+  const beads = createBeadsAdapter({ dbPath: join(dir, 'beads.db'), createIfMissing: true, issuePrefix: 'bd', ...config })
+  onTestFinished(() => beads.close())
+  return beads
+}
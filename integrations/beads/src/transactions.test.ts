@@ -0,0 +1,109 @@
+import { describe, expect, it } from 'vitest'
+import { NotFoundError, ValidationError } from './errors.js'
+import { openTestBeads, testDir } from './test-utils.js'
+
+describe('transaction', () => {
+  it('commits everything together or nothing', async () => {
+    const beads = openTestBeads()
+
+    await expect(beads.transaction(async (tx) => {
+      await tx.createIssue({ title: 'Rolled back' })
+      throw new Error('abort')
+    })).rejects.toThrow('abort')
+    expect(await beads.listIssues()).toEqual([])
+
+    const id = await beads.transaction(async (tx) => (await tx.createIssue({ title: 'Kept' })).id)
+    expect((await beads.getIssue(id))?.title).toBe('Kept')
+  })
+
+  it('rolls back only a failed nested transaction when it is caught', async () => {
+    const beads = openTestBeads()
+
+    await beads.transaction(async (tx) => {
+      await tx.createIssue({ title: 'Outer' })
+      await tx.transaction(async (inner) => {
+        await inner.createIssue({ title: 'Inner' })
+        throw new Error('inner')
+      }).catch(() => undefined)
+    })
+
+    expect((await beads.listIssues()).map((i) => i.title)).toEqual(['Outer'])
+  })
+
+  it('keeps concurrent callers out until it finishes', async () => {
+    const beads = openTestBeads()
+    const order: string[] = []
+
+    await Promise.all([
+      beads.transaction(async (tx) => {
+        await tx.createIssue({ title: 'First' })
+        await new Promise((resolve) => setTimeout(resolve, 20))
+        order.push('first done')
+      }),
+      beads.createIssue({ title: 'Second' }).then(() => order.push('second done')),
+    ])
+
+    expect(order).toEqual(['first done', 'second done'])
+  })
+
+  it('is visible to reads on the same adapter before it commits', async () => {
+    const beads = openTestBeads()
+    let commit!: () => void
+    let created!: () => void
+    const isCreated = new Promise<void>((resolve) => { created = resolve })
+
+    const pending = beads.transaction(async (tx) => {
+      await tx.createIssue({ title: 'Pending' })
+      created()
+      await new Promise<void>((resolve) => { commit = resolve })
+    })
+    await isCreated
+
+    expect((await beads.listIssues()).map((i) => i.title)).toEqual(['Pending'])
+    commit()
+    await pending
+  })
+
+  it('is seen whole by other connections', async () => {
+    const dir = testDir()
+    const writer = openTestBeads({}, dir)
+    const reader = openTestBeads({}, dir)
+
+    await writer.transaction(async (tx) => {
+      await tx.createIssue({ title: 'Pending' })
+      expect(await reader.listIssues()).toEqual([])
+    })
+    expect(await reader.listIssues()).toHaveLength(1)
+  })
+})
+
+describe('batch', () => {
+  it('resolves refs to issues created earlier in the batch', async () => {
+    const beads = openTestBeads()
+
+    const { ids, results } = await beads.batch([
+      { op: 'createIssue', ref: 'epic', input: { title: 'Epic', issueType: 'epic' } },
+      { op: 'createIssue', ref: 'a', input: { title: 'A', parentId: '$epic' } },
+      { op: 'createIssue', ref: 'b', input: { title: 'B', parentId: '$epic' } },
+      { op: 'addDependency', from: '$b', to: '$a' },
+      { op: 'addLabel', id: '$a', label: 'first' },
+    ])
+
+    expect(results).toHaveLength(5)
+    expect(ids.a).toBe(`${ids.epic}.1`)
+    expect((await beads.getBlockedIssues()).map((i) => i.id)).toEqual([ids.b])
+    expect(await beads.getLabels(ids.a)).toEqual(['first'])
+  })
+
+  it('writes nothing when an operation fails', async () => {
+    const beads = openTestBeads()
+
+    await expect(beads.batch([
+      { op: 'createIssue', ref: 'a', input: { title: 'A' } },
+      { op: 'closeIssue', id: 'bd-missing' },
+    ])).rejects.toThrow(NotFoundError)
+    await expect(beads.batch([{ op: 'addLabel', id: '$nope', label: 'x' }])).rejects.toThrow(ValidationError)
+
+    expect(await beads.listIssues()).toEqual([])
+  })
+})
@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest'
+import { BeadsError, NotFoundError, ValidationError } from './errors.js'
+import { openTestBeads } from './test-utils.js'
+import { checkSchema, validateCreateIssue, validateQueryOptions, validateUpdateIssue } from './validation.js'
+
+/**
+ * The ValidationError thrown by `fn`
+ */
+function validationError(fn: () => unknown): ValidationError {
+  try {
+    fn()
+  } catch (err) {
+    if (err instanceof ValidationError) return err
+    throw err
+  }
+  throw new Error('expected a ValidationError')
+}
+
+describe('checkSchema', () => {
+  it('reports every problem with its path', () => {
+    const schema = {
+      type: 'object' as const,
+      required: ['name'],
+      properties: {
+        name: { type: 'string' as const },
+        tags: { type: 'array' as const, items: { type: 'string' as const, minLength: 1 } },
+      },
+      additionalProperties: false,
+    }
+
+    expect(checkSchema(schema, { tags: ['a', '', 3], extra: true })).toEqual([
+      { path: 'name', message: 'is required' },
+      { path: 'tags.1', message: 'must not be empty' },
+      { path: 'tags.2', message: 'expected string, got integer' },
+      { path: 'extra', message: 'is not a known option' },
+    ])
+    expect(checkSchema(schema, { name: 'x', tags: [] })).toEqual([])
+  })
+})
+
+describe('validators', () => {
+  it('accept valid input unchanged', () => {
+    const input = { title: 'Fix login', priority: 1, labels: ['auth'] }
+
+    expect(validateCreateIssue(input)).toBe(input)
+    expect(validateUpdateIssue({ status: 'closed' })).toEqual({ status: 'closed' })
+    expect(validateQueryOptions({ limit: 10, orderBy: 'priority' })).toEqual({ limit: 10, orderBy: 'priority' })
+  })
+
+  it('name each offending field', () => {
+    const err = validationError(() => validateCreateIssue({ title: '  ', priority: 7, labels: ['two words'], colour: 'red' }))
+
+    expect(err.issues.map((i) => i.path)).toEqual(['title', 'priority', 'labels.0', 'colour'])
+    expect(err.message).toMatch(/^Invalid issue: title must not be blank; priority expected one of 0, 1, 2, 3, got 7/)
+    expect(validationError(() => validateUpdateIssue({ status: 'done' })).issues).toEqual([
+      { path: 'status', message: 'expected one of "open", "in_progress", "blocked", "closed", got "done"' },
+    ])
+    expect(validationError(() => validateCreateIssue({})).issues).toEqual([{ path: 'title', message: 'is required' }])
+  })
+})
+
+describe('adapter errors', () => {
+  it('are typed and carry a code', async () => {
+    const beads = openTestBeads()
+
+    const invalid = await beads.createIssue({ title: '' }).catch((err: unknown) => err)
+    expect(invalid).toBeInstanceOf(ValidationError)
+    expect(invalid).toBeInstanceOf(BeadsError)
+    expect((invalid as ValidationError).toJSON()).toMatchObject({
+      name: 'ValidationError',
+      code: 'validation',
+      issues: [{ path: 'title', message: 'must not be empty' }],
+    })
+
+    await expect(beads.updateIssue('bd-missing', { title: 'x' })).rejects.toThrow(NotFoundError)
+    await expect(beads.updateIssue('bd-missing', { title: 'x' })).rejects.toMatchObject({ code: 'not_found' })
+    await expect(beads.listIssues({ limit: -1 } as never)).rejects.toThrow(ValidationError)
+    expect(await beads.listIssues()).toEqual([])
+  })
+})
@@ -0,0 +1,297 @@
+/**
+ * Beads Validation - Runtime checks for adapter input
+ *
+ * TypeScript types don't reach MCP tool calls, HTTP bodies or plain
+ * JavaScript callers, so the adapter checks its main inputs before they
+ * reach SQLite. The schemas are plain JSON Schema: MCP and HTTP layers can
+ * publish them as input schemas and validate with the same definitions.
+ *
+ * The checker covers the subset of JSON Schema used here. Properties set
+ * to `undefined` count as absent, and `date-time` strings also accept
+ * `Date` objects.
+ *
+ * @packageDocumentation
+ */
+
+import { DependencyType, IssueStatus, IssueType, Priority } from './schema.js'
+import { ValidationError } from './errors.js'
+import type { ValidationIssue } from './errors.js'
+import type { CreateIssueOptions, QueryOptions, UpdateIssueOptions } from './adapter.js'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type JsonSchemaType = 'object' | 'array' | 'string' | 'integer' | 'number' | 'boolean' | 'null'
+
+/**
+ * The subset of JSON Schema the validator understands
+ */
+export interface JsonSchema {
+  type?: JsonSchemaType | JsonSchemaType[]
+  description?: string
+  enum?: readonly unknown[]
+  minimum?: number
+  maximum?: number
+  minLength?: number
+  maxLength?: number
+  pattern?: string
+  format?: 'date-time'
+  items?: JsonSchema
+  /** Matches if any of these match */
+  anyOf?: JsonSchema[]
+  properties?: Record<string, JsonSchema>
+  required?: string[]
+  additionalProperties?: boolean
+}
+
+// =============================================================================
+// Checking
+// =============================================================================
+
+const NOT_BLANK = '\\S'
+
+function typeOf(value: unknown): JsonSchemaType | 'undefined' | 'other' {
+  if (value === null) return 'null'
+  if (Array.isArray(value)) return 'array'
+  switch (typeof value) {
+    case 'string':
+    case 'boolean':
+    case 'undefined':
+      return typeof value as JsonSchemaType | 'undefined'
+    case 'number':
+      return Number.isInteger(value) ? 'integer' : Number.isFinite(value) ? 'number' : 'other'
+    case 'object':
+      return 'object'
+    default:
+      return 'other'
+  }
+}
+
+function describe(value: unknown): string {
+  return value === undefined ? 'undefined' : JSON.stringify(value) ?? String(value)
+}
+
+/**
+ * List the problems with a value, empty if it matches the schema
+ */
+export function checkSchema(schema: JsonSchema, value: unknown, path = ''): ValidationIssue[] {
+  const issue = (message: string): ValidationIssue[] => [{ path, message }]
+
+  if (schema.anyOf) {
+    const results = schema.anyOf.map((alternative) => checkSchema(alternative, value, path))
+    if (results.some((r) => r.length === 0)) return []
+
+    // Report the problems of the alternative for the value's type
+    const actual = typeOf(value)
+    const index = schema.anyOf.findIndex((a) => [a.type].flat().includes(actual as JsonSchemaType))
+    return results[Math.max(0, index)]
+  }
+
+  if (schema.format === 'date-time' && value instanceof Date) {
+    return Number.isNaN(value.getTime()) ? issue('expected a valid date') : []
+  }
+
+  const actual = typeOf(value)
+  if (schema.type) {
+    const allowed = Array.isArray(schema.type) ? schema.type : [schema.type]
+    const matches = allowed.includes(actual as JsonSchemaType) || (actual === 'integer' && allowed.includes('number'))
+    if (!matches) return issue(`expected ${allowed.join(' or ')}, got ${actual === 'other' ? describe(value) : actual}`)
+  }
+
+  if (schema.enum && !schema.enum.includes(value)) {
+    return issue(`expected one of ${schema.enum.map(describe).join(', ')}, got ${describe(value)}`)
+  }
+
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) return issue(`must be at least ${schema.minimum}`)
+    if (schema.maximum !== undefined && value > schema.maximum) return issue(`must be at most ${schema.maximum}`)
+  }
+
+  if (typeof value === 'string') {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      return issue(schema.minLength === 1 ? 'must not be empty' : `must be at least ${schema.minLength} characters`)
+    }
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+      return issue(`must be at most ${schema.maxLength} characters`)
+    }
+    if (schema.pattern !== undefined && !new RegExp(schema.pattern).test(value)) {
+      return issue(schema.pattern === NOT_BLANK ? 'must not be blank' : `must match /${schema.pattern}/`)
+    }
+    if (schema.format === 'date-time' && Number.isNaN(Date.parse(value))) {
+      return issue('expected a date, e.g. 2025-01-31 or 2025-01-31T12:00:00Z')
+    }
+  }
+
+  if (Array.isArray(value) && schema.items) {
+    const items = schema.items
+    return value.flatMap((item, index) => checkSchema(items, item, path ? `${path}.${index}` : String(index)))
+  }
+
+  if (actual === 'object' && (schema.properties || schema.required)) {
+    const record = value as Record<string, unknown>
+    const properties = schema.properties ?? {}
+    const issues: ValidationIssue[] = []
+
+    for (const key of schema.required ?? []) {
+      if (record[key] === undefined) issues.push({ path: path ? `${path}.${key}` : key, message: 'is required' })
+    }
+
+    for (const [key, item] of Object.entries(record)) {
+      if (item === undefined) continue
+      const itemPath = path ? `${path}.${key}` : key
+      const property = properties[key]
+      if (property) issues.push(...checkSchema(property, item, itemPath))
+      else if (schema.additionalProperties === false) issues.push({ path: itemPath, message: 'is not a known option' })
+    }
+
+    return issues
+  }
+
+  return []
+}
+
+/**
+ * Check a value against a schema, returning it typed
+ *
+ * @throws ValidationError listing every problem, prefixed with `what`
+ */
+export function validate<T>(schema: JsonSchema, value: unknown, what: string): T {
+  const issues = checkSchema(schema, value)
+  if (issues.length > 0) {
+    const details = issues.map((i) => (i.path ? `${i.path} ${i.message}` : i.message)).join('; ')
+    throw new ValidationError(issues, `Invalid ${what}: ${details}`)
+  }
+  return value as T
+}
+
+// =============================================================================
+// Schemas
+// =============================================================================
+
+const title: JsonSchema = { type: 'string', minLength: 1, maxLength: 500, pattern: NOT_BLANK, description: 'Short summary' }
+const status: JsonSchema = { type: 'string', enum: Object.values(IssueStatus) }
+const priority: JsonSchema = {
+  type: 'integer',
+  enum: Object.values(Priority),
+  description: '0=critical, 1=high, 2=normal, 3=low',
+}
+const issueType: JsonSchema = { type: 'string', enum: Object.values(IssueType) }
+const label: JsonSchema = { type: 'string', minLength: 1, pattern: '^\\S+$' }
+const labels: JsonSchema = { type: 'array', items: label }
+const issueId: JsonSchema = { type: 'string', minLength: 1, description: 'Issue ID, e.g. bd-a1b2' }
+const date: JsonSchema = { type: 'string', format: 'date-time' }
+const oneOrMany = (schema: JsonSchema): JsonSchema => ({ anyOf: [schema, { type: 'array', items: schema }] })
+
+const textFields: Record<string, JsonSchema> = {
+  description: { type: 'string', description: 'What and why' },
+  design: { type: 'string', description: 'How to build it' },
+  acceptanceCriteria: { type: 'string', description: 'What done looks like' },
+  notes: { type: 'string', description: 'Context for whoever picks this up next' },
+}
+
+/**
+ * Schema of `CreateIssueOptions`
+ */
+export const createIssueSchema: JsonSchema = {
+  type: 'object',
+  properties: {
+    title,
+    ...textFields,
+    status,
+    priority,
+    issueType,
+    assignee: { type: ['string', 'null'], description: 'Null leaves it unassigned' },
+    labels,
+    estimatedMinutes: { type: ['integer', 'null'], minimum: 0 },
+    externalRef: { type: 'string', description: 'Reference in another tracker, e.g. gh-123' },
+    parentId: { ...issueId, description: 'Parent issue ID' },
+  },
+  required: ['title'],
+  additionalProperties: false,
+}
+
+/**
+ * Schema of `UpdateIssueOptions`
+ */
+export const updateIssueSchema: JsonSchema = {
+  type: 'object',
+  properties: {
+    title,
+    ...textFields,
+    status,
+    priority,
+    issueType,
+    assignee: { type: ['string', 'null'], description: 'Null unassigns it' },
+    estimatedMinutes: { type: ['integer', 'null'], minimum: 0 },
+    externalRef: { type: ['string', 'null'], description: 'Reference in another tracker, e.g. gh-123' },
+  },
+  additionalProperties: false,
+}
+
+/**
+ * Schema of `IssueFilterOptions`
+ */
+export const issueFilterSchema: JsonSchema = {
+  type: 'object',
+  properties: {
+    status: oneOrMany(status),
+    priority: oneOrMany(priority),
+    issueType: oneOrMany(issueType),
+    assignee: { type: ['string', 'null'], description: 'Null for unassigned issues' },
+    labels: { ...labels, description: 'Only issues with all of these labels' },
+    labelMatch: { type: 'string', enum: ['all', 'any'] },
+    excludeLabels: labels,
+    text: { type: 'string' },
+    externalRef: { type: ['string', 'null'] },
+    sourceRepo: { type: 'string' },
+    hasDependency: { type: 'string', enum: Object.values(DependencyType) },
+    createdAfter: date,
+    createdBefore: date,
+    updatedAfter: date,
+    updatedBefore: date,
+    closedAfter: date,
+    closedBefore: date,
+    query: {
+      type: 'string',
+      description: 'Filter query, e.g. "status:open,in_progress label:backend -label:wontfix priority<=1 updated>7d"',
+    },
+  },
+  additionalProperties: false,
+}
+
+/**
+ * Schema of `QueryOptions`
+ */
+export const queryOptionsSchema: JsonSchema = {
+  type: 'object',
+  properties: {
+    ...issueFilterSchema.properties,
+    limit: { type: 'integer', minimum: 1 },
+    cursor: { type: 'string', description: 'nextCursor from the previous page' },
+    orderBy: { type: 'string', enum: ['createdAt', 'updatedAt', 'priority', 'title'] },
+    orderDir: { type: 'string', enum: ['asc', 'desc'] },
+  },
+  additionalProperties: false,
+}
+
+/**
+ * @throws ValidationError if the options don't match `createIssueSchema`
+ */
+export function validateCreateIssue(options: unknown): CreateIssueOptions {
+  return validate(createIssueSchema, options, 'issue')
+}
+
+/**
+ * @throws ValidationError if the options don't match `updateIssueSchema`
+ */
+export function validateUpdateIssue(options: unknown): UpdateIssueOptions {
+  return validate(updateIssueSchema, options, 'issue update')
+}
+
+/**
+ * @throws ValidationError if the options don't match `queryOptionsSchema`
+ */
+export function validateQueryOptions(options: unknown): QueryOptions {
+  return validate(queryOptionsSchema, options, 'query options')
+}
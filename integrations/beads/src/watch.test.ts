@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest'
+import type { BeadsAdapter, Change, WatchOptions } from './adapter.js'
+import { ValidationError } from './errors.js'
+import { openTestBeads, testDir } from './test-utils.js'
+
+/**
+ * The first `count` changes from a watch, which is then stopped
+ */
+async function take(beads: BeadsAdapter, count: number, options: WatchOptions = {}): Promise<Change[]> {
+  const controller = new AbortController()
+  const changes: Change[] = []
+  for await (const change of beads.watch({ ...options, signal: controller.signal })) {
+    changes.push(change)
+    if (changes.length === count) controller.abort()
+  }
+  return changes
+}
+
+describe('watch', () => {
+  it('resumes after a cursor, filtered by event type', async () => {
+    const beads = openTestBeads()
+    const before = await beads.createIssue({ title: 'Before' })
+    const cursor = await beads.getCursor()
+    const issue = await beads.createIssue({ title: 'After' })
+    await beads.closeIssue(before.id)
+    await beads.closeIssue(issue.id)
+
+    const changes = await take(beads, 2, { since: cursor, eventTypes: ['closed'] })
+    expect(changes.map((c) => c.event.issueId)).toEqual([before.id, issue.id])
+
+    const [next] = await take(beads, 1, { since: changes[0].cursor })
+    expect(next.event).toMatchObject({ issueId: issue.id, eventType: 'closed' })
+  })
+
+  it('reports writes made while watching', async () => {
+    const beads = openTestBeads()
+    const watching = take(beads, 1, { since: await beads.getCursor(), eventTypes: ['created'] })
+
+    const issue = await beads.createIssue({ title: 'New' })
+    expect((await watching)[0].event.issueId).toBe(issue.id)
+  })
+
+  it('sees writes from other connections', async () => {
+    const dir = testDir()
+    const watcher = openTestBeads({}, dir)
+    const writer = openTestBeads({}, dir)
+    const watching = take(watcher, 1, { since: await watcher.getCursor(), interval: 10 })
+
+    const issue = await writer.createIssue({ title: 'Elsewhere' })
+    expect((await watching)[0].event).toMatchObject({ issueId: issue.id, eventType: 'created' })
+  })
+
+  it('waits for open transactions and skips rolled-back changes', async () => {
+    const beads = openTestBeads()
+    let rollBack!: () => void
+    let created!: () => void
+    const isCreated = new Promise<void>((resolve) => { created = resolve })
+
+    const pending = beads.transaction(async (tx) => {
+      await tx.createIssue({ title: 'Rolled back' })
+      created()
+      await new Promise<void>((resolve) => { rollBack = resolve })
+      throw new Error('abort')
+    })
+    await isCreated
+    const watching = take(beads, 1, { since: '0' })
+
+    rollBack()
+    await expect(pending).rejects.toThrow('abort')
+    const issue = await beads.createIssue({ title: 'Kept' })
+    expect((await watching)[0].event).toMatchObject({ issueId: issue.id, eventType: 'created' })
+  })
+
+  it('ends when the adapter closes', async () => {
+    const beads = openTestBeads()
+    const watching = take(beads, 1, { interval: 10 })
+    await new Promise((resolve) => setTimeout(resolve, 20))
+
+    beads.close()
+    expect(await watching).toEqual([])
+  })
+
+  it('rejects a malformed cursor', async () => {
+    const beads = openTestBeads()
+
+    await expect(take(beads, 1, { since: 'yesterday' })).rejects.toThrow(ValidationError)
+  })
+})
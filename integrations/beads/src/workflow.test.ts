@@ -0,0 +1,173 @@
+import { join } from 'node:path'
+import { describe, expect, it } from 'vitest'
+import { InvalidTransitionError } from './errors.js'
+import { openTestBeads, testDir } from './test-utils.js'
+import { allowedTransitions, noOpenChildren, requireFields } from './workflow.js'
+import type { MutationContext, MutationKind, WorkflowOptions } from './workflow.js'
+
+const BUG_FLOW: WorkflowOptions = {
+  transitions: { bug: { open: ['in_progress'], in_progress: ['closed', 'open'], closed: ['open'] } },
+}
+
+/**
+ * Open an adapter recording the kind and issue of every mutation hook call
+ */
+function openRecording(workflow: WorkflowOptions = {}) {
+  const calls: Array<[MutationKind, string | undefined]> = []
+  const beads = openTestBeads({
+    workflow: { ...workflow, hooks: [{ before: (ctx: MutationContext) => void calls.push([ctx.kind, ctx.issueId]) }] },
+  })
+  return { beads, calls, kinds: () => calls.map(([kind]) => kind) }
+}
+
+describe('transitions', () => {
+  it('uses the map for the issue type, then `*`, then any status', () => {
+    const workflow: WorkflowOptions = { transitions: { ...BUG_FLOW.transitions, '*': { open: ['closed'] } } }
+
+    expect(allowedTransitions(workflow, 'bug', 'open')).toEqual(['in_progress'])
+    expect(allowedTransitions(workflow, 'bug', 'blocked')).toEqual([])
+    expect(allowedTransitions(workflow, 'task', 'open')).toEqual(['closed'])
+    expect(allowedTransitions({}, 'task', 'closed')).toEqual(['open', 'in_progress', 'blocked'])
+  })
+
+  it('rejects status changes the map leaves out, however they are made', async () => {
+    const beads = openTestBeads({ workflow: BUG_FLOW })
+    const bug = await beads.createIssue({ title: 'Crash', issueType: 'bug' })
+
+    await expect(beads.closeIssue(bug.id)).rejects.toThrow(InvalidTransitionError)
+    await expect(beads.updateIssue(bug.id, { status: 'blocked' })).rejects.toMatchObject({ from: 'open', to: 'blocked' })
+    expect((await beads.getIssue(bug.id))?.status).toBe('open')
+
+    await beads.updateIssue(bug.id, { status: 'in_progress' })
+    await beads.closeIssue(bug.id)
+    expect((await beads.getIssue(bug.id))?.status).toBe('closed')
+  })
+})
+
+describe('guards', () => {
+  it('requireFields rejects until the fields are filled in', async () => {
+    const beads = openTestBeads({
+      workflow: { guards: [requireFields({ issueType: 'bug', to: 'in_progress', fields: ['acceptanceCriteria'] })] },
+    })
+    const bug = await beads.createIssue({ title: 'Crash', issueType: 'bug' })
+    const task = await beads.createIssue({ title: 'Chore' })
+
+    await expect(beads.updateIssue(bug.id, { status: 'in_progress' })).rejects.toThrow(/need acceptance criteria/)
+    await beads.updateIssue(task.id, { status: 'in_progress' })
+
+    // Fields set in the same update count
+    await beads.updateIssue(bug.id, { status: 'in_progress', acceptanceCriteria: 'No crash' })
+    expect((await beads.getIssue(bug.id))?.status).toBe('in_progress')
+  })
+
+  it('noOpenChildren rejects closing a parent with open children', async () => {
+    const beads = openTestBeads({ workflow: { guards: [noOpenChildren()] } })
+    const epic = await beads.createIssue({ title: 'Epic', issueType: 'epic' })
+    const child = await beads.createIssue({ title: 'Child', parentId: epic.id })
+
+    await expect(beads.closeIssue(epic.id)).rejects.toThrow(`open children: ${child.id}`)
+
+    await beads.closeIssue(child.id)
+    await beads.closeIssue(epic.id)
+  })
+})
+
+describe('createIssue with a status', () => {
+  it('closes the issue like closeIssue would', async () => {
+    const beads = openTestBeads()
+    const issue = await beads.createIssue({ title: 'Already done', status: 'closed' }, { comment: 'found fixed' })
+
+    expect(issue).toMatchObject({ status: 'closed', closedAt: expect.any(String), closeReason: 'found fixed' })
+    expect((await beads.getHistory(issue.id)).map((e) => e.eventType)).toEqual(['created', 'closed'])
+  })
+
+  it('is checked against the workflow', async () => {
+    const beads = openTestBeads({ workflow: BUG_FLOW })
+
+    await expect(beads.createIssue({ title: 'Crash', issueType: 'bug', status: 'closed' })).rejects.toThrow(InvalidTransitionError)
+    expect(await beads.listIssues()).toEqual([])
+
+    expect(await beads.createIssue({ title: 'Crash', issueType: 'bug', status: 'in_progress' }))
+      .toMatchObject({ status: 'in_progress', closedAt: null })
+  })
+})
+
+describe('hooks', () => {
+  it('can reject a mutation before it runs, or roll it back after', async () => {
+    const beads = openTestBeads({
+      workflow: {
+        hooks: [{
+          before: ({ kind, input }) => {
+            if (kind === 'addLabel' && input.label === 'forbidden') throw new Error('no forbidden labels')
+          },
+          after: ({ kind, result }) => {
+            if (kind === 'createIssue' && (result as { title: string }).title === 'Rollback') throw new Error('rolled back')
+          },
+        }],
+      },
+    })
+    const issue = await beads.createIssue({ title: 'Fine' })
+
+    await expect(beads.addLabel(issue.id, 'forbidden')).rejects.toThrow('no forbidden labels')
+    await expect(beads.createIssue({ title: 'Rollback' })).rejects.toThrow('rolled back')
+
+    expect(await beads.getLabels(issue.id)).toEqual([])
+    expect((await beads.listIssues()).map((i) => i.title)).toEqual(['Fine'])
+  })
+
+  it('run around settings and config changes', async () => {
+    const { beads, kinds } = openRecording()
+
+    await beads.updateSettings({ defaultPriority: 1, defaultIssueType: 'bug' })
+    await beads.setConfig('github.repo', 'acme/app')
+    await beads.unsetConfig('github.repo')
+
+    expect(kinds()).toEqual(['setConfig', 'setConfig', 'setConfig', 'unsetConfig'])
+  })
+
+  it('run around merges, and the moves they make', async () => {
+    const { beads, calls } = openRecording()
+    const target = await beads.createIssue({ title: 'Target' })
+    const source = await beads.createIssue({ title: 'Source', labels: ['ui'] })
+    await beads.addComment(source.id, 'Seen on mobile')
+    calls.length = 0
+
+    await beads.mergeIssues([source.id], target.id)
+
+    expect(calls[0]).toEqual(['mergeIssues', target.id])
+    expect(calls).toContainEqual(['removeLabel', source.id])
+    expect(calls).toContainEqual(['addLabel', target.id])
+    expect(calls).toContainEqual(['closeIssue', source.id])
+  })
+
+  it('roll back a whole merge, comments included', async () => {
+    const beads = openTestBeads({
+      workflow: { hooks: [{ after: ({ kind }) => { if (kind === 'mergeIssues') throw new Error('no merges') } }] },
+    })
+    const target = await beads.createIssue({ title: 'Target' })
+    const source = await beads.createIssue({ title: 'Source', labels: ['ui'] })
+    await beads.addComment(source.id, 'Seen on mobile')
+
+    await expect(beads.mergeIssues([source.id], target.id)).rejects.toThrow('no merges')
+
+    expect(await beads.getComments(target.id)).toEqual([])
+    expect(await beads.getLabels(source.id)).toEqual(['ui'])
+    expect((await beads.getIssue(source.id))?.status).toBe('open')
+  })
+
+  it('run around compaction, purges and imports', async () => {
+    const dir = testDir()
+    const { beads, calls } = openRecording()
+    const done = await beads.createIssue({ title: 'Done', description: 'A long story', status: 'closed' })
+    const gone = await beads.createIssue({ title: 'Gone' })
+    await beads.deleteIssue(gone.id)
+    const { path } = await beads.exportJsonl({ path: join(dir, 'issues.jsonl'), full: true })
+    calls.length = 0
+
+    await beads.compactIssues({ ids: [done.id], summarize: () => 'Short' })
+    await beads.purgeDeleted()
+    await beads.importJsonl({ path, dryRun: true })
+
+    expect(calls).toEqual([['compactIssues', done.id], ['purgeDeleted', undefined], ['importJsonl', undefined]])
+  })
+})
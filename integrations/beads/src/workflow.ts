@@ -0,0 +1,215 @@
+/**
+ * Beads Workflow - Status transitions, guards and mutation hooks
+ *
+ * Every status change, whether through `updateIssue`, `closeIssue`,
+ * `reopenIssue` or `createIssue` with a status other than open, is checked
+ * against the workflow: the transitions allowed for the issue's type, then
+ * each guard, any of which can reject it with a reason. Lease expiry is the
+ * one exception, so abandoned work always goes back to the pool.
+ *
+ * Hooks run before and after every mutation, inside its transaction, so a
+ * hook that throws rolls the mutation back. Compound changes run hooks of
+ * their own kind around those of their parts: `mergeIssues` around the label,
+ * dependency and close hooks of each source, `updateSettings` as one
+ * `setConfig` per setting, and claims, releases and reverts as the updates
+ * they make. Dry runs of `importJsonl` and `purgeDeleted` run hooks too,
+ * with `dryRun` in their input. Derived data written without hooks: the
+ * blocked cache, the search index, export hashes and lease heartbeats.
+ *
+ * ```ts
+ * const beads = createBeadsAdapter({
+ *   dbPath: '.beads/beads.db',
+ *   workflow: {
+ *     transitions: { bug: { open: ['in_progress'], in_progress: ['closed', 'open'], closed: ['open'] } },
+ *     guards: [
+ *       requireFields({ issueType: 'bug', to: 'in_progress', fields: ['acceptanceCriteria'] }),
+ *       noOpenChildren(),
+ *     ],
+ *     hooks: [{ after: (ctx) => console.log(ctx.kind, ctx.issueId) }],
+ *   },
+ * })
+ * ```
+ *
+ * @packageDocumentation
+ */
+
+import type { Issue, IssueStatusValue, IssueTypeValue } from './schema.js'
+import type { BeadsAdapter } from './adapter.js'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * Statuses each status may move to. Statuses left out can't be left.
+ */
+export type TransitionMap = Partial<Record<IssueStatusValue, IssueStatusValue[]>>
+
+export interface TransitionContext {
+  /** The issue as the change leaves it, apart from the status */
+  issue: Issue
+  from: IssueStatusValue
+  to: IssueStatusValue
+  actor: string
+  /** The adapter, inside the mutation's transaction */
+  beads: BeadsAdapter
+}
+
+/**
+ * Check a status change. Return a reason to reject it, or nothing to
+ * allow it.
+ */
+export type TransitionGuard = (
+  context: TransitionContext
+) => string | undefined | void | Promise<string | undefined | void>
+
+export type MutationKind =
+  | 'createIssue'
+  | 'updateIssue'
+  | 'closeIssue'
+  | 'reopenIssue'
+  | 'deleteIssue'
+  | 'restoreIssue'
+  | 'addDependency'
+  | 'removeDependency'
+  | 'addLabel'
+  | 'removeLabel'
+  | 'addComment'
+  | 'mergeIssues'
+  | 'compactIssues'
+  | 'purgeDeleted'
+  | 'importJsonl'
+  | 'setConfig'
+  | 'unsetConfig'
+
+export interface MutationContext {
+  kind: MutationKind
+  /**
+   * Issue being changed: the target of `mergeIssues`; undefined before
+   * `createIssue` and for changes not about one issue
+   */
+  issueId: string | undefined
+  /** Arguments of the call, e.g. the update options or the label */
+  input: Record<string, unknown>
+  actor: string
+  /** The adapter, inside the mutation's transaction */
+  beads: BeadsAdapter
+}
+
+export interface AfterMutationContext extends MutationContext {
+  /** What the mutation returned */
+  result: unknown
+}
+
+/**
+ * Called around every mutation. Throw from `before` to reject a mutation,
+ * or from `after` to roll it back.
+ */
+export interface MutationHooks {
+  before?(context: MutationContext): void | Promise<void>
+  after?(context: AfterMutationContext): void | Promise<void>
+}
+
+export interface WorkflowOptions {
+  /**
+   * Allowed transitions per issue type; `*` applies to types without their
+   * own map (default: any status to any other)
+   */
+  transitions?: Partial<Record<IssueTypeValue | '*', TransitionMap>>
+  /** Checked in order on every status change */
+  guards?: TransitionGuard[]
+  /** Run in order around every mutation */
+  hooks?: MutationHooks[]
+}
+
+// =============================================================================
+// Transitions
+// =============================================================================
+
+/**
+ * Any status may move to any other
+ */
+export const DEFAULT_TRANSITIONS: Record<IssueStatusValue, IssueStatusValue[]> = {
+  open: ['in_progress', 'blocked', 'closed'],
+  in_progress: ['open', 'blocked', 'closed'],
+  blocked: ['open', 'in_progress', 'closed'],
+  closed: ['open', 'in_progress', 'blocked'],
+}
+
+/**
+ * Statuses an issue of a type may move to from a status
+ */
+export function allowedTransitions(
+  workflow: WorkflowOptions,
+  issueType: IssueTypeValue,
+  from: IssueStatusValue
+): IssueStatusValue[] {
+  const map = workflow.transitions?.[issueType] ?? workflow.transitions?.['*'] ?? DEFAULT_TRANSITIONS
+  return map[from] ?? []
+}
+
+/**
+ * Run a status change past the transition map and guards. Returns the
+ * reason it is rejected, if it is.
+ */
+export async function checkTransition(workflow: WorkflowOptions, context: TransitionContext): Promise<string | undefined> {
+  const { issue, from, to } = context
+
+  if (!allowedTransitions(workflow, issue.issueType, from).includes(to)) {
+    return `${issue.issueType} issues can't move from ${from} to ${to}`
+  }
+
+  for (const guard of workflow.guards ?? []) {
+    const reason = await guard(context)
+    if (reason) return reason
+  }
+
+  return undefined
+}
+
+// =============================================================================
+// Guards
+// =============================================================================
+
+type TextField = 'description' | 'design' | 'acceptanceCriteria' | 'notes'
+
+const FIELD_NAMES: Record<TextField, string> = {
+  description: 'a description',
+  design: 'a design',
+  acceptanceCriteria: 'acceptance criteria',
+  notes: 'notes',
+}
+
+/**
+ * Require text fields to be filled in before moving to a status, e.g.
+ * acceptance criteria on bugs before work starts
+ */
+export function requireFields(rule: {
+  /** Only issues of this type (default: all) */
+  issueType?: IssueTypeValue
+  to: IssueStatusValue
+  fields: TextField[]
+}): TransitionGuard {
+  return ({ issue, to }) => {
+    if (to !== rule.to || (rule.issueType && issue.issueType !== rule.issueType)) return
+
+    const missing = rule.fields.filter((field) => !issue[field].trim())
+    if (missing.length > 0) {
+      return `${issue.issueType} issues need ${missing.map((f) => FIELD_NAMES[f]).join(' and ')} before ${to}`
+    }
+  }
+}
+
+/**
+ * Reject closing an issue while any of its children are open
+ */
+export function noOpenChildren(): TransitionGuard {
+  return async ({ issue, to, beads }) => {
+    if (to !== 'closed') return
+
+    const open = await beads.getTransitiveDependents(issue.id, { types: ['parent-child'], maxDepth: 1 })
+    if (open.length > 0) {
+      return `open children: ${open.map((child) => child.id).join(', ')}`
+    }
+  }
+}
@@ -0,0 +1,70 @@
+import { mkdtempSync, rmSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { describe, expect, it, onTestFinished } from 'vitest'
+import { defineProvider } from 'digital-tools'
+import type { ProviderInfo, TaskProvider } from 'digital-tools/types'
+import { createBeadsAdapter } from '@tools.org.ai/beads'
+import { createTaskProvider, listTaskProviders, registerTaskProvider, selectTaskProvider } from './index.js'
+
+/**
+ * Path of a new beads database, removed when the current test finishes
+ */
+function beadsDatabase(): string {
+  const dir = mkdtempSync(join(tmpdir(), 'tasks-test-'))
+  onTestFinished(() => rmSync(dir, { recursive: true, force: true }))
+
+  const dbPath = join(dir, 'beads.db')
+  createBeadsAdapter({ dbPath, createIfMissing: true }).close()
+  return dbPath
+}
+
+/**
+ * A task provider that needs an `apiToken`
+ */
+function tokenProvider(id: string, category: ProviderInfo['category'] = 'tasks') {
+  const info: ProviderInfo = { id, name: id, description: 'Test provider', category, requiredConfig: ['apiToken'] }
+  return defineProvider(info, async () => ({ info }) as unknown as TaskProvider)
+}
+
+describe('selectTaskProvider', () => {
+  it('finds providers by ID or short name', () => {
+    expect(listTaskProviders().map((p) => p.id)).toContain('tasks.beads')
+    expect(selectTaskProvider({ provider: 'beads' }).id).toBe('tasks.beads')
+    expect(selectTaskProvider({ provider: 'tasks.beads' }).id).toBe('tasks.beads')
+    expect(() => selectTaskProvider({ provider: 'jira' })).toThrow(/'jira' not found\. Available: .*tasks\.beads/)
+  })
+
+  it('picks the first provider whose required config is present', () => {
+    registerTaskProvider(tokenProvider('tasks.token'))
+
+    expect(selectTaskProvider({ dbPath: 'beads.db' }).id).toBe('tasks.beads')
+    expect(selectTaskProvider({ apiToken: 'secret' }).id).toBe('tasks.token')
+    expect(() => selectTaskProvider({})).toThrow(/No task provider matches/)
+  })
+})
+
+describe('registerTaskProvider', () => {
+  it('accepts only task providers, once each', () => {
+    expect(() => registerTaskProvider(tokenProvider('crm.token', 'crm'))).toThrow(/not a task provider/)
+    expect(listTaskProviders().map((p) => p.id)).not.toContain('crm.token')
+
+    registerTaskProvider(tokenProvider('tasks.once'))
+    expect(() => registerTaskProvider(tokenProvider('tasks.once'))).toThrow(/already registered/)
+  })
+})
+
+describe('createTaskProvider', () => {
+  it('creates and initializes the selected provider', async () => {
+    const tasks = await createTaskProvider({ provider: 'beads', dbPath: beadsDatabase() })
+    onTestFinished(() => tasks.dispose())
+
+    const task = await tasks.createTask({ content: 'Write the release notes', priority: 3 })
+    expect(await tasks.completeTask(task.id)).toBe(true)
+    expect(await tasks.getTask(task.id)).toMatchObject({ content: 'Write the release notes', priority: 3, completed: true })
+  })
+
+  it('requires the provider\'s config', async () => {
+    await expect(createTaskProvider({ provider: 'beads' })).rejects.toThrow(/missing required config: dbPath/)
+  })
+})
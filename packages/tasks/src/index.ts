@@ -0,0 +1,104 @@
+/**
+ * @tools.org.ai/tasks - Task providers behind one interface
+ *
+ * Write code against the abstract `TaskProvider` from `digital-tools` and
+ * pick the backend with configuration.
+ *
+ * ```ts
+ * import { createTaskProvider } from '@tools.org.ai/tasks'
+ *
+ * const tasks = await createTaskProvider({ provider: 'beads', dbPath: '.beads/beads.db' })
+ * const task = await tasks.createTask({ content: 'Write the release notes', priority: 3 })
+ * await tasks.completeTask(task.id)
+ * await tasks.dispose()
+ * ```
+ *
+ * @packageDocumentation
+ */
+
+import { createProviderRegistry } from 'digital-tools'
+import type { ProviderConfig, ProviderFactory, ProviderInfo, TaskProvider } from 'digital-tools/types'
+import { beadsTaskProvider } from '@tools.org.ai/beads/provider'
+
+export type {
+  TaskProvider,
+  TaskData,
+  CreateTaskOptions,
+  TaskListOptions,
+  ProjectData,
+  CommentData,
+  PaginatedResult,
+} from 'digital-tools/types'
+
+export interface TaskProviderDefinition {
+  info: ProviderInfo
+  factory: ProviderFactory<TaskProvider>
+}
+
+export interface TaskProviderConfig extends ProviderConfig {
+  /**
+   * Provider to use, by ID (`tasks.beads`) or short name (`beads`). Defaults
+   * to the first registered provider whose required config is present.
+   */
+  provider?: string
+}
+
+/**
+ * Task providers that ship with this package
+ */
+export const providers = {
+  beads: beadsTaskProvider,
+}
+
+const registry = createProviderRegistry()
+
+for (const provider of Object.values(providers)) {
+  registry.register(provider.info, provider.factory)
+}
+
+/**
+ * Register another task provider, e.g. one defined with `defineProvider`
+ */
+export function registerTaskProvider(provider: TaskProviderDefinition): void {
+  if (provider.info.category !== 'tasks') {
+    throw new Error(`Provider '${provider.info.id}' is not a task provider`)
+  }
+
+  registry.register(provider.info, provider.factory)
+}
+
+/**
+ * List the registered task providers, in registration order
+ */
+export function listTaskProviders(): ProviderInfo[] {
+  return registry.list('tasks').map((p) => p.info)
+}
+
+/**
+ * Pick the provider a config refers to
+ */
+export function selectTaskProvider(config: TaskProviderConfig): ProviderInfo {
+  const available = listTaskProviders()
+
+  if (config.provider) {
+    const info = available.find((p) => p.id === config.provider || p.id === `tasks.${config.provider}`)
+    if (!info) {
+      throw new Error(`Task provider '${config.provider}' not found. Available: ${available.map((p) => p.id).join(', ')}`)
+    }
+    return info
+  }
+
+  const info = available.find((p) => p.requiredConfig.every((key) => config[key] !== undefined))
+  if (!info) {
+    throw new Error(`No task provider matches the given config. Available: ${available.map((p) => p.id).join(', ')}`)
+  }
+  return info
+}
+
+/**
+ * Create and initialize the task provider selected by `config`
+ */
+export async function createTaskProvider(config: TaskProviderConfig): Promise<TaskProvider> {
+  const info = selectTaskProvider(config)
+  return registry.create<TaskProvider>(info.id, config)
+}